@@ -29,6 +29,13 @@ describe("Chip ", () => {
     expect(within(chip).getByText("Bob")).toBeInTheDocument(); // Colon and space added with CSS
   });
 
+  it("displays the operator", () => {
+    render(<Chip data-testid="chip" lead="Memory" operator=">" value="16GB" />);
+    expect(
+      within(screen.getByTestId("chip")).getByText(">")
+    ).toBeInTheDocument();
+  });
+
   it("displays the dismiss action", () => {
     const onDismiss = jest.fn();
     render(
@@ -97,6 +104,16 @@ describe("Chip ", () => {
     expect(screen.getByTestId("chip")).toHaveClass("p-chip--information");
   });
 
+  it("sets the pressed state", () => {
+    render(<Chip selected value="us-east1" />);
+    expect(screen.getByRole("button")).toHaveAttribute("aria-pressed", "true");
+  });
+
+  it("does not set the pressed state when given a role", () => {
+    render(<Chip aria-selected role="option" selected value="us-east1" />);
+    expect(screen.getByRole("option")).not.toHaveAttribute("aria-pressed");
+  });
+
   it("renders extra props", () => {
     render(
       <Chip
@@ -1,5 +1,5 @@
 import React from "react";
-import { highlightSubString } from "../../utils";
+import { highlightFuzzyMatch } from "../../utils";
 import type { KeyboardEvent, MouseEvent, HTMLProps } from "react";
 import { ValueOf, PropsWithSpread } from "types";
 import classNames from "classnames";
@@ -36,13 +36,17 @@ export type Props = PropsWithSpread<
      * Function for handling dismissing a chip.
      */
     onDismiss?: () => void;
+    /**
+     * An operator to display between the lead and the value, e.g. "!=".
+     */
+    operator?: string;
     /**
      * Whether the chip is selected.
      */
     selected?: boolean;
     /**
-     * A substring to emphasise if it is part of the chip's value,
-     * e.g. "sit" => poSITive
+     * A search term whose matching characters are emphasised in the chip's
+     * value, e.g. "sit" => poSITive or "pve" => PositiVE
      */
     subString?: string;
     /**
@@ -62,6 +66,7 @@ const Chip = ({
   lead = "",
   onClick,
   onDismiss,
+  operator,
   quoteValue,
   selected,
   subString = "",
@@ -79,17 +84,15 @@ const Chip = ({
     }
   };
 
-  const chipValue = highlightSubString(value, subString).text;
+  const chipValue = highlightFuzzyMatch(value, subString);
 
   const chipContent = (
     <>
       {lead && <span className="p-chip__lead">{lead.toUpperCase()}</span>}
-      <span
-        className="p-chip__value"
-        dangerouslySetInnerHTML={{
-          __html: quoteValue ? `'${chipValue}'` : chipValue,
-        }}
-      />
+      {operator && <span className="p-chip__operator">{operator} </span>}
+      <span className="p-chip__value">
+        {quoteValue ? <>&apos;{chipValue}&apos;</> : chipValue}
+      </span>
     </>
   );
 
@@ -114,7 +117,9 @@ const Chip = ({
     return (
       <button
         {...props}
-        aria-pressed={selected}
+        // A chip with a role, e.g. an option in a listbox, describes its
+        // state using the attributes for that role instead.
+        aria-pressed={props.role ? undefined : selected}
         className={chipClassName}
         onClick={onClick}
         onKeyDown={(e) => onKeyDown(e)}
@@ -0,0 +1,234 @@
+import { act, render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import React from "react";
+
+import Combobox, { Label, LOAD_OPTIONS_DELAY } from "./Combobox";
+
+const options = [
+  { label: "Cosmic Cuttlefish", value: "cosmic" },
+  { label: "Bionic Beaver", value: "bionic" },
+  { label: "Xenial Xerus", value: "xenial" },
+];
+
+// The highlighted characters split the accessible name of the options, so
+// match the options by their text instead.
+const withText = (text: string) => ({
+  name: (_name: string, element: Element) => element.textContent === text,
+});
+
+describe("Combobox", () => {
+  it("displays the label of the selected option", () => {
+    render(<Combobox label="Release" options={options} value="bionic" />);
+    expect(screen.getByRole("combobox", { name: "Release" })).toHaveValue(
+      "Bionic Beaver"
+    );
+    expect(screen.getByRole("combobox")).toHaveAttribute(
+      "aria-expanded",
+      "false"
+    );
+  });
+
+  it("filters the options when typing", async () => {
+    render(<Combobox label="Release" options={options} />);
+    await userEvent.type(screen.getByRole("combobox"), "xen");
+    expect(
+      screen.getAllByRole("option").map(({ textContent }) => textContent)
+    ).toEqual(["Xenial Xerus"]);
+    await userEvent.clear(screen.getByRole("combobox"));
+    await userEvent.type(screen.getByRole("combobox"), "zzz");
+    expect(screen.queryByRole("option")).not.toBeInTheDocument();
+    expect(screen.getByText(Label.NoResults)).toBeInTheDocument();
+  });
+
+  it("can select an option with the keyboard", async () => {
+    const onChange = jest.fn();
+    render(
+      <Combobox
+        label="Release"
+        name="release"
+        onChange={onChange}
+        options={[
+          options[0],
+          { disabled: true, label: "Disco Dingo", value: "disco" },
+          ...options.slice(1),
+        ]}
+      />
+    );
+    const input = screen.getByRole("combobox");
+    await userEvent.click(input);
+    await userEvent.keyboard("{ArrowDown}{ArrowDown}");
+    // The disabled option is skipped.
+    const option = screen.getByRole("option", { name: "Bionic Beaver" });
+    expect(option).toHaveAttribute("aria-selected", "true");
+    expect(input).toHaveAttribute("aria-activedescendant", option.id);
+    await userEvent.keyboard("{ArrowUp}{ArrowUp}");
+    expect(
+      screen.getByRole("option", { name: "Xenial Xerus" })
+    ).toHaveAttribute("aria-selected", "true");
+    await userEvent.keyboard("{Enter}");
+    expect(onChange).toHaveBeenCalledWith({
+      target: { id: input.id, name: "release", value: "xenial" },
+    });
+    expect(input).toHaveValue("Xenial Xerus");
+    expect(input).toHaveAttribute("aria-expanded", "false");
+    // eslint-disable-next-line testing-library/no-node-access
+    expect(document.querySelector("input[name='release']")).toHaveValue(
+      "xenial"
+    );
+  });
+
+  it("can select an option with the mouse", async () => {
+    render(<Combobox label="Release" options={options} />);
+    await userEvent.click(screen.getByRole("combobox"));
+    await userEvent.click(
+      screen.getByRole("option", { name: "Cosmic Cuttlefish" })
+    );
+    expect(screen.getByRole("combobox")).toHaveValue("Cosmic Cuttlefish");
+  });
+
+  it("restores the selected option when closing", async () => {
+    render(
+      <Combobox label="Release" options={options} defaultValue="cosmic" />
+    );
+    const input = screen.getByRole("combobox");
+    await userEvent.type(input, "{ArrowDown}");
+    await userEvent.clear(input);
+    await userEvent.type(input, "bio");
+    expect(screen.getByRole("listbox")).toBeInTheDocument();
+    await userEvent.keyboard("{Escape}");
+    expect(screen.queryByRole("listbox")).not.toBeInTheDocument();
+    expect(input).toHaveValue("Cosmic Cuttlefish");
+  });
+
+  it("groups the options under headings", async () => {
+    render(
+      <Combobox
+        label="Image"
+        options={[
+          { group: "Ubuntu", label: "22.04", value: "jammy" },
+          { group: "CentOS", label: "7", value: "centos7" },
+          { group: "Ubuntu", label: "20.04", value: "focal" },
+        ]}
+      />
+    );
+    await userEvent.click(screen.getByRole("combobox"));
+    expect(
+      within(screen.getByRole("group", { name: "Ubuntu" }))
+        .getAllByRole("option")
+        .map(({ textContent }) => textContent)
+    ).toEqual(["22.04", "20.04"]);
+    await userEvent.keyboard("{ArrowDown}{ArrowDown}");
+    expect(screen.getByRole("option", { name: "20.04" })).toHaveAttribute(
+      "aria-selected",
+      "true"
+    );
+  });
+
+  it("can render custom options", async () => {
+    render(
+      <Combobox
+        label="Release"
+        options={options}
+        renderOption={(option, { selected }) =>
+          `${option.value}${selected ? " (current)" : ""}`
+        }
+        value="xenial"
+      />
+    );
+    await userEvent.click(screen.getByRole("combobox"));
+    expect(
+      screen.getByRole("option", { name: "xenial (current)" })
+    ).toBeInTheDocument();
+  });
+
+  it("loads the options for the search term", async () => {
+    jest.useFakeTimers();
+    const loadOptions = jest.fn().mockResolvedValue([options[2]]);
+    render(<Combobox label="Release" loadOptions={loadOptions} />);
+    const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
+    await user.type(screen.getByRole("combobox"), "xe");
+    expect(screen.getByText(Label.Loading)).toBeInTheDocument();
+    await act(async () => {
+      jest.advanceTimersByTime(LOAD_OPTIONS_DELAY);
+    });
+    expect(loadOptions).toHaveBeenCalledTimes(1);
+    expect(loadOptions).toHaveBeenCalledWith("xe", {
+      signal: expect.any(AbortSignal),
+    });
+    await user.click(
+      await screen.findByRole("option", withText("Xenial Xerus"))
+    );
+    expect(screen.getByRole("combobox")).toHaveValue("Xenial Xerus");
+    jest.useRealTimers();
+  });
+
+  it("displays an error if the options could not be loaded", async () => {
+    render(
+      <Combobox
+        label="Release"
+        loadDelay={0}
+        loadOptions={jest.fn().mockRejectedValue(new Error("Uh oh"))}
+      />
+    );
+    await userEvent.click(screen.getByRole("combobox"));
+    expect(await screen.findByText(Label.LoadError)).toBeInTheDocument();
+  });
+
+  it("displays an error if the loader throws", async () => {
+    render(
+      <Combobox
+        label="Release"
+        loadDelay={0}
+        loadOptions={() => {
+          throw new Error("Uh oh");
+        }}
+      />
+    );
+    await userEvent.click(screen.getByRole("combobox"));
+    expect(await screen.findByText(Label.LoadError)).toBeInTheDocument();
+  });
+
+  it("can create a new option", async () => {
+    const onCreate = jest.fn();
+    render(<Combobox label="Tag" onCreate={onCreate} options={options} />);
+    const input = screen.getByRole("combobox");
+    await userEvent.type(input, "bionic beaver");
+    expect(
+      screen.queryByRole("option", { name: /^Create/ })
+    ).not.toBeInTheDocument();
+    await userEvent.type(input, " 2");
+    await userEvent.keyboard("{ArrowDown}{Enter}");
+    expect(onCreate).toHaveBeenCalledWith("bionic beaver 2");
+  });
+
+  it("can clear the selected option", async () => {
+    const onChange = jest.fn();
+    render(
+      <Combobox
+        label="Release"
+        onChange={onChange}
+        options={options}
+        value="cosmic"
+      />
+    );
+    await userEvent.click(screen.getByRole("button", { name: Label.Clear }));
+    expect(onChange).toHaveBeenCalledWith({
+      target: expect.objectContaining({ value: "" }),
+    });
+    expect(screen.getByRole("combobox")).toHaveFocus();
+  });
+
+  it("can display help and validation", () => {
+    render(
+      <Combobox error="Uh oh!" help="Pick one" label="Release" options={[]} />
+    );
+    const input = screen.getByRole("combobox");
+    expect(input).toHaveAccessibleErrorMessage("Error: Uh oh!");
+    expect(input).toHaveAccessibleDescription("Pick one");
+  });
+
+  it("can take focus on first render", () => {
+    render(<Combobox label="Release" options={options} takeFocus />);
+    expect(screen.getByRole("combobox")).toHaveFocus();
+  });
+});
@@ -0,0 +1,445 @@
+import classNames from "classnames";
+import React, { useEffect, useRef, useState } from "react";
+import type {
+  InputHTMLAttributes,
+  KeyboardEvent,
+  OptionHTMLAttributes,
+  ReactNode,
+} from "react";
+
+import Field from "../Field";
+import Icon from "../Icon";
+import ListboxDropdown, {
+  ListboxOption,
+  orderByGroup,
+  useListboxNavigation,
+} from "../ListboxDropdown";
+import Spinner from "../Spinner";
+import { useDebouncedLoader, useId } from "hooks";
+import { highlightFuzzyMatch, rankFuzzyMatches } from "utils";
+
+import type { ClassName, PropsWithSpread } from "types";
+
+import "./Combobox.scss";
+
+export enum Label {
+  Clear = "Clear",
+  Create = "Create",
+  Loading = "Loading options",
+  LoadError = "The options could not be loaded.",
+  NoResults = "No matching options",
+}
+
+export const LOAD_OPTIONS_DELAY = 300;
+
+// A constant so that the loaded options do not change when there are none.
+const NO_OPTIONS: ComboboxOption[] = [];
+
+/**
+ * An option has the same attributes as a Select option, with an optional
+ * group.
+ */
+export type ComboboxOption = OptionHTMLAttributes<HTMLOptionElement> & {
+  /**
+   * A heading to group the option under.
+   */
+  group?: string;
+};
+
+/**
+ * A function that loads the options for a search term. The signal is aborted
+ * when the options are no longer needed, e.g. because the search term has
+ * changed.
+ */
+export type ComboboxOptionsLoader = (
+  term: string,
+  options: { signal: AbortSignal }
+) => Promise<ComboboxOption[]>;
+
+/**
+ * The event that is passed to `onChange`. This has the same shape as the
+ * target of a select's change event so that Select handlers can be reused.
+ */
+export type ComboboxChangeEvent = {
+  target: {
+    id: string;
+    name?: string;
+    value: string;
+  };
+};
+
+/**
+ * The props for the Combobox component.
+ */
+export type Props = PropsWithSpread<
+  {
+    /**
+     * The content for caution validation.
+     */
+    caution?: ReactNode;
+    /**
+     * Optional class(es) to pass to the input element.
+     */
+    className?: ClassName;
+    /**
+     * Whether to display a button to clear the selected option.
+     */
+    clearable?: boolean;
+    /**
+     * The initially selected value when the value is not controlled.
+     */
+    defaultValue?: string;
+    /**
+     * The content for error validation.
+     */
+    error?: ReactNode;
+    /**
+     * Help text to show below the field.
+     */
+    help?: ReactNode;
+    /**
+     * The id of the input.
+     */
+    id?: string | null;
+    /**
+     * The label for the field.
+     */
+    label?: ReactNode;
+    /**
+     * Optional class(es) to pass to the label component.
+     */
+    labelClassName?: string | null;
+    /**
+     * How long to wait for the user to stop typing before loading the
+     * options, in milliseconds.
+     */
+    loadDelay?: number;
+    /**
+     * A function that loads the options for the search term. When this is
+     * provided the loaded options are displayed instead of the `options`.
+     */
+    loadOptions?: ComboboxOptionsLoader;
+    /**
+     * The name of the field, used when submitting a form.
+     */
+    name?: string;
+    /**
+     * Function to run when the selected value changes.
+     */
+    onChange?: ((event: ComboboxChangeEvent) => void) | null;
+    /**
+     * A function that is called with the search term when the user chooses to
+     * create a new option. When this is provided the create option is
+     * displayed if no option matches the search term.
+     */
+    onCreate?: (term: string) => void;
+    /**
+     * Array of options that the combobox can choose from.
+     */
+    options?: ComboboxOption[] | null;
+    /**
+     * A function to render the content of an option.
+     */
+    renderOption?: (
+      option: ComboboxOption,
+      state: { active: boolean; selected: boolean; term: string }
+    ) => ReactNode;
+    /**
+     * Whether the field is required.
+     */
+    required?: boolean;
+    /**
+     * Whether the form field should have a stacked appearance.
+     */
+    stacked?: boolean;
+    /**
+     * The content for success validation.
+     */
+    success?: ReactNode;
+    /**
+     * Whether to focus on the input on initial render.
+     */
+    takeFocus?: boolean;
+    /**
+     * The selected value, when the value is controlled.
+     */
+    value?: string | null;
+    /**
+     * Optional class(es) to pass to the wrapping Field component
+     */
+    wrapperClassName?: ClassName;
+  },
+  InputHTMLAttributes<HTMLInputElement>
+>;
+
+const getOptionValue = (option: ComboboxOption) =>
+  option.value === undefined || option.value === null
+    ? ""
+    : String(option.value);
+
+const getOptionText = (option: ComboboxOption) =>
+  option.label ?? getOptionValue(option);
+
+const Combobox = ({
+  caution,
+  className,
+  clearable = true,
+  defaultValue,
+  disabled,
+  error,
+  help,
+  id,
+  label,
+  labelClassName,
+  loadDelay = LOAD_OPTIONS_DELAY,
+  loadOptions,
+  name,
+  onChange,
+  onCreate,
+  options,
+  renderOption,
+  required,
+  stacked,
+  success,
+  takeFocus,
+  value,
+  wrapperClassName,
+  ...inputProps
+}: Props): JSX.Element => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const wrapper = useRef<HTMLDivElement>(null);
+  const defaultId = useId();
+  const inputId = id || defaultId;
+  const listboxId = useId();
+  const validationId = useId();
+  const helpId = useId();
+  const hasError = !!error;
+  const [internalValue, setInternalValue] = useState(defaultValue ?? "");
+  const selectedValue =
+    value === undefined || value === null ? internalValue : value;
+  // The text the user has typed, or null when they are not searching.
+  const [term, setTerm] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  // Keep the selected option so that its label can still be displayed when
+  // the loaded options no longer include it.
+  const [selectedOption, setSelectedOption] = useState<ComboboxOption | null>(
+    null
+  );
+  const searchTerm = term ?? "";
+  // The options are loaded once the search term stops changing.
+  const loaded = useDebouncedLoader(
+    loadOptions && open
+      ? ({ signal }) => loadOptions(searchTerm, { signal })
+      : null,
+    searchTerm,
+    loadDelay
+  );
+  const loadedOptions = loaded.result ?? NO_OPTIONS;
+  const allOptions = (loadOptions ? loadedOptions : options) ?? [];
+  const currentOption =
+    allOptions.find((option) => getOptionValue(option) === selectedValue) ??
+    (selectedOption && getOptionValue(selectedOption) === selectedValue
+      ? selectedOption
+      : null);
+  // Loaded options have already been matched to the search term, otherwise
+  // the options that match are shown from the best to the worst match.
+  const matchingOptions =
+    loadOptions || !searchTerm.trim()
+      ? allOptions
+      : rankFuzzyMatches(allOptions, searchTerm, getOptionText).map(
+          ({ item }) => item
+        );
+  const orderedOptions = orderByGroup(matchingOptions);
+  const canCreate =
+    !!onCreate &&
+    !!searchTerm.trim() &&
+    !allOptions.some(
+      (option) =>
+        getOptionText(option).toLowerCase() === searchTerm.trim().toLowerCase()
+    );
+  // The create option comes after the other options.
+  const createIndex = canCreate ? orderedOptions.length : -1;
+  const {
+    activeDescendant,
+    activeIndex,
+    getOptionId,
+    handleKeyDown,
+    setActiveIndex,
+  } = useListboxNavigation({
+    listboxId,
+    open,
+    options: canCreate ? [...orderedOptions, {}] : orderedOptions,
+    onChoose: (index) => chooseOption(index),
+    onClose: () => closeListbox(),
+    onOpen: () => setOpen(true),
+    selectedIndex: orderedOptions.findIndex(
+      (option) => getOptionValue(option) === selectedValue
+    ),
+  });
+
+  useEffect(() => {
+    if (takeFocus) {
+      inputRef.current.focus();
+    }
+  }, [takeFocus]);
+
+  // The active option may no longer exist when the loaded options change.
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [loadedOptions, setActiveIndex]);
+
+  const closeListbox = () => {
+    setOpen(false);
+    setTerm(null);
+    setActiveIndex(-1);
+  };
+
+  const changeValue = (option: ComboboxOption | null) => {
+    const newValue = option ? getOptionValue(option) : "";
+    setSelectedOption(option);
+    setInternalValue(newValue);
+    onChange?.({ target: { id: inputId, name, value: newValue } });
+  };
+
+  const chooseOption = (index: number) => {
+    if (index === createIndex) {
+      onCreate(searchTerm.trim());
+    } else if (orderedOptions[index]?.disabled) {
+      return;
+    } else {
+      changeValue(orderedOptions[index]);
+    }
+    closeListbox();
+  };
+
+  const clearValue = () => {
+    changeValue(null);
+    closeListbox();
+    inputRef.current?.focus();
+  };
+
+  const handleInputKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    handleKeyDown(event);
+    inputProps.onKeyDown?.(event);
+  };
+
+  let status: ReactNode = null;
+  if (loaded.loading && !orderedOptions.length) {
+    status = <Spinner text={Label.Loading} />;
+  } else if (loaded.error) {
+    status = <p className="p-form-validation__message">{Label.LoadError}</p>;
+  } else if (!orderedOptions.length && !canCreate) {
+    status = <p className="u-text--muted">{Label.NoResults}</p>;
+  }
+
+  return (
+    <Field
+      caution={caution}
+      className={wrapperClassName}
+      error={error}
+      forId={inputId}
+      help={help}
+      helpId={helpId}
+      isSelect={true}
+      label={label}
+      labelClassName={labelClassName}
+      required={required}
+      stacked={stacked}
+      success={success}
+      validationId={validationId}
+    >
+      <div className="p-combobox" ref={wrapper}>
+        <input
+          aria-activedescendant={activeDescendant}
+          aria-autocomplete="list"
+          aria-controls={listboxId}
+          aria-describedby={[
+            help ? helpId : null,
+            success ? validationId : null,
+          ]
+            .filter(Boolean)
+            .join(" ")}
+          aria-errormessage={hasError ? validationId : null}
+          aria-expanded={open}
+          aria-invalid={hasError}
+          // The browser's own suggestions would cover the options.
+          autoComplete="off"
+          className={classNames("p-form-validation__input", className)}
+          disabled={disabled}
+          id={inputId}
+          ref={inputRef}
+          required={required}
+          role="combobox"
+          type="text"
+          {...inputProps}
+          onBlur={(event) => {
+            closeListbox();
+            inputProps.onBlur?.(event);
+          }}
+          onChange={(event) => {
+            setTerm(event.target.value);
+            setOpen(true);
+            setActiveIndex(-1);
+          }}
+          onClick={(event) => {
+            setOpen(true);
+            inputProps.onClick?.(event);
+          }}
+          onKeyDown={handleInputKeyDown}
+          value={
+            term ??
+            (currentOption ? getOptionText(currentOption) : selectedValue)
+          }
+        />
+        {name ? (
+          <input name={name} type="hidden" value={selectedValue} />
+        ) : null}
+        {clearable && selectedValue && !disabled ? (
+          <button
+            className="p-button--base has-icon u-no-margin--bottom p-combobox__clear"
+            onClick={clearValue}
+            type="button"
+          >
+            <Icon name="close">{Label.Clear}</Icon>
+          </button>
+        ) : null}
+        {open ? (
+          <ListboxDropdown
+            activeIndex={activeIndex}
+            getOptionId={getOptionId}
+            id={listboxId}
+            isSelected={(option) => getOptionValue(option) === selectedValue}
+            label={typeof label === "string" ? label : undefined}
+            onChoose={chooseOption}
+            options={orderedOptions}
+            reference={wrapper.current}
+            renderOption={(option, index) =>
+              renderOption
+                ? renderOption(option, {
+                    active: index === activeIndex,
+                    selected: getOptionValue(option) === selectedValue,
+                    term: searchTerm,
+                  })
+                : highlightFuzzyMatch(getOptionText(option), searchTerm)
+            }
+            status={status}
+          >
+            {canCreate ? (
+              <div className="p-contextual-menu__group">
+                <ListboxOption
+                  active={createIndex === activeIndex}
+                  id={getOptionId(createIndex)}
+                  onChoose={() => chooseOption(createIndex)}
+                >
+                  {Label.Create} &ldquo;{searchTerm.trim()}&rdquo;
+                </ListboxOption>
+              </div>
+            ) : null}
+          </ListboxDropdown>
+        ) : null}
+      </div>
+    </Field>
+  );
+};
+
+export default Combobox;
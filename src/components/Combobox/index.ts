@@ -0,0 +1,7 @@
+export { default } from "./Combobox";
+export type {
+  ComboboxChangeEvent,
+  ComboboxOption,
+  ComboboxOptionsLoader,
+  Props as ComboboxProps,
+} from "./Combobox";
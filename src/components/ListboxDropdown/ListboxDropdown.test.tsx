@@ -0,0 +1,166 @@
+import { act, render, renderHook, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import React from "react";
+import type { KeyboardEvent } from "react";
+
+import ListboxDropdown, { orderByGroup } from "./ListboxDropdown";
+import { useListboxNavigation } from "./useListboxNavigation";
+
+const options = [
+  { group: "Clouds", value: "aws" },
+  { value: "gpu" },
+  { group: "Clouds", value: "azure" },
+];
+
+const getOptionId = (index: number) => `listbox-${index}`;
+
+const pressKey = (key: string) =>
+  ({
+    key,
+    preventDefault: jest.fn(),
+    stopPropagation: jest.fn(),
+  } as unknown as KeyboardEvent<HTMLInputElement>);
+
+describe("ListboxDropdown", () => {
+  it("groups the options under their headings", () => {
+    render(
+      <ListboxDropdown
+        activeIndex={-1}
+        getOptionId={getOptionId}
+        id="listbox"
+        onChoose={jest.fn()}
+        options={orderByGroup(options)}
+        reference={null}
+        renderOption={({ value }) => value}
+      />
+    );
+    expect(
+      screen
+        .getAllByRole("option")
+        .map(({ textContent, id }) => `${id}:${textContent}`)
+    ).toStrictEqual(["listbox-0:aws", "listbox-1:azure", "listbox-2:gpu"]);
+    expect(screen.getByRole("group", { name: "Clouds" })).toBeInTheDocument();
+  });
+
+  it("styles the active and selected options with classes", () => {
+    render(
+      <ListboxDropdown
+        activeIndex={1}
+        getOptionId={getOptionId}
+        id="listbox"
+        isSelected={({ value }) => value === "aws"}
+        onChoose={jest.fn()}
+        options={options}
+        reference={null}
+        renderOption={({ value }) => value}
+      />
+    );
+    expect(screen.getByRole("option", { name: "gpu" })).toHaveClass(
+      "is-active"
+    );
+    expect(screen.getByRole("option", { name: "aws" })).toHaveClass(
+      "is-selected"
+    );
+    expect(screen.getByRole("option", { name: "aws" })).not.toHaveClass(
+      "is-active"
+    );
+  });
+
+  it("chooses an option when it is clicked", async () => {
+    const onChoose = jest.fn();
+    render(
+      <ListboxDropdown
+        activeIndex={-1}
+        getOptionId={getOptionId}
+        id="listbox"
+        onChoose={onChoose}
+        options={options}
+        reference={null}
+        renderOption={({ value }) => value}
+      />
+    );
+    await userEvent.click(screen.getByRole("option", { name: "azure" }));
+    expect(onChoose).toHaveBeenCalledWith(2);
+  });
+});
+
+describe("useListboxNavigation", () => {
+  it("moves through the enabled options and wraps around", () => {
+    const { result } = renderHook(() =>
+      useListboxNavigation({
+        listboxId: "listbox",
+        open: true,
+        options: [{}, { disabled: true }, {}],
+        onChoose: jest.fn(),
+        onClose: jest.fn(),
+        onOpen: jest.fn(),
+      })
+    );
+    act(() => {
+      result.current.handleKeyDown(pressKey("ArrowDown"));
+    });
+    expect(result.current.activeDescendant).toBe("listbox-0");
+    act(() => {
+      result.current.handleKeyDown(pressKey("ArrowDown"));
+    });
+    expect(result.current.activeIndex).toBe(2);
+    act(() => {
+      result.current.handleKeyDown(pressKey("ArrowDown"));
+    });
+    expect(result.current.activeIndex).toBe(0);
+    act(() => {
+      result.current.handleKeyDown(pressKey("ArrowUp"));
+    });
+    expect(result.current.activeIndex).toBe(2);
+  });
+
+  it("chooses the active option and closes with the escape key", () => {
+    const onChoose = jest.fn();
+    const onClose = jest.fn();
+    const { result } = renderHook(() =>
+      useListboxNavigation({
+        listboxId: "listbox",
+        open: true,
+        options: [{}, {}],
+        onChoose,
+        onClose,
+        onOpen: jest.fn(),
+      })
+    );
+    expect(result.current.handleKeyDown(pressKey("Enter"))).toBe(false);
+    act(() => {
+      result.current.handleKeyDown(pressKey("ArrowUp"));
+    });
+    act(() => {
+      result.current.handleKeyDown(pressKey("Enter"));
+    });
+    expect(onChoose).toHaveBeenCalledWith(1);
+    const escape = pressKey("Escape");
+    act(() => {
+      result.current.handleKeyDown(escape);
+    });
+    expect(escape.stopPropagation).toHaveBeenCalled();
+    expect(onClose).toHaveBeenCalled();
+    expect(result.current.activeIndex).toBe(-1);
+  });
+
+  it("starts from the selected option when opening", () => {
+    const onOpen = jest.fn();
+    const { result } = renderHook(() =>
+      useListboxNavigation({
+        listboxId: "listbox",
+        open: false,
+        options: [{}, {}, {}],
+        onChoose: jest.fn(),
+        onClose: jest.fn(),
+        onOpen,
+        selectedIndex: 1,
+      })
+    );
+    act(() => {
+      result.current.handleKeyDown(pressKey("ArrowDown"));
+    });
+    expect(onOpen).toHaveBeenCalled();
+    expect(result.current.activeIndex).toBe(1);
+  });
+});
@@ -0,0 +1,219 @@
+import classNames from "classnames";
+import React, { useState } from "react";
+import type { ReactNode } from "react";
+
+import { useWindowFitment } from "hooks";
+
+import "./ListboxDropdown.scss";
+
+/**
+ * The attributes of an option that are used to display it in the listbox.
+ */
+export type ListboxDropdownOption = {
+  /**
+   * Whether the option can be chosen.
+   */
+  disabled?: boolean;
+  /**
+   * A heading to group the option under.
+   */
+  group?: string;
+};
+
+export type ListboxOptionProps = {
+  /**
+   * Whether the option is active while moving through the options with the
+   * arrow keys.
+   */
+  active: boolean;
+  /**
+   * The content of the option.
+   */
+  children: ReactNode;
+  /**
+   * Whether the option can be chosen.
+   */
+  disabled?: boolean;
+  /**
+   * The id of the option, used by the input's `aria-activedescendant`.
+   */
+  id: string;
+  /**
+   * A function that is called when the option is clicked.
+   */
+  onChoose: () => void;
+  /**
+   * Whether the option is the current value.
+   */
+  selected?: boolean;
+};
+
+export type Props<O extends ListboxDropdownOption> = {
+  /**
+   * The index of the active option.
+   */
+  activeIndex: number;
+  /**
+   * Content to display after the options, e.g. an option to create a new
+   * item.
+   */
+  children?: ReactNode;
+  /**
+   * A function that returns the id of the option at an index.
+   */
+  getOptionId: (index: number) => string;
+  /**
+   * The id of the listbox, used by the input's `aria-controls`.
+   */
+  id: string;
+  /**
+   * A function that returns whether an option is the current value.
+   */
+  isSelected?: (option: O) => boolean;
+  /**
+   * An accessible label for the listbox.
+   */
+  label?: string;
+  /**
+   * A function that is called with the index of the option that is clicked.
+   */
+  onChoose: (index: number) => void;
+  /**
+   * The options to display, in the order returned by `orderByGroup`.
+   */
+  options: O[];
+  /**
+   * The element the listbox is displayed below.
+   */
+  reference: HTMLElement | null;
+  /**
+   * A function that renders the content of an option.
+   */
+  renderOption: (option: O, index: number) => ReactNode;
+  /**
+   * Content to display before the options, e.g. a loading spinner.
+   */
+  status?: ReactNode;
+};
+
+/**
+ * Put the options in each group next to each other so that the keyboard
+ * moves through them in the order they are displayed.
+ */
+export const orderByGroup = <O extends ListboxDropdownOption>(options: O[]) =>
+  [...new Set(options.map(({ group }) => group))].flatMap((group) =>
+    options.filter((option) => option.group === group)
+  );
+
+export const ListboxOption = ({
+  active,
+  children,
+  disabled,
+  id,
+  onChoose,
+  selected,
+}: ListboxOptionProps): JSX.Element => (
+  <div
+    aria-disabled={disabled || undefined}
+    aria-selected={active}
+    className={classNames("p-contextual-menu__link", {
+      "is-active": active,
+      "is-disabled": disabled,
+      "is-selected": selected,
+    })}
+    id={id}
+    onClick={onChoose}
+    // Keep the focus in the input when clicking an option.
+    onMouseDown={(event) => event.preventDefault()}
+    role="option"
+  >
+    {children}
+  </div>
+);
+
+/**
+ * A dropdown listbox of grouped options that is controlled from an input,
+ * following the combobox pattern.
+ */
+const ListboxDropdown = <O extends ListboxDropdownOption>({
+  activeIndex,
+  children,
+  getOptionId,
+  id,
+  isSelected,
+  label,
+  onChoose,
+  options,
+  reference,
+  renderOption,
+  status,
+}: Props<O>): JSX.Element => {
+  // The dropdown is kept in state so that it is positioned once it has been
+  // rendered.
+  const [dropdown, setDropdown] = useState<HTMLDivElement | null>(null);
+  const [maxHeight, setMaxHeight] = useState<number>();
+
+  useWindowFitment(
+    dropdown,
+    reference,
+    (fitsWindow) => setMaxHeight(fitsWindow.fromBottom.spaceBelow - 16),
+    0,
+    !!dropdown
+  );
+
+  // Group the options under their headings.
+  const groups: {
+    group?: string;
+    options: { index: number; option: O }[];
+  }[] = [];
+  options.forEach((option, index) => {
+    let group = groups.find(({ group }) => group === option.group);
+    if (!group) {
+      group = { group: option.group, options: [] };
+      groups.push(group);
+    }
+    group.options.push({ index, option });
+  });
+
+  return (
+    <div
+      aria-label={label}
+      className="p-contextual-menu__dropdown p-listbox-dropdown"
+      id={id}
+      ref={setDropdown}
+      role="listbox"
+      style={{ maxHeight }}
+    >
+      {status}
+      {groups.map(({ group, options: groupOptions }) => (
+        <div
+          aria-label={group}
+          className="p-contextual-menu__group"
+          key={group ?? ""}
+          role={group ? "group" : "presentation"}
+        >
+          {group ? (
+            <h3 aria-hidden className="p-text--small-caps">
+              {group}
+            </h3>
+          ) : null}
+          {groupOptions.map(({ index, option }) => (
+            <ListboxOption
+              active={index === activeIndex}
+              disabled={option.disabled}
+              id={getOptionId(index)}
+              key={getOptionId(index)}
+              onChoose={() => onChoose(index)}
+              selected={isSelected?.(option)}
+            >
+              {renderOption(option, index)}
+            </ListboxOption>
+          ))}
+        </div>
+      ))}
+      {children}
+    </div>
+  );
+};
+
+export default ListboxDropdown;
@@ -0,0 +1,8 @@
+export { default, ListboxOption, orderByGroup } from "./ListboxDropdown";
+export type {
+  ListboxDropdownOption,
+  ListboxOptionProps,
+  Props as ListboxDropdownProps,
+} from "./ListboxDropdown";
+export { useListboxNavigation } from "./useListboxNavigation";
+export type { ListboxNavigationOptions } from "./useListboxNavigation";
@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useState } from "react";
+import type { KeyboardEvent } from "react";
+
+import type { ListboxDropdownOption } from "./ListboxDropdown";
+
+export type ListboxNavigationOptions = {
+  /**
+   * The id of the listbox, used to create the ids of the options.
+   */
+  listboxId: string;
+  /**
+   * Whether the listbox is displayed.
+   */
+  open: boolean;
+  /**
+   * The options that can be chosen, in the order they are displayed.
+   */
+  options: ListboxDropdownOption[];
+  /**
+   * A function that is called with the index of the option that is chosen.
+   */
+  onChoose: (index: number) => void;
+  /**
+   * A function that is called when the listbox should be closed.
+   */
+  onClose: () => void;
+  /**
+   * A function that is called when the listbox should be opened.
+   */
+  onOpen: () => void;
+  /**
+   * The index of the option that is the current value, if any.
+   */
+  selectedIndex?: number;
+};
+
+/**
+ * A hook that moves through the options of a listbox with the arrow keys
+ * while the focus stays in the input that controls it.
+ */
+export const useListboxNavigation = ({
+  listboxId,
+  open,
+  options,
+  onChoose,
+  onClose,
+  onOpen,
+  selectedIndex = -1,
+}: ListboxNavigationOptions): {
+  activeDescendant?: string;
+  activeIndex: number;
+  getOptionId: (index: number) => string;
+  handleKeyDown: (event: KeyboardEvent<HTMLInputElement>) => boolean;
+  setActiveIndex: (index: number) => void;
+} => {
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const getOptionId = useCallback(
+    (index: number) => `${listboxId}-${index}`,
+    [listboxId]
+  );
+
+  // Keep the active option in view when moving through a long list.
+  useEffect(() => {
+    if (activeIndex >= 0) {
+      document
+        .getElementById(getOptionId(activeIndex))
+        ?.scrollIntoView?.({ block: "nearest" });
+    }
+  }, [activeIndex, getOptionId]);
+
+  // Move the active option, skipping disabled options and wrapping around
+  // when moving past the first or last option.
+  const moveActiveOption = (step: number) => {
+    const enabledIndices = options
+      .map((option, index) => (option.disabled ? null : index))
+      .filter((index) => index !== null);
+    if (!enabledIndices.length) {
+      return;
+    }
+    const position = enabledIndices.indexOf(activeIndex);
+    let nextPosition = (position + step) % enabledIndices.length;
+    if (position === -1 && step < 0) {
+      nextPosition = enabledIndices.length - 1;
+    } else if (nextPosition < 0) {
+      nextPosition += enabledIndices.length;
+    }
+    setActiveIndex(enabledIndices[nextPosition]);
+  };
+
+  // Returns whether the key was handled so that the input can handle any
+  // other keys itself.
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+      case "ArrowUp":
+        event.preventDefault();
+        if (!open) {
+          onOpen();
+          // Start from the selected option when opening the listbox.
+          if (selectedIndex >= 0) {
+            setActiveIndex(selectedIndex);
+            return true;
+          }
+          // Alt + down arrow opens the listbox without moving the active
+          // option.
+          if (event.altKey) {
+            return true;
+          }
+        }
+        moveActiveOption(event.key === "ArrowDown" ? 1 : -1);
+        return true;
+      case "Enter":
+        if (open && options[activeIndex] && !options[activeIndex].disabled) {
+          event.preventDefault();
+          onChoose(activeIndex);
+          return true;
+        }
+        return false;
+      case "Escape":
+        if (open) {
+          // Stop the escape key from also closing any parent components,
+          // e.g. a modal or the navigation search.
+          event.stopPropagation();
+          setActiveIndex(-1);
+          onClose();
+          return true;
+        }
+        return false;
+    }
+    return false;
+  };
+
+  return {
+    activeDescendant:
+      open && activeIndex >= 0 ? getOptionId(activeIndex) : undefined,
+    activeIndex,
+    getOptionId,
+    handleKeyDown,
+    setActiveIndex,
+  };
+};
@@ -1,6 +1,7 @@
 import { render, screen, within } from "@testing-library/react";
 import React from "react";
 
+import EmptyState from "../EmptyState";
 import MainTable from "./MainTable";
 import type { MainTableHeader, MainTableRow } from "./MainTable";
 import { Label as PaginationButtonLabel } from "../Pagination/PaginationButton/PaginationButton";
@@ -152,6 +153,223 @@ describe("MainTable", () => {
     expect(screen.getAllByRole("rowheader")[0].textContent).toEqual("Idle");
   });
 
+  it("can export the sorted rows", async () => {
+    const onExport = jest.fn().mockReturnValue(false);
+    headers[0].sortKey = "status";
+    headers[3].heading = "Disks";
+    rows[0].sortData = { status: "ready" };
+    rows[1].sortData = { status: "waiting" };
+    rows[2].sortData = { status: "idle" };
+    render(
+      <MainTable
+        exportable
+        exportProps={{ onExport }}
+        headers={headers}
+        rows={rows}
+        sortable
+        sortBy={[{ key: "status", direction: "ascending" }]}
+      />
+    );
+    await userEvent.click(screen.getByRole("button", { name: "Export" }));
+    await userEvent.click(
+      screen.getByRole("button", { name: "Export as CSV" })
+    );
+    expect(onExport).toHaveBeenCalledWith(
+      {
+        headers: ["Status", "Cores", "RAM", "Disks"],
+        rows: [
+          ["idle", 8, "3.9 GiB", 3],
+          ["ready", 1, "1 GiB", 2],
+          ["waiting", 1, "1 GiB", 2],
+        ],
+      },
+      "csv",
+      "all"
+    );
+  });
+
+  it("can export the visible page", async () => {
+    const onExport = jest.fn().mockReturnValue(false);
+    render(
+      <MainTable
+        exportable
+        exportProps={{ onExport }}
+        headers={headers}
+        paginate={2}
+        rows={rows}
+      />
+    );
+    await userEvent.click(screen.getByRole("button", { name: "Export" }));
+    await userEvent.click(
+      screen.getByRole("button", { name: "Visible page as JSON" })
+    );
+    expect(onExport.mock.calls[0][0].rows).toEqual([
+      ["Ready", 1, "1 GiB", 2],
+      ["Waiting", 1, "1 GiB", 2],
+    ]);
+  });
+
+  it("includes the previous pages in the row indexes", async () => {
+    render(
+      <MainTable gridNavigation headers={headers} paginate={2} rows={rows} />
+    );
+    await userEvent.click(
+      screen.getByRole("button", { name: PaginationButtonLabel.Next })
+    );
+    expect(screen.getByRole("grid")).toHaveAttribute("aria-rowcount", "4");
+    expect(screen.getAllByRole("row")[1]).toHaveAttribute("aria-rowindex", "4");
+  });
+
+  it("can display an EmptyState when there are no rows", () => {
+    render(
+      <MainTable
+        emptyStateMsg={<EmptyState image={null} title="No machines" />}
+        headers={headers}
+        rows={[]}
+      />
+    );
+    expect(
+      screen.getByRole("heading", { name: "No machines" })
+    ).toBeInTheDocument();
+  });
+
+  it("displays placeholder rows while loading", () => {
+    render(
+      <MainTable
+        emptyStateMsg="Nothing here"
+        headers={headers}
+        loading
+        rows={[]}
+      />
+    );
+    expect(screen.getByRole("grid")).toHaveAttribute("aria-busy", "true");
+    const skeletonRows = screen.getAllByTestId("skeleton-row");
+    expect(skeletonRows).toHaveLength(3);
+    expect(within(skeletonRows[0]).getAllByRole("gridcell")).toHaveLength(4);
+    expect(screen.queryByText("Nothing here")).not.toBeInTheDocument();
+  });
+
+  it("displays an overlay when refreshing the rows", () => {
+    const { rerender } = render(<MainTable headers={headers} rows={rows} />);
+    const table = screen.getByRole("grid");
+    rerender(<MainTable headers={headers} loading rows={rows} />);
+    expect(screen.getByTestId("loading-overlay")).toBeInTheDocument();
+    expect(screen.getAllByRole("rowheader")).toHaveLength(3);
+    // The table is not remounted when the overlay is displayed.
+    expect(screen.getByRole("grid")).toBe(table);
+  });
+
+  it("displays an error with a retry action", async () => {
+    const onRetry = jest.fn();
+    render(
+      <MainTable
+        error="Could not load machines"
+        headers={headers}
+        onRetry={onRetry}
+        rows={[]}
+      />
+    );
+    expect(screen.getByText("Could not load machines")).toBeInTheDocument();
+    await userEvent.click(screen.getByRole("button", { name: "Retry" }));
+    expect(onRetry).toHaveBeenCalled();
+  });
+
+  it("displays an error in place of the existing rows", () => {
+    render(
+      <MainTable
+        error="Could not load machines"
+        expanding
+        headers={headers}
+        rows={rows}
+      />
+    );
+    expect(screen.queryAllByRole("rowheader")).toHaveLength(0);
+    // The error spans the hidden expanding column.
+    expect(
+      screen.getByRole("gridcell", { name: /Could not load machines/ })
+    ).toHaveAttribute("colspan", String(headers.length + 1));
+  });
+
+  it("can render only the visible rows", () => {
+    const manyRows = [...Array(100)].map((_, i) => ({
+      columns: [{ content: `row ${i}`, role: "rowheader" }],
+    }));
+    render(
+      <MainTable
+        headers={[{ content: "Name" }]}
+        rows={manyRows}
+        virtualize={{ height: 100, rowHeight: 20, overscan: 2 }}
+      />
+    );
+    const rowheaders = screen.getAllByRole("rowheader");
+    expect(rowheaders).toHaveLength(7);
+    expect(rowheaders[0]).toHaveTextContent("row 0");
+  });
+
+  it("can use the row to get the height of virtualized rows", () => {
+    const manyRows = [...Array(10)].map((_, i) => ({
+      columns: [{ content: `row ${i}`, role: "rowheader" }],
+      expanded: i === 0,
+      expandedContent: "Expanded",
+    }));
+    render(
+      <MainTable
+        expanding
+        headers={[{ content: "Name" }]}
+        rows={manyRows}
+        virtualize={{
+          height: 100,
+          rowHeight: (row) => (row.expanded ? 100 : 20),
+          overscan: 0,
+        }}
+      />
+    );
+    expect(screen.getAllByRole("rowheader")).toHaveLength(1);
+  });
+
+  it("can freeze columns by name", () => {
+    headers[2].sortKey = "ram";
+    render(
+      <MainTable
+        frozenColumns={["ram", "Cores"]}
+        headers={headers}
+        rows={rows}
+      />
+    );
+    expect(
+      screen.getAllByRole("columnheader").map((header) => header.textContent)
+    ).toEqual(["Cores", "RAM", "Status", "Disks "]);
+    const cells = within(screen.getAllByRole("row")[1]).getAllByRole(
+      "gridcell"
+    );
+    expect(cells[0]).toHaveTextContent("1");
+    expect(screen.getByRole("grid")).toHaveClass("p-table--frozen-columns-2");
+  });
+
+  it("can freeze columns in an expanding table", () => {
+    rows[0].columns[0].className = "p-table__cell--icon-placeholder";
+    rows[0].expanded = true;
+    rows[0].expandedContent = "Expanded";
+    render(
+      <MainTable expanding frozenColumns={1} headers={headers} rows={rows} />
+    );
+    const rowheader = screen.getAllByRole("rowheader")[0];
+    expect(rowheader).toHaveClass("p-table__cell--icon-placeholder");
+    expect(screen.getByRole("grid")).toHaveClass("p-table--frozen-columns-1");
+    expect(screen.getByText("Expanded")).toBeVisible();
+  });
+
+  it("can limit the height of the table", () => {
+    render(
+      <MainTable headers={headers} maxHeight={200} rows={rows} stickyHeader />
+    );
+    expect(screen.getByRole("grid").parentElement).toHaveStyle({
+      maxHeight: "200px",
+      overflow: "auto",
+    });
+    expect(screen.getByRole("grid")).toHaveClass("p-table--sticky-header");
+  });
+
   describe("sorting", () => {
     beforeEach(() => {
       headers[0].sortKey = "status";
@@ -182,6 +400,17 @@ describe("MainTable", () => {
       ).not.toHaveAttribute("aria-sort");
     });
 
+    it("can sort using the keyboard when using grid navigation", async () => {
+      render(
+        <MainTable gridNavigation headers={headers} rows={rows} sortable />
+      );
+      await userEvent.tab();
+      await userEvent.keyboard("{Enter}");
+      expect(
+        screen.getByRole("columnheader", { name: "Status" })
+      ).toHaveAttribute("aria-sort", "ascending");
+    });
+
     it("can sort when clicking on a header", async () => {
       render(<MainTable headers={headers} rows={rows} sortable={true} />);
       const rowItems = screen.getAllByRole("row");
@@ -247,6 +476,98 @@ describe("MainTable", () => {
       );
     });
 
+    it("restores and persists the sort and page", async () => {
+      const setState = jest.fn();
+      render(
+        <MainTable
+          headers={headers}
+          paginate={2}
+          rows={rows}
+          sortable={true}
+          tableState={{
+            state: { sortBy: [{ id: "cores", desc: true }], page: 2 },
+            setState,
+          }}
+        />
+      );
+      expect(
+        screen.getByRole("columnheader", { name: "Cores" })
+      ).toHaveAttribute("aria-sort", "descending");
+      expect(screen.getAllByRole("rowheader")[0].textContent).toBe("Waiting");
+      expect(setState).not.toHaveBeenCalled();
+      await userEvent.click(
+        screen.getByRole("columnheader", { name: "Status" })
+      );
+      expect(setState).toHaveBeenCalledWith({
+        sortBy: [{ id: "status", desc: false }],
+      });
+      await userEvent.click(
+        screen.getByRole("button", { name: PaginationButtonLabel.Previous })
+      );
+      expect(setState).toHaveBeenCalledWith({ page: 1, pageSize: 2 });
+    });
+
+    it("keeps the stored page until the rows have loaded", () => {
+      const setState = jest.fn();
+      const tableState = { state: { page: 3 }, setState };
+      const moreRows = [...rows, ...rows].map((row, i) => ({
+        ...row,
+        key: `row-${i}`,
+      }));
+      const { rerender } = render(
+        <MainTable
+          headers={headers}
+          paginate={2}
+          rows={[]}
+          tableState={tableState}
+        />
+      );
+      rerender(
+        <MainTable
+          headers={headers}
+          paginate={2}
+          rows={moreRows}
+          tableState={tableState}
+        />
+      );
+      // The third page contains the last two rows.
+      expect(
+        screen.getAllByRole("rowheader").map(({ textContent }) => textContent)
+      ).toStrictEqual(["Waiting", "Idle"]);
+      expect(setState).not.toHaveBeenCalledWith(
+        expect.objectContaining({ page: 1 })
+      );
+    });
+
+    it("applies changes to the stored sort and page", () => {
+      const setState = jest.fn();
+      const { rerender } = render(
+        <MainTable
+          headers={headers}
+          paginate={2}
+          rows={rows}
+          sortable={true}
+          tableState={{ state: {}, setState }}
+        />
+      );
+      rerender(
+        <MainTable
+          headers={headers}
+          paginate={2}
+          rows={rows}
+          sortable={true}
+          tableState={{
+            state: { sortBy: [{ id: "cores", desc: true }], page: 2 },
+            setState,
+          }}
+        />
+      );
+      expect(
+        screen.getByRole("columnheader", { name: "Cores" })
+      ).toHaveAttribute("aria-sort", "descending");
+      expect(screen.getAllByRole("rowheader")[0].textContent).toBe("Waiting");
+    });
+
     it("keeps sorting when clicking a non-sortable header", async () => {
       render(<MainTable headers={headers} rows={rows} sortable={true} />);
       const rowItems = screen.getAllByRole("row");
@@ -328,6 +649,113 @@ describe("MainTable", () => {
       ).toHaveAttribute("aria-sort", "ascending");
     });
 
+    it("can sort by multiple columns when shift-clicking headers", async () => {
+      const onUpdateSort = jest.fn();
+      rows[0].sortData.cores = 1;
+      render(
+        <MainTable
+          headers={headers}
+          onUpdateSort={onUpdateSort}
+          rows={rows}
+          sortable={true}
+        />
+      );
+      await userEvent.click(
+        screen.getByRole("columnheader", { name: "Cores" })
+      );
+      const user = userEvent.setup();
+      await user.keyboard("{Shift>}");
+      await user.click(screen.getByRole("columnheader", { name: "Status" }));
+      await user.click(screen.getByRole("columnheader", { name: /^Status/ }));
+      await user.keyboard("{/Shift}");
+      expect(onUpdateSort).toHaveBeenLastCalledWith("cores", [
+        { key: "cores", direction: "ascending" },
+        { key: "status", direction: "descending" },
+      ]);
+      expect(
+        screen.getByRole("columnheader", { name: "Cores Sort priority 1" })
+      ).toHaveAttribute("aria-sort", "ascending");
+      expect(
+        screen.getByRole("columnheader", { name: "Status Sort priority 2" })
+      ).toHaveAttribute("aria-sort", "descending");
+      const rowItems = screen.getAllByRole("rowheader");
+      expect(rowItems.map((row) => row.textContent)).toEqual([
+        "Waiting",
+        "Ready",
+        "Idle",
+      ]);
+    });
+
+    it("removes a sort when shift-clicking a descending header", async () => {
+      const onUpdateSort = jest.fn();
+      render(
+        <MainTable
+          headers={headers}
+          onUpdateSort={onUpdateSort}
+          rows={rows}
+          sortable={true}
+          sortBy={[
+            { key: "status", direction: "ascending" },
+            { key: "cores", direction: "descending" },
+          ]}
+        />
+      );
+      const user = userEvent.setup();
+      await user.keyboard("{Shift>}");
+      await user.click(screen.getByRole("columnheader", { name: /^Cores/ }));
+      await user.keyboard("{/Shift}");
+      expect(onUpdateSort).toHaveBeenCalledWith("status", [
+        { key: "status", direction: "ascending" },
+      ]);
+      expect(
+        screen.getByRole("columnheader", { name: "Cores" })
+      ).toHaveAttribute("aria-sort", "none");
+    });
+
+    it("replaces the sorts when clicking a header", async () => {
+      const onUpdateSort = jest.fn();
+      render(
+        <MainTable
+          headers={headers}
+          onUpdateSort={onUpdateSort}
+          rows={rows}
+          sortable={true}
+          sortBy={[
+            { key: "status", direction: "ascending" },
+            { key: "cores", direction: "descending" },
+          ]}
+        />
+      );
+      await userEvent.click(
+        screen.getByRole("columnheader", { name: /^Status/ })
+      );
+      expect(onUpdateSort).toHaveBeenCalledWith("status", [
+        { key: "status", direction: "descending" },
+      ]);
+      expect(
+        screen.getByRole("columnheader", { name: "Cores" })
+      ).toHaveAttribute("aria-sort", "none");
+    });
+
+    it("can use a comparator for a column", async () => {
+      headers[2].sortKey = "ram";
+      headers[2].sortType = "bytes";
+      rows[0].sortData.ram = "1 GiB";
+      rows[1].sortData.ram = "900 MB";
+      rows[2].sortData.ram = null;
+      render(
+        <MainTable
+          headers={headers}
+          rows={rows}
+          sortable={true}
+          sortBy={[{ key: "ram", direction: "ascending" }]}
+        />
+      );
+      expect(
+        screen.getAllByRole("rowheader").map((row) => row.textContent)
+      ).toEqual(["Waiting", "Ready", "Idle"]);
+    });
+
     it("shows a hidden caption if provided", () => {
       const captionText = "This is a caption for screen readers";
 
@@ -1,5 +1,5 @@
-import React, { useEffect, useMemo, useState } from "react";
-import type { HTMLProps, ReactNode } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import type { HTMLProps, MouseEvent, ReactNode } from "react";
 
 import type { ClassName, PropsWithSpread, SortDirection } from "types";
 import Pagination from "../Pagination";
@@ -9,7 +9,22 @@ import TableRow from "../TableRow";
 import TableHeader from "../TableHeader";
 import TableCell from "../TableCell";
 import type { TableCellProps } from "../TableCell";
-import { usePagination } from "hooks";
+import TableErrorRow from "../TableErrorRow";
+import TableExportButton from "../TableExportButton";
+import TableLoadingOverlay from "../TableLoadingOverlay";
+import TableSkeletonRows from "../TableSkeletonRows";
+import type {
+  TableExportButtonProps,
+  TableExportData,
+} from "../TableExportButton";
+import { usePagination, usePrevious, useVirtualRows } from "hooks";
+import type {
+  TableStateHandler,
+  TableViewState,
+  VirtualRowsOptions,
+} from "hooks";
+import { compareSortValues } from "./utils";
+import type { SortType } from "./utils";
 
 export type MainTableHeader = PropsWithSpread<
   {
@@ -25,6 +40,13 @@ export type MainTableHeader = PropsWithSpread<
      * A key to sort the rows by. It should match a key given to the row `sortData`.
      */
     sortKey?: string | null;
+    /**
+     * The name of the comparator to use when sorting by this column's sort
+     * key, e.g. "natural", "date", "ip", "semver" or "bytes". By default
+     * numbers, booleans and dates are compared by value and anything else
+     * is compared as text.
+     */
+    sortType?: SortType;
     /**
      * Replacement value for data-heading if content is not a string.
      */
@@ -33,6 +55,17 @@ export type MainTableHeader = PropsWithSpread<
   HTMLProps<HTMLTableHeaderCellElement>
 >;
 
+export type MainTableSort = {
+  /**
+   * The key to sort the rows by. It should match a header's `sortKey`.
+   */
+  key: string;
+  /**
+   * The direction to sort the rows in.
+   */
+  direction: SortDirection;
+};
+
 export type MainTableCell = PropsWithSpread<
   {
     /**
@@ -80,24 +113,68 @@ export type Props = PropsWithSpread<
   {
     /**
      * The default key to sort the rows by.
+     * @deprecated Use `sortBy` instead.
      */
     defaultSort?: MainTableHeader["sortKey"];
     /**
      * The default direction the row data should be sorted by.
+     * @deprecated Use `sortBy` instead.
      */
     defaultSortDirection?: SortDirection;
     /**
-     * A message to display when there are no table rows.
+     * A message to display when there are no table rows, e.g. using the
+     * EmptyState component.
      */
     emptyStateMsg?: ReactNode;
+    /**
+     * An error to display in place of the rows, e.g. when the rows could not
+     * be loaded.
+     */
+    error?: ReactNode;
+    /**
+     * Whether to display a menu that can be used to export the sorted rows
+     * as a CSV, TSV or JSON file. The values are taken from each row's
+     * `sortData`, or from the cell content if it is text.
+     */
+    exportable?: boolean;
+    /**
+     * Additional props to pass to the export menu.
+     */
+    exportProps?: Partial<TableExportButtonProps>;
     /**
      * The header columns for this table.
      */
     headers?: MainTableHeader[];
     /**
-     * A function that is called when the sort key is changed.
+     * Whether the rows are loading. Placeholder rows are displayed if there
+     * are no rows, otherwise a spinner is displayed over the existing rows.
+     */
+    loading?: boolean;
+    /**
+     * A function that is called to retry loading the rows when displaying
+     * an error.
      */
-    onUpdateSort?: (sortKey: MainTableHeader["sortKey"]) => void;
+    onRetry?: () => void;
+    /**
+     * A function that is called when the sort is changed, with the primary
+     * sort key and the full list of sorts in order of priority.
+     */
+    onUpdateSort?: (
+      sortKey: MainTableHeader["sortKey"],
+      sortBy: MainTableSort[]
+    ) => void;
+    /**
+     * The number of leading columns, or the names of the columns, to keep at
+     * the left edge when scrolling horizontally. Named columns are moved to
+     * the start of the table and can match a header's `sortKey`, `heading`
+     * or text content. The table is displayed in a scroll container.
+     * Up to 10 columns can be frozen.
+     */
+    frozenColumns?: number | string[];
+    /**
+     * The maximum height of the table's scroll container.
+     */
+    maxHeight?: number | string;
     /**
      * A number of rows to paginate by.
      */
@@ -107,11 +184,22 @@ export type Props = PropsWithSpread<
      */
     rows?: MainTableRow[];
     /**
-     * Whether this table should be sortable.
+     * Whether this table should be sortable. Headers can be shift-clicked to
+     * sort by multiple columns.
      */
     sortable?: boolean;
     /**
-     * A function to be used when sorting.
+     * The default columns to sort the rows by, in order of priority.
+     */
+    sortBy?: MainTableSort[];
+    /**
+     * Whether the header should stay at the top of the scroll container, or
+     * the page if the table is not in a scroll container.
+     */
+    stickyHeader?: boolean;
+    /**
+     * A function to be used when sorting. When sorting by multiple columns
+     * this is called for each sort until the rows are not equal.
      */
     sortFunction?: (
       a: MainTableRow,
@@ -123,67 +211,120 @@ export type Props = PropsWithSpread<
      * A hidden caption to display on the table for screen readers
      */
     hiddenCaption?: string | null;
+    /**
+     * The result of the useTableState hook, used to persist the sort, page and
+     * page size. The stored values take precedence over the default sort and
+     * the number of rows to paginate by.
+     */
+    tableState?: TableStateHandler;
+    /**
+     * Options to only render the rows that are visible in a scrolling area
+     * of a given height. The row height is an estimate that is used until a
+     * row has been rendered and measured, so rows that change height (e.g.
+     * expanded rows or responsive cards) are positioned correctly. It can be a
+     * function that returns the estimated height for a given row.
+     */
+    virtualize?: PropsWithSpread<
+      {
+        rowHeight: number | ((row: MainTableRow) => number);
+      },
+      VirtualRowsOptions
+    >;
   },
   TableProps
 >;
 
+const getStoredSort = (sortBy: TableViewState["sortBy"]): MainTableSort[] =>
+  sortBy.map(({ id, desc }) => ({
+    key: id,
+    direction: desc ? "descending" : "ascending",
+  }));
+
+const isSameSort = (a: MainTableSort[], b: MainTableSort[]) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const getDefaultSort = (
+  defaultSort: Props["defaultSort"],
+  defaultSortDirection: Props["defaultSortDirection"]
+): MainTableSort[] =>
+  defaultSort ? [{ key: defaultSort, direction: defaultSortDirection }] : [];
+
 const updateSort = (
-  setSortKey: (sortKey: MainTableHeader["sortKey"]) => void,
-  setSortDirection: (direction: SortDirection) => void,
+  setSort: (sort: MainTableSort[]) => void,
+  currentSort: MainTableSort[],
   sortKey: MainTableHeader["sortKey"],
-  sortDirection: SortDirection
+  sortDirection: SortDirection,
+  event: MouseEvent<HTMLTableHeaderCellElement>
 ) => {
-  let newDirection = null;
+  let newDirection: SortDirection = null;
   if (sortDirection === "none") {
     newDirection = "ascending";
   } else if (sortDirection === "ascending") {
     newDirection = "descending";
+  }
+  if (!event.shiftKey) {
+    // Replace any existing sorts.
+    setSort(newDirection ? [{ key: sortKey, direction: newDirection }] : []);
+  } else if (!newDirection) {
+    // Remove this column from the sorts.
+    setSort(currentSort.filter(({ key }) => key !== sortKey));
+  } else if (sortDirection === "none") {
+    // Add this column as the lowest priority sort.
+    setSort([...currentSort, { key: sortKey, direction: newDirection }]);
   } else {
-    sortKey = null;
+    setSort(
+      currentSort.map((sort) =>
+        sort.key === sortKey ? { key: sortKey, direction: newDirection } : sort
+      )
+    );
   }
-  setSortKey(sortKey);
-  setSortDirection(newDirection);
 };
 
 const generateHeaders = (
-  currentSortKey: MainTableHeader["sortKey"],
-  currentSortDirection: SortDirection,
+  currentSort: MainTableSort[],
   expanding: Props["expanding"],
   headers: Props["headers"],
   sortable: Props["sortable"],
-  setSortKey: (sortKey: MainTableHeader["sortKey"]) => void,
-  setSortDirection: (direction: SortDirection) => void
+  setSort: (sort: MainTableSort[]) => void
 ) => {
-  const headerItems = headers.map(({ content, sortKey, ...props }, index) => {
-    let sortDirection: SortDirection;
-    if (sortable && sortKey) {
-      if (currentSortKey === sortKey) {
-        sortDirection = currentSortDirection;
-      } else {
-        sortDirection = "none";
+  // The sort type is only used when sorting the rows.
+  const headerItems = headers.map(
+    ({ content, sortKey, sortType, ...props }, index) => {
+      let sortDirection: SortDirection;
+      let sortPriority: number;
+      if (sortable && sortKey) {
+        const sortIndex = currentSort.findIndex(({ key }) => key === sortKey);
+        if (sortIndex >= 0) {
+          sortDirection = currentSort[sortIndex].direction;
+          // Only display the priority when sorting by multiple columns.
+          sortPriority = currentSort.length > 1 ? sortIndex + 1 : undefined;
+        } else {
+          sortDirection = "none";
+        }
       }
+      return (
+        <TableHeader
+          key={index}
+          sort={sortDirection}
+          sortPriority={sortPriority}
+          onClick={
+            sortable && sortKey
+              ? updateSort.bind(
+                  this,
+                  setSort,
+                  currentSort,
+                  sortKey,
+                  sortDirection
+                )
+              : undefined
+          }
+          {...props}
+        >
+          {content}
+        </TableHeader>
+      );
     }
-    return (
-      <TableHeader
-        key={index}
-        sort={sortDirection}
-        onClick={
-          sortable && sortKey
-            ? updateSort.bind(
-                this,
-                setSortKey,
-                setSortDirection,
-                sortKey,
-                sortDirection
-              )
-            : undefined
-        }
-        {...props}
-      >
-        {content}
-      </TableHeader>
-    );
-  });
+  );
   // When there is expanding content then provide an extra hidden header to
   // account for the extra cell in the body rows.
   return (
@@ -201,39 +342,58 @@ const generateRows = ({
   headers,
   responsive,
   expanding,
+  startIndex = 0,
+  columnOrder,
+  virtualized,
 }: Required<Pick<Props, "rows">> &
-  Pick<Props, "headers" | "responsive" | "expanding">) =>
+  Pick<Props, "headers" | "responsive" | "expanding"> & {
+    startIndex?: number;
+    columnOrder?: number[] | null;
+    virtualized?: boolean;
+  }) =>
   rows.map(
     (
       { columns, expanded, expandedContent, key, sortData, ...rowProps },
       index
     ) => {
-      const cellItems = columns?.map(({ content, ...cellProps }, index) => {
-        const headerContent = headers && headers[index]["content"];
-        const headerReplacement = headers && headers[index]["heading"];
-
-        if (responsive) {
-          cellProps["data-heading"] =
-            typeof headerContent === "string"
-              ? headerContent
-              : headerReplacement;
-        }
+      const orderedColumns =
+        columns && columnOrder
+          ? columnOrder.map((columnIndex) => columns[columnIndex])
+          : columns;
+      const cellItems = orderedColumns?.map(
+        ({ content, ...cellProps }, index) => {
+          const headerContent = headers && headers[index]["content"];
+          const headerReplacement = headers && headers[index]["heading"];
 
-        return (
-          <TableCell key={index} {...cellProps}>
-            {content}
-          </TableCell>
-        );
-      });
+          if (responsive) {
+            cellProps["data-heading"] =
+              typeof headerContent === "string"
+                ? headerContent
+                : headerReplacement;
+          }
+
+          return (
+            <TableCell key={index} {...cellProps}>
+              {content}
+            </TableCell>
+          );
+        }
+      );
       // if key was not provided as a prop, use row's index instead
       if (key === null || typeof key === "undefined") {
-        key = index;
+        key = startIndex + index;
       }
 
       // The expanding cell is alway created to match the correct number of
       // table cells in rows that do have expanding content.
       return (
-        <TableRow key={key} {...rowProps}>
+        <TableRow
+          key={key}
+          // Virtualized rows are tagged with their index so that they can be
+          // measured.
+          data-virtual-index={virtualized ? startIndex + index : undefined}
+          {...rowProps}
+        >
           {cellItems}
           {expanding && (
             <TableCell expanding={true} hidden={!expanded}>
@@ -245,38 +405,96 @@ const generateRows = ({
     }
   );
 
+/**
+ * Get the data to export for the given rows, using the row's sort data for
+ * columns that have a sort key and the cell content for any text cells.
+ * @param headers - The table headers.
+ * @param rows - The rows to export.
+ */
+const getExportData = (
+  headers: Props["headers"] = [],
+  rows: MainTableRow[]
+): TableExportData => ({
+  headers: headers.map(({ content, heading, sortKey }) =>
+    typeof content === "string" || typeof content === "number"
+      ? String(content)
+      : heading ?? sortKey ?? ""
+  ),
+  rows: rows.map(({ columns, sortData }) =>
+    headers.map(({ sortKey }, index) => {
+      if (sortKey && sortData && sortKey in sortData) {
+        return sortData[sortKey];
+      }
+      const content = columns?.[index]?.content;
+      return typeof content === "string" || typeof content === "number"
+        ? content
+        : null;
+    })
+  ),
+});
+
+/**
+ * Get the order to display the columns in so that any named frozen columns
+ * are displayed first.
+ * @param headers - The table headers.
+ * @param frozenColumns - The names of the frozen columns.
+ * @returns The column indexes in display order and the number of frozen columns.
+ */
+const getColumnOrder = (
+  headers: Props["headers"] = [],
+  frozenColumns: string[]
+) => {
+  const frozen: number[] = [];
+  const unfrozen: number[] = [];
+  headers.forEach(({ content, heading, sortKey }, index) => {
+    const isFrozen = [
+      sortKey,
+      heading,
+      typeof content === "string" ? content : null,
+    ].some((name) => name && frozenColumns.includes(name));
+    (isFrozen ? frozen : unfrozen).push(index);
+  });
+  return { columnOrder: [...frozen, ...unfrozen], frozenCount: frozen.length };
+};
+
 const sortRows = ({
-  currentSortDirection,
-  currentSortKey,
+  currentSort,
+  headers,
   rows,
   sortable,
   sortFunction,
-}: Pick<Props, "rows" | "sortable" | "sortFunction"> & {
-  currentSortDirection: Props["defaultSortDirection"];
-  currentSortKey: Props["defaultSort"];
+}: Pick<Props, "headers" | "rows" | "sortable" | "sortFunction"> & {
+  currentSort: MainTableSort[];
 }): MainTableRow[] => {
   if (!rows) {
     return [];
   }
   // Clone the rows so we can restore the original order.
   const sortedRows = [...rows];
-  if (sortable && currentSortKey) {
+  if (sortable && currentSort.length > 0) {
     if (!sortFunction) {
-      sortFunction = (a, b) => {
+      sortFunction = (a, b, currentSortDirection, currentSortKey) => {
         if (!a.sortData || !b.sortData) {
           return 0;
         }
-        if (a.sortData[currentSortKey] > b.sortData[currentSortKey]) {
-          return currentSortDirection === "ascending" ? 1 : -1;
-        } else if (a.sortData[currentSortKey] < b.sortData[currentSortKey]) {
-          return currentSortDirection === "ascending" ? -1 : 1;
-        }
-        return 0;
+        return compareSortValues(
+          a.sortData[currentSortKey],
+          b.sortData[currentSortKey],
+          currentSortDirection,
+          headers?.find(({ sortKey }) => sortKey === currentSortKey)?.sortType
+        );
       };
     }
-    sortedRows.sort((a, b) =>
-      sortFunction(a, b, currentSortDirection, currentSortKey)
-    );
+    sortedRows.sort((a, b) => {
+      // Use the lower priority sorts when the rows are equal.
+      for (const { key, direction } of currentSort) {
+        const result = sortFunction(a, b, direction, key);
+        if (result !== 0) {
+          return result;
+        }
+      }
+      return 0;
+    });
   }
   return sortedRows;
 };
@@ -285,105 +503,334 @@ const MainTable = ({
   defaultSort,
   defaultSortDirection,
   emptyStateMsg = "",
+  error,
   expanding,
+  exportable,
+  exportProps,
+  frozenColumns,
+  gridNavigation,
   headers,
+  loading,
+  maxHeight,
+  onRetry,
   onUpdateSort,
   paginate,
   rows,
   responsive,
   sortable,
+  sortBy,
   sortFunction,
+  stickyHeader,
   hiddenCaption,
+  tableState,
+  virtualize,
   ...props
 }: Props): JSX.Element => {
-  const [currentSortKey, setSortKey] = useState(defaultSort);
-  const [currentSortDirection, setSortDirection] =
-    useState(defaultSortDirection);
+  const storedSort = tableState?.state.sortBy;
+  const [currentSort, setCurrentSort] = useState<MainTableSort[]>(() =>
+    storedSort
+      ? getStoredSort(storedSort)
+      : sortBy ?? getDefaultSort(defaultSort, defaultSortDirection)
+  );
+  const previousSortBy = usePrevious(sortBy);
+  const previousDefaultSort = usePrevious(defaultSort);
+  const previousDefaultSortDirection = usePrevious(defaultSortDirection);
 
-  // Update the current sort state if the prop changes.
+  // Update the current sort state if the props change.
   useEffect(() => {
-    setSortKey(defaultSort);
-  }, [defaultSort]);
+    if (sortBy && !isSameSort(sortBy, previousSortBy ?? [])) {
+      setCurrentSort(sortBy);
+    }
+  }, [sortBy, previousSortBy]);
 
-  // Update the current sort direction state if the prop changes.
   useEffect(() => {
-    setSortDirection(defaultSortDirection);
-  }, [defaultSortDirection]);
+    if (
+      defaultSort !== previousDefaultSort ||
+      defaultSortDirection !== previousDefaultSortDirection
+    ) {
+      setCurrentSort(getDefaultSort(defaultSort, defaultSortDirection));
+    }
+  }, [
+    defaultSort,
+    defaultSortDirection,
+    previousDefaultSort,
+    previousDefaultSortDirection,
+  ]);
 
-  const updateSort = (newSort: MainTableHeader["sortKey"]) => {
-    setSortKey(newSort);
-    onUpdateSort && onUpdateSort(newSort);
+  const updateSort = (newSort: MainTableSort[]) => {
+    setCurrentSort(newSort);
+    onUpdateSort && onUpdateSort(newSort[0]?.key ?? null, newSort);
   };
 
   const sortedRows = useMemo(
     () =>
       sortRows({
-        currentSortDirection,
-        currentSortKey,
+        currentSort,
+        headers,
         rows,
         sortable,
         sortFunction,
       }),
-    [currentSortDirection, currentSortKey, rows, sortable, sortFunction]
+    [currentSort, headers, rows, sortable, sortFunction]
   );
 
+  // The page can't be checked against the rows until they have loaded, so
+  // the restored page is kept (and not persisted) until then.
+  const waitingForRows = !!loading || !rows?.length;
   const {
     pageData: finalRows,
     currentPage,
     paginate: setCurrentPage,
+    itemsPerPage,
   } = usePagination(sortedRows, {
-    itemsPerPage: paginate,
+    itemsPerPage: paginate ? tableState?.state.pageSize ?? paginate : paginate,
+    initialPage: tableState?.state.page,
     autoResetPage: true,
+    keepPage: waitingForRows,
   });
 
+  const setTableState = tableState?.setState;
+  const previousSort = usePrevious(currentSort);
+  const previousPage = usePrevious(currentPage);
+  // Persist the sort and page when they are changed.
+  useEffect(() => {
+    if (currentSort !== previousSort) {
+      setTableState?.({
+        sortBy: currentSort.map(({ key, direction }) => ({
+          id: key,
+          desc: direction !== "ascending",
+        })),
+      });
+    }
+  }, [currentSort, previousSort, setTableState]);
+
+  useEffect(() => {
+    if (!waitingForRows && currentPage !== previousPage) {
+      setTableState?.({
+        page: currentPage,
+        ...(paginate ? { pageSize: itemsPerPage } : {}),
+      });
+    }
+  }, [
+    currentPage,
+    previousPage,
+    paginate,
+    itemsPerPage,
+    setTableState,
+    waitingForRows,
+  ]);
+
+  const storedPage = tableState?.state.page;
+  const previousStoredSort = usePrevious(storedSort);
+  const previousStoredPage = usePrevious(storedPage);
+  // Apply the stored sort and page when they are changed outside of the
+  // table, e.g. when navigating back to a previous query string.
+  useEffect(() => {
+    if (
+      storedSort &&
+      storedSort !== previousStoredSort &&
+      !isSameSort(getStoredSort(storedSort), currentSort)
+    ) {
+      setCurrentSort(getStoredSort(storedSort));
+    }
+  }, [storedSort, previousStoredSort, currentSort]);
+
+  useEffect(() => {
+    if (
+      storedPage &&
+      storedPage !== previousStoredPage &&
+      storedPage !== currentPage
+    ) {
+      setCurrentPage(storedPage);
+    }
+  }, [storedPage, previousStoredPage, currentPage, setCurrentPage]);
+
+  const virtualRowHeight = virtualize?.rowHeight;
+  const getRowHeight = useCallback(
+    (index: number) =>
+      typeof virtualRowHeight === "function"
+        ? virtualRowHeight(finalRows[index])
+        : virtualRowHeight,
+    [virtualRowHeight, finalRows]
+  );
+  // Rows without a key are identified by their index, as they are when
+  // rendered.
+  const virtualRowKeys = useMemo(
+    () => finalRows.map(({ key }, index) => key ?? index),
+    [finalRows]
+  );
+  const {
+    startIndex,
+    endIndex,
+    paddingTop,
+    paddingBottom,
+    onScroll,
+    measureRef,
+    scrollToIndex,
+  } = useVirtualRows(virtualize ? finalRows.length : 0, {
+    height: virtualize?.height ?? 0,
+    overscan: virtualize?.overscan,
+    rowHeight: getRowHeight,
+    rowKeys: virtualize ? virtualRowKeys : undefined,
+  });
+  // When virtualized only the rows in the visible area are rendered.
+  const displayedRows = virtualize
+    ? finalRows.slice(startIndex, endIndex)
+    : finalRows;
+
+  const { columnOrder, frozenCount } = Array.isArray(frozenColumns)
+    ? getColumnOrder(headers, frozenColumns)
+    : { columnOrder: null, frozenCount: frozenColumns ?? 0 };
+  const orderedHeaders =
+    headers && columnOrder
+      ? columnOrder.map((columnIndex) => headers[columnIndex])
+      : headers;
+
+  const hasRows = Object.entries(finalRows).length > 0;
+  // Placeholder rows are displayed while loading the first rows.
+  const showSkeleton = !!loading && !hasRows && !error;
+  // The error and placeholder rows also span the hidden expanding column.
+  const columnCount =
+    (headers?.length || rows?.[0]?.columns?.length || 1) + (expanding ? 1 : 0);
+
+  const table = (
+    <Table
+      aria-busy={loading || undefined}
+      expanding={expanding}
+      frozenColumns={frozenCount}
+      gridNavigation={
+        gridNavigation && {
+          ...(typeof gridNavigation === "object" ? gridNavigation : {}),
+          // The row indexes include the rows on previous pages and any rows
+          // that are not rendered when virtualized.
+          rowCount: sortedRows.length,
+          rowIndexOffset:
+            (paginate ? (currentPage - 1) * itemsPerPage : 0) +
+            (virtualize ? startIndex : 0),
+          scrollToRow: (rowIndex: number) => {
+            let pageRowIndex = rowIndex;
+            if (paginate) {
+              const page = Math.floor(rowIndex / itemsPerPage) + 1;
+              if (page !== currentPage) {
+                setCurrentPage(page);
+              }
+              pageRowIndex -= (page - 1) * itemsPerPage;
+            }
+            if (virtualize) {
+              scrollToIndex(pageRowIndex);
+            }
+          },
+        }
+      }
+      responsive={responsive}
+      stickyHeader={stickyHeader || !!virtualize}
+      {...props}
+    >
+      {hiddenCaption && (
+        <caption
+          data-testid="hidden-caption"
+          style={{
+            height: "1px",
+            left: "-1000px",
+            overflow: "hidden",
+            position: "absolute",
+            top: "auto",
+            width: "1px",
+          }}
+        >
+          {hiddenCaption}
+        </caption>
+      )}
+      {!!headers &&
+        generateHeaders(
+          currentSort,
+          expanding,
+          orderedHeaders,
+          sortable,
+          updateSort
+        )}
+      {
+        // If the table has no rows, return empty state message
+        !hasRows && !loading && !error && emptyStateMsg ? (
+          <caption>{emptyStateMsg}</caption>
+        ) : (
+          <tbody>
+            {/* The error is displayed in place of any existing rows. */}
+            {error ? (
+              <TableErrorRow
+                columnCount={columnCount}
+                error={error}
+                onRetry={onRetry}
+              />
+            ) : (
+              <>
+                {showSkeleton && (
+                  <TableSkeletonRows columnCount={columnCount} />
+                )}
+                {virtualize && paddingTop > 0 && (
+                  <tr aria-hidden="true" style={{ height: paddingTop }} />
+                )}
+                {generateRows({
+                  rows: displayedRows,
+                  headers: orderedHeaders,
+                  responsive,
+                  expanding,
+                  startIndex: virtualize ? startIndex : 0,
+                  columnOrder,
+                  virtualized: !!virtualize,
+                })}
+                {virtualize && paddingBottom > 0 && (
+                  <tr aria-hidden="true" style={{ height: paddingBottom }} />
+                )}
+              </>
+            )}
+          </tbody>
+        )
+      }
+    </Table>
+  );
+
+  const scrollableTable = virtualize ? (
+    <div
+      onScroll={onScroll}
+      ref={measureRef}
+      style={{
+        height: virtualize.height,
+        maxHeight,
+        overflow: "auto",
+      }}
+    >
+      {table}
+    </div>
+  ) : frozenCount || maxHeight ? (
+    <div style={{ maxHeight, overflow: "auto" }}>{table}</div>
+  ) : (
+    table
+  );
+
   return (
     <>
-      <Table expanding={expanding} responsive={responsive} {...props}>
-        {hiddenCaption && (
-          <caption
-            data-testid="hidden-caption"
-            style={{
-              height: "1px",
-              left: "-1000px",
-              overflow: "hidden",
-              position: "absolute",
-              top: "auto",
-              width: "1px",
-            }}
-          >
-            {hiddenCaption}
-          </caption>
-        )}
-        {!!headers &&
-          generateHeaders(
-            currentSortKey,
-            currentSortDirection,
-            expanding,
-            headers,
-            sortable,
-            updateSort,
-            setSortDirection
-          )}
-        {
-          // If the table has no rows, return empty state message
-          Object.entries(finalRows).length === 0 && emptyStateMsg ? (
-            <caption>{emptyStateMsg}</caption>
-          ) : (
-            <tbody>
-              {generateRows({
-                rows: finalRows,
-                headers,
-                responsive,
-                expanding,
-              })}
-            </tbody>
-          )
-        }
-      </Table>
+      {exportable && (
+        <div className="u-align--right">
+          <TableExportButton
+            getData={(scope) =>
+              getExportData(headers, scope === "page" ? finalRows : sortedRows)
+            }
+            paginated={!!paginate}
+            {...exportProps}
+          />
+        </div>
+      )}
+      {/* The overlay is only displayed when refreshing existing rows. It is
+      always rendered so that the table is not remounted when the loading
+      state changes. */}
+      <TableLoadingOverlay loading={!!loading && !showSkeleton}>
+        {scrollableTable}
+      </TableLoadingOverlay>
       {paginate && rows && rows.length > 0 && (
         <Pagination
           currentPage={currentPage}
-          itemsPerPage={paginate}
+          itemsPerPage={itemsPerPage}
           paginate={setCurrentPage}
           style={{ marginTop: "1rem" }}
           totalItems={rows.length}
@@ -1,2 +1,3 @@
 export { default } from "./MainTable";
-export type { Props as MainTableProps } from "./MainTable";
+export type { Props as MainTableProps, MainTableSort } from "./MainTable";
+export type { SortType as MainTableSortType } from "./utils";
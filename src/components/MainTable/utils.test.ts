@@ -0,0 +1,107 @@
+import { compareSortValues } from "./utils";
+import type { SortType } from "./utils";
+
+const sortValues = (
+  values: unknown[],
+  sortType?: SortType,
+  direction: "ascending" | "descending" = "ascending"
+) => [...values].sort((a, b) => compareSortValues(a, b, direction, sortType));
+
+describe("compareSortValues", () => {
+  it("sorts text with numbers naturally", () => {
+    expect(sortValues(["item10", "Item2", "item1"])).toEqual([
+      "item1",
+      "Item2",
+      "item10",
+    ]);
+  });
+
+  it("sorts numbers, booleans and dates by value", () => {
+    expect(sortValues([10, 9, 100])).toEqual([9, 10, 100]);
+    expect(sortValues([true, false])).toEqual([false, true]);
+    const later = new Date("2023-02-01");
+    const earlier = new Date("2023-01-01");
+    expect(sortValues([later, earlier])).toEqual([earlier, later]);
+  });
+
+  it("always places empty values last", () => {
+    expect(sortValues([null, 2, undefined, 1])).toEqual([
+      1,
+      2,
+      null,
+      undefined,
+    ]);
+    expect(sortValues([null, 2, undefined, 1], "auto", "descending")).toEqual([
+      2,
+      1,
+      null,
+      undefined,
+    ]);
+  });
+
+  it("always places values that could not be parsed last", () => {
+    expect(sortValues(["2", "abc", "10"], "number")).toEqual([
+      "2",
+      "10",
+      "abc",
+    ]);
+    expect(sortValues(["2", "abc", "10"], "number", "descending")).toEqual([
+      "10",
+      "2",
+      "abc",
+    ]);
+    expect(
+      sortValues(["1 GB", "unknown", "1 MB"], "bytes", "descending")
+    ).toEqual(["1 GB", "1 MB", "unknown"]);
+  });
+
+  it("can sort dates", () => {
+    expect(
+      sortValues(["2023-03-01", new Date("2023-01-01"), 1675209600000], "date")
+    ).toEqual([new Date("2023-01-01"), 1675209600000, "2023-03-01"]);
+  });
+
+  it("can sort booleans", () => {
+    expect(sortValues(["true", false, "false"], "boolean")).toEqual([
+      false,
+      "false",
+      "true",
+    ]);
+  });
+
+  it("can sort IP addresses", () => {
+    expect(
+      sortValues(
+        ["10.0.0.10", "fe80::1", "10.0.0.9", "2001:db8::", "192.168.1.1"],
+        "ip"
+      )
+    ).toEqual([
+      "10.0.0.9",
+      "10.0.0.10",
+      "192.168.1.1",
+      "2001:db8::",
+      "fe80::1",
+    ]);
+  });
+
+  it("can sort semantic versions", () => {
+    expect(
+      sortValues(
+        ["1.10.0", "1.2.0", "v1.2.0-beta.2", "1.2.0-beta.10", "1.2.0-alpha"],
+        "semver"
+      )
+    ).toEqual([
+      "1.2.0-alpha",
+      "v1.2.0-beta.2",
+      "1.2.0-beta.10",
+      "1.2.0",
+      "1.10.0",
+    ]);
+  });
+
+  it("can sort byte sizes", () => {
+    expect(
+      sortValues(["1 GiB", "900 MB", "1GB", "512 KiB", 1000], "bytes")
+    ).toEqual([1000, "512 KiB", "900 MB", "1GB", "1 GiB"]);
+  });
+});
@@ -0,0 +1,254 @@
+import { parseBytes } from "utils";
+import type { SortDirection } from "types";
+
+type Comparator = (a: unknown, b: unknown) => number;
+
+const collator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: "base",
+});
+
+/**
+ * Comparators return an infinite result to place a value that could not be
+ * parsed last, regardless of the sort direction.
+ * @param aInvalid - Whether the first value could not be parsed.
+ * @param bInvalid - Whether the second value could not be parsed.
+ */
+const compareInvalid = (aInvalid: boolean, bInvalid: boolean) =>
+  aInvalid === bInvalid ? 0 : aInvalid ? Infinity : -Infinity;
+
+/**
+ * Compare two numbers, placing values that could not be parsed last.
+ * @param a - The first number.
+ * @param b - The second number.
+ */
+const compareNumbers = (a: number | null, b: number | null) => {
+  const aInvalid = a === null || Number.isNaN(a);
+  const bInvalid = b === null || Number.isNaN(b);
+  if (aInvalid || bInvalid) {
+    return compareInvalid(aInvalid, bInvalid);
+  }
+  return a === b ? 0 : a > b ? 1 : -1;
+};
+
+/**
+ * Compare two lists of numbers item by item, placing shorter lists first.
+ * @param a - The first list.
+ * @param b - The second list.
+ */
+const compareNumberLists = (a: number[], b: number[]) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i] > b[i] ? 1 : -1;
+    }
+  }
+  return a.length - b.length;
+};
+
+const naturalSort: Comparator = (a, b) =>
+  collator.compare(String(a), String(b));
+
+const toDate = (value: unknown) =>
+  value instanceof Date
+    ? value.getTime()
+    : typeof value === "string" || typeof value === "number"
+    ? new Date(value).getTime()
+    : null;
+
+const toBoolean = (value: unknown) =>
+  typeof value === "string" ? value.toLowerCase() === "true" : !!value;
+
+/**
+ * Parse an IPv4 or IPv6 address into a list of numbers. IPv4 addresses have
+ * fewer parts so are placed before IPv6 addresses.
+ * @param value - The address, optionally with a prefix length.
+ */
+const parseIp = (value: unknown): number[] | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const [address, prefix] = value.trim().split("/");
+  const prefixLength = prefix ? [Number(prefix)] : [];
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) {
+    return [...address.split(".").map(Number), ...prefixLength];
+  }
+  // Remove any zone index, e.g. "fe80::1%eth0".
+  const ipv6 = address.split("%")[0].toLowerCase();
+  if (!/^[\da-f:]+$/.test(ipv6) || ipv6.split("::").length > 2) {
+    return null;
+  }
+  const [start, end] = ipv6.split("::");
+  const startParts = start ? start.split(":") : [];
+  const endParts = end ? end.split(":") : [];
+  const missing = 8 - startParts.length - endParts.length;
+  if (missing < 0 || (end === undefined && missing !== 0)) {
+    return null;
+  }
+  return [
+    ...startParts,
+    ...Array(end === undefined ? 0 : missing).fill("0"),
+    ...endParts,
+  ]
+    .map((part) => parseInt(part, 16))
+    .concat(prefixLength);
+};
+
+const ipSort: Comparator = (a, b) => {
+  const aParts = parseIp(a);
+  const bParts = parseIp(b);
+  if (!aParts || !bParts) {
+    return aParts || bParts
+      ? compareInvalid(!aParts, !bParts)
+      : naturalSort(a, b);
+  }
+  // IPv4 addresses are placed before IPv6 addresses.
+  return (
+    (aParts.length >= 8 ? 1 : 0) - (bParts.length >= 8 ? 1 : 0) ||
+    compareNumberLists(aParts, bParts)
+  );
+};
+
+/**
+ * Parse a semantic version, e.g. "v1.2.3-beta.1".
+ * @param value - The version string.
+ */
+const parseSemver = (value: unknown) => {
+  const match =
+    typeof value === "string" &&
+    value
+      .trim()
+      .match(
+        /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([\da-z-]+(?:\.[\da-z-]+)*))?(?:\+[\da-z.-]+)?$/i
+      );
+  if (!match) {
+    return null;
+  }
+  return {
+    release: match.slice(1, 4).map((part) => Number(part ?? 0)),
+    prerelease: match[4]?.split(".") ?? [],
+  };
+};
+
+const comparePrerelease = (a: string[], b: string[]) => {
+  // A version without a prerelease is higher than one with a prerelease.
+  if (!a.length || !b.length) {
+    return b.length - a.length;
+  }
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const aNumeric = /^\d+$/.test(a[i]);
+    const bNumeric = /^\d+$/.test(b[i]);
+    let result: number;
+    if (aNumeric && bNumeric) {
+      result = Number(a[i]) - Number(b[i]);
+    } else if (aNumeric || bNumeric) {
+      // Numeric identifiers are lower than alphanumeric identifiers.
+      result = aNumeric ? -1 : 1;
+    } else {
+      result = a[i] === b[i] ? 0 : a[i] > b[i] ? 1 : -1;
+    }
+    if (result !== 0) {
+      return result;
+    }
+  }
+  return a.length - b.length;
+};
+
+const semverSort: Comparator = (a, b) => {
+  const aVersion = parseSemver(a);
+  const bVersion = parseSemver(b);
+  if (!aVersion || !bVersion) {
+    return aVersion || bVersion
+      ? compareInvalid(!aVersion, !bVersion)
+      : naturalSort(a, b);
+  }
+  return (
+    compareNumberLists(aVersion.release, bVersion.release) ||
+    comparePrerelease(aVersion.prerelease, bVersion.prerelease)
+  );
+};
+
+const autoSort: Comparator = (a, b) => {
+  if (typeof a === "number" && typeof b === "number") {
+    return compareNumbers(a, b);
+  }
+  if (typeof a === "boolean" && typeof b === "boolean") {
+    return Number(a) - Number(b);
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return compareNumbers(a.getTime(), b.getTime());
+  }
+  return naturalSort(a, b);
+};
+
+/**
+ * The built in comparators that can be selected using a header's `sortType`.
+ */
+export const sortTypes = {
+  /**
+   * Compare numbers, booleans and dates by value and anything else as text.
+   */
+  auto: autoSort,
+  /**
+   * Compare text so that numbers within the text are ordered by value, e.g.
+   * "item2" before "item10".
+   */
+  natural: naturalSort,
+  /**
+   * Compare numbers or numeric strings, with values that are not numbers last.
+   */
+  number: (a: unknown, b: unknown) => compareNumbers(Number(a), Number(b)),
+  /**
+   * Compare dates, timestamps or date strings.
+   */
+  date: (a: unknown, b: unknown) => compareNumbers(toDate(a), toDate(b)),
+  /**
+   * Compare booleans or "true" and "false" strings, with false first.
+   */
+  boolean: (a: unknown, b: unknown) =>
+    Number(toBoolean(a)) - Number(toBoolean(b)),
+  /**
+   * Compare IPv4 and IPv6 addresses, with IPv4 addresses first.
+   */
+  ip: ipSort,
+  /**
+   * Compare semantic versions, e.g. "1.2.0-beta.1" before "1.2.0".
+   */
+  semver: semverSort,
+  /**
+   * Compare sizes, e.g. "900 MB" before "1 GiB".
+   */
+  bytes: (a: unknown, b: unknown) =>
+    compareNumbers(parseBytes(a), parseBytes(b)),
+};
+
+export type SortType = keyof typeof sortTypes;
+
+/**
+ * Compare two values using a built in comparator. Empty values and values
+ * that could not be parsed are always placed last, regardless of the sort
+ * direction.
+ * @param a - The first value.
+ * @param b - The second value.
+ * @param direction - The direction to sort in.
+ * @param sortType - The name of the comparator to use.
+ */
+export const compareSortValues = (
+  a: unknown,
+  b: unknown,
+  direction: SortDirection,
+  sortType: SortType = "auto"
+): -1 | 0 | 1 => {
+  const aEmpty = a === null || a === undefined;
+  const bEmpty = b === null || b === undefined;
+  if (aEmpty || bEmpty) {
+    return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+  }
+  const comparison = sortTypes[sortType](a, b);
+  const result = Math.sign(comparison) as -1 | 0 | 1;
+  // Values that could not be parsed are placed last in either direction.
+  if (!Number.isFinite(comparison)) {
+    return result;
+  }
+  // Avoid returning -0.
+  return direction === "ascending" ? result : ((0 - result) as -1 | 0 | 1);
+};
@@ -0,0 +1,76 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import React from "react";
+import type { ColumnInstance, Row } from "react-table";
+
+import ColumnFilter from "./ColumnFilter";
+
+const getColumn = (
+  filter: string | undefined,
+  values: unknown[],
+  filterValue?: unknown
+) =>
+  ({
+    id: "value",
+    Header: "Value",
+    filter,
+    filterValue,
+    preFilteredRows: values.map(
+      (value) => ({ values: { value } } as unknown as Row)
+    ),
+    setFilter: jest.fn(),
+  } as unknown as ColumnInstance);
+
+describe("ColumnFilter", () => {
+  it("displays a text filter by default", async () => {
+    const column = getColumn(undefined, []);
+    render(<ColumnFilter column={column} />);
+    await userEvent.type(
+      screen.getByRole("searchbox", { name: "Filter Value" }),
+      "a"
+    );
+    expect(column.setFilter).toHaveBeenCalledWith("a");
+  });
+
+  it("displays the unique values for a select filter", async () => {
+    const column = getColumn("select", ["b", "a", "b", null]);
+    render(<ColumnFilter column={column} />);
+    const select = screen.getByRole("combobox", { name: "Filter Value" });
+    expect(
+      Array.from((select as HTMLSelectElement).options).map(
+        ({ textContent }) => textContent
+      )
+    ).toEqual(["All", "a", "b"]);
+    await userEvent.selectOptions(select, "b");
+    expect(column.setFilter).toHaveBeenCalledWith("b");
+  });
+
+  it("displays sliders for a range filter", () => {
+    const column = getColumn("range", [1, 8, 4]);
+    render(<ColumnFilter column={column} />);
+    const min = screen.getByRole("slider", { name: "Minimum Value" });
+    expect(min).toHaveAttribute("min", "1");
+    expect(min).toHaveAttribute("max", "8");
+    fireEvent.change(min, { target: { value: "4" } });
+    expect(column.setFilter).toHaveBeenCalledWith([4, null]);
+  });
+
+  it("removes a range filter when the full range is selected", () => {
+    const column = getColumn("range", [1, 8], [4, null]);
+    render(<ColumnFilter column={column} />);
+    fireEvent.change(screen.getByRole("slider", { name: "Minimum Value" }), {
+      target: { value: "1" },
+    });
+    expect(column.setFilter).toHaveBeenCalledWith(undefined);
+  });
+
+  it("displays date inputs for a date range filter", () => {
+    const column = getColumn("dateRange", [], ["2024-01-01", null]);
+    render(<ColumnFilter column={column} />);
+    expect(screen.getByLabelText("Value from")).toHaveValue("2024-01-01");
+    fireEvent.change(screen.getByLabelText("Value to"), {
+      target: { value: "2024-02-01" },
+    });
+    expect(column.setFilter).toHaveBeenCalledWith(["2024-01-01", "2024-02-01"]);
+  });
+});
@@ -0,0 +1,131 @@
+import React from "react";
+import type { ChangeEvent } from "react";
+import type { ColumnInstance } from "react-table";
+
+import Input from "../../Input";
+import Select from "../../Select";
+import Slider from "../../Slider";
+import { getUniqueValues, getValueRange } from "./utils";
+
+export type Props<D extends Record<string, unknown>> = {
+  /**
+   * The column to filter.
+   */
+  column: ColumnInstance<D>;
+};
+
+const getLabel = <D extends Record<string, unknown>>(
+  column: ColumnInstance<D>
+) =>
+  typeof column.Header === "string" || typeof column.Header === "number"
+    ? String(column.Header)
+    : column.id;
+
+const ColumnFilter = <D extends Record<string, unknown>>({
+  column,
+}: Props<D>): JSX.Element => {
+  const { filterValue, id, preFilteredRows, setFilter } = column;
+  const label = getLabel(column);
+
+  if (column.filter === "select") {
+    return (
+      <Select
+        aria-label={`Filter ${label}`}
+        onChange={(event: ChangeEvent<HTMLSelectElement>) =>
+          setFilter(event.target.value || undefined)
+        }
+        options={[
+          { label: "All", value: "" },
+          ...getUniqueValues(preFilteredRows, id).map((value) => ({
+            label: value,
+            value,
+          })),
+        ]}
+        value={filterValue ?? ""}
+        wrapperClassName="u-no-margin--bottom"
+      />
+    );
+  }
+
+  if (column.filter === "range") {
+    const [min, max] = getValueRange(preFilteredRows, id);
+    const from = filterValue?.[0] ?? min;
+    const to = filterValue?.[1] ?? max;
+    // The filter is removed when the full range is selected.
+    const updateRange = (newFrom: number, newTo: number) =>
+      setFilter(
+        newFrom <= min && newTo >= max
+          ? undefined
+          : [newFrom <= min ? null : newFrom, newTo >= max ? null : newTo]
+      );
+    return (
+      <>
+        <Slider
+          aria-label={`Minimum ${label}`}
+          max={max}
+          min={min}
+          onChange={(event: ChangeEvent<HTMLInputElement>) =>
+            updateRange(Math.min(Number(event.target.value), to), to)
+          }
+          step="any"
+          value={from}
+        />
+        <Slider
+          aria-label={`Maximum ${label}`}
+          max={max}
+          min={min}
+          onChange={(event: ChangeEvent<HTMLInputElement>) =>
+            updateRange(from, Math.max(Number(event.target.value), from))
+          }
+          step="any"
+          value={to}
+        />
+      </>
+    );
+  }
+
+  if (column.filter === "dateRange") {
+    const [from, to] = filterValue ?? [];
+    const updateRange = (newFrom?: string, newTo?: string) =>
+      setFilter(
+        newFrom || newTo ? [newFrom || null, newTo || null] : undefined
+      );
+    return (
+      <>
+        <Input
+          aria-label={`${label} from`}
+          max={to ?? undefined}
+          onChange={(event: ChangeEvent<HTMLInputElement>) =>
+            updateRange(event.target.value, to)
+          }
+          type="date"
+          value={from ?? ""}
+        />
+        <Input
+          aria-label={`${label} to`}
+          min={from ?? undefined}
+          onChange={(event: ChangeEvent<HTMLInputElement>) =>
+            updateRange(from, event.target.value)
+          }
+          type="date"
+          value={to ?? ""}
+          wrapperClassName="u-no-margin--bottom"
+        />
+      </>
+    );
+  }
+
+  return (
+    <Input
+      aria-label={`Filter ${label}`}
+      onChange={(event: ChangeEvent<HTMLInputElement>) =>
+        setFilter(event.target.value || undefined)
+      }
+      type="search"
+      value={filterValue ?? ""}
+      wrapperClassName="u-no-margin--bottom"
+    />
+  );
+};
+
+export default ColumnFilter;
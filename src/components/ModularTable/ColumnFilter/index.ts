@@ -0,0 +1,4 @@
+export { default } from "./ColumnFilter";
+export type { Props as ColumnFilterProps } from "./ColumnFilter";
+export { columnFilterTypes, getUniqueValues, getValueRange } from "./utils";
+export type { ColumnFilterType } from "./utils";
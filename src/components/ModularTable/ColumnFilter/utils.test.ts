@@ -0,0 +1,78 @@
+import type { Row } from "react-table";
+
+import { columnFilterTypes, getUniqueValues, getValueRange } from "./utils";
+
+const getRows = (values: unknown[]) =>
+  values.map((value) => ({ values: { value } } as unknown as Row));
+
+const getValues = (rows: Row[]) => rows.map(({ values }) => values.value);
+
+describe("getUniqueValues", () => {
+  it("gets the unique values in order", () => {
+    expect(getUniqueValues(getRows([10, 2, "b", 2, null]), "value")).toEqual([
+      "2",
+      "10",
+      "b",
+    ]);
+  });
+});
+
+describe("getValueRange", () => {
+  it("gets the smallest and largest values", () => {
+    expect(getValueRange(getRows([3, "1.5", 8, null, "x"]), "value")).toEqual([
+      1.5, 8,
+    ]);
+  });
+
+  it("handles no values", () => {
+    expect(getValueRange(getRows([]), "value")).toEqual([0, 0]);
+  });
+});
+
+describe("columnFilterTypes", () => {
+  it("filters by text", () => {
+    const rows = getRows(["Ready", "ALREADY", "Idle", null]);
+    expect(getValues(columnFilterTypes.text(rows, ["value"], "read"))).toEqual([
+      "Ready",
+      "ALREADY",
+    ]);
+    expect(columnFilterTypes.text.autoRemove("")).toBe(true);
+  });
+
+  it("filters by a selected value", () => {
+    const rows = getRows([1, "1", 2]);
+    expect(getValues(columnFilterTypes.select(rows, ["value"], "1"))).toEqual([
+      1,
+      "1",
+    ]);
+  });
+
+  it("filters by a numeric range", () => {
+    const rows = getRows([1, 4, 8, null]);
+    expect(getValues(columnFilterTypes.range(rows, ["value"], [2, 8]))).toEqual(
+      [4, 8]
+    );
+    expect(
+      getValues(columnFilterTypes.range(rows, ["value"], [null, 4]))
+    ).toEqual([1, 4]);
+    expect(columnFilterTypes.range.autoRemove([null, undefined])).toBe(true);
+  });
+
+  it("filters by a date range", () => {
+    const rows = getRows([
+      new Date(2024, 0, 1, 12),
+      "2024-01-31T23:00:00",
+      "2024-02-01T00:00:00",
+      "invalid",
+    ]);
+    expect(
+      getValues(
+        columnFilterTypes.dateRange(
+          rows,
+          ["value"],
+          ["2024-01-01", "2024-01-31"]
+        )
+      )
+    ).toEqual([new Date(2024, 0, 1, 12), "2024-01-31T23:00:00"]);
+  });
+});
@@ -0,0 +1,164 @@
+import type { FilterValue, IdType, Row } from "react-table";
+
+import {
+  isEmptySearchAndFilterQuery,
+  matchesSearchAndFilterQuery,
+} from "../../SearchAndFilter";
+import type { SearchAndFilterQuery } from "../../SearchAndFilter";
+
+/**
+ * The built-in column filters.
+ */
+export type ColumnFilterType = "text" | "select" | "range" | "dateRange";
+
+// A range of values where either end can be left open.
+type Range<T> = [T | null | undefined, T | null | undefined];
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === "";
+
+const isOpenRange = (value?: Range<unknown> | null) =>
+  !value || (isEmpty(value[0]) && isEmpty(value[1]));
+
+const toDate = (value: unknown) => {
+  if (value instanceof Date) {
+    return value;
+  }
+  return typeof value === "string" || typeof value === "number"
+    ? new Date(value)
+    : null;
+};
+
+// Get the value of each row for a column, ignoring any empty values.
+const getValues = <D extends Record<string, unknown>>(
+  rows: Row<D>[],
+  id: IdType<D>
+) => rows.map(({ values }) => values[id]).filter((value) => !isEmpty(value));
+
+/**
+ * Get the unique values for a column, e.g. to display as options when
+ * filtering.
+ * @param rows - The rows to get the values from.
+ * @param id - The column id.
+ * @returns The values as strings, in ascending order.
+ */
+export const getUniqueValues = <D extends Record<string, unknown>>(
+  rows: Row<D>[],
+  id: IdType<D>
+): string[] =>
+  Array.from(new Set(getValues(rows, id).map(String))).sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true })
+  );
+
+/**
+ * Get the smallest and largest numeric values for a column.
+ * @param rows - The rows to get the values from.
+ * @param id - The column id.
+ * @returns The minimum and maximum values, or zero if there are no values.
+ */
+export const getValueRange = <D extends Record<string, unknown>>(
+  rows: Row<D>[],
+  id: IdType<D>
+): [number, number] => {
+  const numbers = getValues(rows, id)
+    .map(Number)
+    .filter((value) => !Number.isNaN(value));
+  return numbers.length ? [Math.min(...numbers), Math.max(...numbers)] : [0, 0];
+};
+
+// Matches values that contain the text, ignoring case.
+const text = <D extends Record<string, unknown>>(
+  rows: Row<D>[],
+  ids: IdType<D>[],
+  filterValue: FilterValue
+) => {
+  const search = String(filterValue).toLowerCase();
+  return rows.filter((row) =>
+    ids.some(
+      (id) =>
+        !isEmpty(row.values[id]) &&
+        String(row.values[id]).toLowerCase().includes(search)
+    )
+  );
+};
+text.autoRemove = isEmpty;
+
+// Matches values that are the same as the selected value.
+const select = <D extends Record<string, unknown>>(
+  rows: Row<D>[],
+  ids: IdType<D>[],
+  filterValue: FilterValue
+) =>
+  rows.filter((row) =>
+    ids.some((id) => String(row.values[id]) === String(filterValue))
+  );
+select.autoRemove = isEmpty;
+
+// Matches numeric values between the minimum and maximum, inclusive.
+const range = <D extends Record<string, unknown>>(
+  rows: Row<D>[],
+  ids: IdType<D>[],
+  [min, max]: Range<number>
+) =>
+  rows.filter((row) =>
+    ids.some((id) => {
+      const value = Number(row.values[id]);
+      return (
+        !isEmpty(row.values[id]) &&
+        !Number.isNaN(value) &&
+        (isEmpty(min) || value >= min) &&
+        (isEmpty(max) || value <= max)
+      );
+    })
+  );
+range.autoRemove = isOpenRange;
+
+// Matches dates between the start of the first day and the end of the last
+// day, where the days are in the format YYYY-MM-DD.
+const dateRange = <D extends Record<string, unknown>>(
+  rows: Row<D>[],
+  ids: IdType<D>[],
+  [from, to]: Range<string>
+) => {
+  const start = isEmpty(from) ? null : new Date(`${from}T00:00:00`);
+  const end = isEmpty(to) ? null : new Date(`${to}T23:59:59.999`);
+  return rows.filter((row) =>
+    ids.some((id) => {
+      const date = toDate(row.values[id]);
+      return (
+        !!date &&
+        !Number.isNaN(date.getTime()) &&
+        (!start || date >= start) &&
+        (!end || date <= end)
+      );
+    })
+  );
+};
+dateRange.autoRemove = isOpenRange;
+
+// Matches rows where the values in the columns match a query created from
+// SearchAndFilter chips.
+const query = <D extends Record<string, unknown>>(
+  rows: Row<D>[],
+  ids: IdType<D>[],
+  filterValue: SearchAndFilterQuery
+) =>
+  rows.filter((row) =>
+    matchesSearchAndFilterQuery(
+      filterValue,
+      Object.fromEntries(ids.map((id) => [id, row.values[id]]))
+    )
+  );
+query.autoRemove = isEmptySearchAndFilterQuery;
+
+/**
+ * The filter functions for the built-in column filters, and for filtering
+ * by a SearchAndFilter query.
+ */
+export const columnFilterTypes = {
+  text,
+  select,
+  range,
+  dateRange,
+  query,
+};
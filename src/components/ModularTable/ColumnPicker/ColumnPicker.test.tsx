@@ -0,0 +1,48 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import React from "react";
+import type { ColumnInstance } from "react-table";
+
+import ColumnPicker from "./ColumnPicker";
+
+const getColumn = (
+  id: string,
+  Header: ColumnInstance["Header"],
+  isVisible = true
+) =>
+  ({
+    id,
+    Header,
+    isVisible,
+    render: () => Header,
+    getToggleHiddenProps: () => ({
+      checked: isVisible,
+      onChange: jest.fn(),
+    }),
+  } as unknown as ColumnInstance);
+
+describe("ColumnPicker", () => {
+  it("displays a checkbox for each column", async () => {
+    render(
+      <ColumnPicker
+        columns={[getColumn("name", "Name"), getColumn("zone", "Zone", false)]}
+      />
+    );
+    await userEvent.click(screen.getByRole("button", { name: "Columns" }));
+    expect(screen.getByRole("checkbox", { name: "Name" })).toBeChecked();
+    expect(screen.getByRole("checkbox", { name: "Zone" })).not.toBeChecked();
+  });
+
+  it("uses the column id if there is no header", async () => {
+    render(<ColumnPicker columns={[getColumn("name", " ")]} />);
+    await userEvent.click(screen.getByRole("button", { name: "Columns" }));
+    expect(screen.getByRole("checkbox", { name: "name" })).toBeInTheDocument();
+  });
+
+  it("can have a custom toggle label", () => {
+    render(<ColumnPicker columns={[]} toggleLabel="Show columns" />);
+    expect(
+      screen.getByRole("button", { name: "Show columns" })
+    ).toBeInTheDocument();
+  });
+});
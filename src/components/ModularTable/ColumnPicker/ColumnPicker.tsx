@@ -0,0 +1,58 @@
+import React, { isValidElement } from "react";
+import type { ChangeEvent } from "react";
+import type { ColumnInstance } from "react-table";
+
+import CheckboxInput from "../../CheckboxInput";
+import ContextualMenu from "../../ContextualMenu";
+
+export type Props<D extends Record<string, unknown>> = {
+  /**
+   * The columns that can be shown or hidden.
+   */
+  columns: ColumnInstance<D>[];
+  /**
+   * The label for the menu toggle.
+   */
+  toggleLabel?: string;
+};
+
+// Whether the column has a header that can be used as the label.
+const hasHeader = <D extends Record<string, unknown>>(
+  column: ColumnInstance<D>
+) =>
+  isValidElement(column.Header) ||
+  ((typeof column.Header === "string" || typeof column.Header === "number") &&
+    !!String(column.Header).trim());
+
+const ColumnPicker = <D extends Record<string, unknown>>({
+  columns,
+  toggleLabel = "Columns",
+}: Props<D>): JSX.Element => (
+  <ContextualMenu
+    dropdownClassName="u-no-padding--top u-no-padding--bottom"
+    hasToggleIcon
+    position="right"
+    toggleLabel={toggleLabel}
+  >
+    <div className="p-contextual-menu__group">
+      {columns.map((column) => {
+        const { onChange, ...toggleProps } = column.getToggleHiddenProps({
+          title: undefined,
+        });
+        return (
+          <div className="p-contextual-menu__link" key={column.id}>
+            <CheckboxInput
+              label={hasHeader(column) ? column.render("Header") : column.id}
+              onChange={(event: ChangeEvent<HTMLInputElement>) =>
+                onChange(event)
+              }
+              {...toggleProps}
+            />
+          </div>
+        );
+      })}
+    </div>
+  </ContextualMenu>
+);
+
+export default ColumnPicker;
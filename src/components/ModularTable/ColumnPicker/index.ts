@@ -0,0 +1,2 @@
+export { default } from "./ColumnPicker";
+export type { Props as ColumnPickerProps } from "./ColumnPicker";
@@ -0,0 +1,130 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import React from "react";
+import type { Cell } from "react-table";
+
+import EditableCell from "./EditableCell";
+import type { CellEditor } from "./EditableCell";
+
+const getCell = (value: unknown) =>
+  ({
+    value,
+    row: { id: "0" },
+    column: { id: "name", Header: "Name" },
+    render: (_type: string, props?: { value: unknown }) =>
+      String(props ? props.value : value),
+  } as unknown as Cell);
+
+const renderCell = (
+  cell: Cell,
+  onCellEdit = jest.fn(),
+  editor: CellEditor<Record<string, unknown>> = {}
+) =>
+  render(
+    <table>
+      <tbody>
+        <tr>
+          <EditableCell cell={cell} editor={editor} onCellEdit={onCellEdit} />
+        </tr>
+      </tbody>
+    </table>
+  );
+
+describe("EditableCell", () => {
+  it("can be edited by double clicking", async () => {
+    const onCellEdit = jest.fn();
+    renderCell(getCell("alpha"), onCellEdit);
+    await userEvent.dblClick(screen.getByRole("gridcell"));
+    const input = screen.getByRole("textbox", { name: "Name" });
+    expect(input).toHaveFocus();
+    await userEvent.clear(input);
+    await userEvent.type(input, "bravo{Enter}");
+    expect(onCellEdit).toHaveBeenCalledWith({ id: "0" }, "name", "bravo");
+    expect(screen.getByRole("gridcell")).toHaveTextContent("bravo");
+    expect(screen.getByRole("gridcell")).toHaveFocus();
+  });
+
+  it("can be edited using the keyboard", async () => {
+    const onCellEdit = jest.fn();
+    renderCell(getCell("alpha"), onCellEdit);
+    await userEvent.tab();
+    expect(screen.getByRole("gridcell")).toHaveFocus();
+    await userEvent.keyboard("{Enter}");
+    await userEvent.type(screen.getByRole("textbox"), "-1{Escape}");
+    expect(onCellEdit).not.toHaveBeenCalled();
+    expect(screen.queryByRole("textbox")).not.toBeInTheDocument();
+    expect(screen.getByRole("gridcell")).toHaveTextContent("alpha");
+  });
+
+  it("displays validation errors", async () => {
+    const onCellEdit = jest.fn();
+    renderCell(getCell("alpha"), onCellEdit, {
+      validate: (value) => (value ? null : "Name is required"),
+    });
+    await userEvent.dblClick(screen.getByRole("gridcell"));
+    await userEvent.clear(screen.getByRole("textbox"));
+    await userEvent.keyboard("{Enter}");
+    expect(onCellEdit).not.toHaveBeenCalled();
+    expect(screen.getByRole("textbox")).toHaveAccessibleErrorMessage(
+      "Error: Name is required"
+    );
+  });
+
+  it("displays errors thrown when validating", async () => {
+    const onCellEdit = jest.fn();
+    renderCell(getCell("alpha"), onCellEdit, {
+      validate: () => {
+        throw new Error("Could not validate");
+      },
+    });
+    await userEvent.dblClick(screen.getByRole("gridcell"));
+    await userEvent.keyboard("{Enter}");
+    expect(onCellEdit).not.toHaveBeenCalled();
+    expect(screen.getByRole("textbox")).toHaveAccessibleErrorMessage(
+      "Error: Could not validate"
+    );
+  });
+
+  it("converts number values", async () => {
+    const onCellEdit = jest.fn();
+    renderCell(getCell(2), onCellEdit, { type: "number" });
+    await userEvent.dblClick(screen.getByRole("gridcell"));
+    await userEvent.type(screen.getByRole("spinbutton"), "0{Enter}");
+    expect(onCellEdit).toHaveBeenCalledWith({ id: "0" }, "name", 20);
+  });
+
+  it("can use a select editor", async () => {
+    const onCellEdit = jest.fn();
+    renderCell(getCell("a"), onCellEdit, {
+      type: "select",
+      options: [
+        { label: "Zone A", value: "a" },
+        { label: "Zone B", value: "b" },
+      ],
+    });
+    await userEvent.dblClick(screen.getByRole("gridcell"));
+    await userEvent.selectOptions(screen.getByRole("combobox"), "b");
+    await userEvent.keyboard("{Enter}");
+    expect(onCellEdit).toHaveBeenCalledWith({ id: "0" }, "name", "b");
+  });
+
+  it("can use a switch editor", async () => {
+    const onCellEdit = jest.fn();
+    renderCell(getCell(false), onCellEdit, { type: "switch" });
+    await userEvent.dblClick(screen.getByRole("gridcell"));
+    await userEvent.click(screen.getByRole("switch", { name: "Name" }));
+    await userEvent.keyboard("{Enter}");
+    expect(onCellEdit).toHaveBeenCalledWith({ id: "0" }, "name", true);
+  });
+
+  it("rolls back the value if the edit fails", async () => {
+    const onCellEdit = jest.fn().mockRejectedValue(new Error("Name is taken"));
+    renderCell(getCell("alpha"), onCellEdit);
+    await userEvent.dblClick(screen.getByRole("gridcell"));
+    await userEvent.type(screen.getByRole("textbox"), "2{Enter}");
+    await waitFor(() =>
+      expect(screen.getByRole("gridcell")).toHaveTextContent("alpha")
+    );
+    expect(screen.getByText("Name is taken")).toBeInTheDocument();
+  });
+});
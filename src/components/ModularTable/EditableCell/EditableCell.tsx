@@ -0,0 +1,247 @@
+import React, { useEffect, useRef, useState } from "react";
+import type {
+  ChangeEvent,
+  FocusEvent,
+  KeyboardEvent,
+  ReactNode,
+  SyntheticEvent,
+} from "react";
+import type { Cell, IdType, Row } from "react-table";
+
+import type { PropsWithSpread } from "types";
+import Field from "../../Field";
+import Input from "../../Input";
+import Select from "../../Select";
+import type { SelectProps } from "../../Select";
+import Switch from "../../Switch";
+import TableCell from "../../TableCell";
+import type { TableCellProps } from "../../TableCell";
+
+export type CellEditor<D extends Record<string, unknown>> = {
+  /**
+   * The type of editor to display.
+   */
+  type?: "text" | "number" | "select" | "switch";
+  /**
+   * The options to display in a select editor.
+   */
+  options?: SelectProps["options"];
+  /**
+   * A function that returns an error message if the value is not valid.
+   */
+  validate?: (value: unknown, row: Row<D>) => ReactNode;
+};
+
+export type CellEditHandler<D extends Record<string, unknown>> = (
+  row: Row<D>,
+  columnId: IdType<D>,
+  value: unknown
+) => void | Promise<void>;
+
+export type Props<D extends Record<string, unknown>> = PropsWithSpread<
+  {
+    /**
+     * The cell to edit.
+     */
+    cell: Cell<D>;
+    /**
+     * Content to display before the value, e.g. an icon.
+     */
+    children?: ReactNode;
+    /**
+     * The editor to display.
+     */
+    editor: CellEditor<D>;
+    /**
+     * A function that is called with the new value. If this returns a
+     * promise that rejects then the value is rolled back.
+     */
+    onCellEdit: CellEditHandler<D>;
+  },
+  TableCellProps
+>;
+
+const getLabel = <D extends Record<string, unknown>>(cell: Cell<D>) =>
+  typeof cell.column.Header === "string" ||
+  typeof cell.column.Header === "number"
+    ? String(cell.column.Header)
+    : cell.column.id;
+
+const getErrorMessage = (error: unknown): ReactNode =>
+  error instanceof Error ? error.message : String(error);
+
+const EditableCell = <D extends Record<string, unknown>>({
+  cell,
+  children,
+  editor,
+  onCellEdit,
+  ...props
+}: Props<D>): JSX.Element => {
+  const { options, type = "text", validate } = editor;
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<unknown>(null);
+  const [error, setError] = useState<ReactNode>(null);
+  // The edited value is displayed until the data is updated, or it is
+  // rolled back if the edit fails.
+  const [pendingValue, setPendingValue] = useState<{ value: unknown } | null>(
+    null
+  );
+  // A ref is used so that the editor's blur event that happens when the
+  // edit is finished does not commit the value again.
+  const isEditing = useRef(false);
+  const editorRef = useRef<HTMLSpanElement>(null);
+  const label = getLabel(cell);
+
+  useEffect(() => {
+    setPendingValue(null);
+  }, [cell.value]);
+
+  useEffect(() => {
+    if (editing) {
+      editorRef.current?.querySelector<HTMLElement>("input, select")?.focus();
+    }
+  }, [editing]);
+
+  const startEditing = () => {
+    isEditing.current = true;
+    setDraft(type === "switch" ? !!cell.value : cell.value ?? "");
+    setError(null);
+    setEditing(true);
+  };
+
+  const stopEditing = (event: SyntheticEvent) => {
+    isEditing.current = false;
+    setEditing(false);
+    // Return the focus to the cell so that it can be edited again using
+    // the keyboard.
+    if (event.type !== "blur") {
+      event.currentTarget.closest("td")?.focus();
+    }
+  };
+
+  const commit = async (event: SyntheticEvent) => {
+    if (!isEditing.current) {
+      return;
+    }
+    const value =
+      type === "number" ? (draft === "" ? null : Number(draft)) : draft;
+    try {
+      const validationError = validate?.(value, cell.row);
+      if (validationError) {
+        setError(validationError);
+        return;
+      }
+      setError(null);
+      stopEditing(event);
+      if (value === cell.value) {
+        return;
+      }
+      setPendingValue({ value });
+      await onCellEdit(cell.row, cell.column.id, value);
+    } catch (error) {
+      setPendingValue(null);
+      setError(getErrorMessage(error));
+    }
+  };
+
+  const cancel = (event: SyntheticEvent) => {
+    setError(null);
+    stopEditing(event);
+  };
+
+  const onEditorKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      commit(event);
+    } else if (event.key === "Escape") {
+      // Prevent the escape key from also closing any containing panels.
+      event.stopPropagation();
+      cancel(event);
+    }
+  };
+
+  const editorProps = {
+    "aria-label": label,
+    onBlur: (event: FocusEvent<HTMLElement>) => commit(event),
+    onKeyDown: onEditorKeyDown,
+  };
+
+  let content: ReactNode;
+  if (!editing) {
+    const value = cell.render(
+      "Cell",
+      pendingValue ? { value: pendingValue.value } : undefined
+    );
+    content = error ? (
+      <Field className="u-no-margin--bottom" error={error}>
+        {value}
+      </Field>
+    ) : (
+      value
+    );
+  } else if (type === "switch") {
+    content = (
+      <Field className="u-no-margin--bottom" error={error}>
+        <Switch
+          checked={!!draft}
+          label={<span className="u-off-screen">{label}</span>}
+          onChange={(event: ChangeEvent<HTMLInputElement>) =>
+            setDraft(event.target.checked)
+          }
+          {...editorProps}
+        />
+      </Field>
+    );
+  } else if (type === "select") {
+    content = (
+      <Select
+        error={error}
+        onChange={(event: ChangeEvent<HTMLSelectElement>) =>
+          setDraft(event.target.value)
+        }
+        options={options}
+        value={String(draft)}
+        wrapperClassName="u-no-margin--bottom"
+        {...editorProps}
+      />
+    );
+  } else {
+    content = (
+      <Input
+        error={error}
+        onChange={(event: ChangeEvent<HTMLInputElement>) =>
+          setDraft(event.target.value)
+        }
+        type={type}
+        value={String(draft)}
+        wrapperClassName="u-no-margin--bottom"
+        {...editorProps}
+      />
+    );
+  }
+
+  return (
+    <TableCell
+      onDoubleClick={() => !editing && startEditing()}
+      onKeyDown={(event: KeyboardEvent<HTMLTableCellElement>) => {
+        if (
+          !editing &&
+          event.key === "Enter" &&
+          event.target === event.currentTarget
+        ) {
+          event.preventDefault();
+          startEditing();
+        }
+      }}
+      // The cell is in the tab order so that it can be edited using the
+      // keyboard. The grid navigation manages the tab order when enabled.
+      tabIndex={0}
+      {...props}
+    >
+      {children}
+      {editing ? <span ref={editorRef}>{content}</span> : content}
+    </TableCell>
+  );
+};
+
+export default EditableCell;
@@ -0,0 +1,6 @@
+export { default } from "./EditableCell";
+export type {
+  CellEditHandler,
+  CellEditor,
+  Props as EditableCellProps,
+} from "./EditableCell";
@@ -1,9 +1,13 @@
-import { render, screen, within } from "@testing-library/react";
+import { act, fireEvent, render, screen, within } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
-import React, { useState } from "react";
+import React, { createRef, useState } from "react";
 import { Row } from "react-table";
 
+import EmptyState from "../EmptyState";
+import { createSearchAndFilterQuery } from "../SearchAndFilter";
 import ModularTable from "./ModularTable";
+import type { TreeActions as ModularTableTreeActions } from "./ModularTable";
+import { Label as PaginationButtonLabel } from "../Pagination/PaginationButton/PaginationButton";
 
 const columns = [
   { accessor: "status", Header: "Status", sortType: "alphanumeric" },
@@ -48,6 +52,11 @@ const data: Record<string, unknown>[] = [
   },
 ];
 
+const zonedData: Record<string, unknown>[] = data.map((row, i) => ({
+  ...row,
+  zone: i === 1 ? "b" : "a",
+}));
+
 describe("ModularTable", () => {
   it("renders all rows and columns", async () => {
     render(<ModularTable columns={columns} data={data} />);
@@ -227,6 +236,79 @@ describe("ModularTable", () => {
     ).toBeInTheDocument();
   });
 
+  it("can display an EmptyState when data is empty", () => {
+    render(
+      <ModularTable
+        columns={columns}
+        data={[]}
+        emptyMsg={<EmptyState image={null} title="No machines" />}
+      />
+    );
+    expect(
+      screen.getByRole("heading", { name: "No machines" })
+    ).toBeInTheDocument();
+  });
+
+  it("displays placeholder rows while loading", () => {
+    render(
+      <ModularTable
+        columns={columns}
+        data={[]}
+        emptyMsg="Nothing here"
+        loading
+      />
+    );
+    expect(screen.getByRole("table")).toHaveAttribute("aria-busy", "true");
+    const rows = screen.getAllByTestId("skeleton-row");
+    expect(rows).toHaveLength(3);
+    expect(within(rows[0]).getAllByRole("gridcell")).toHaveLength(4);
+    expect(screen.queryByText("Nothing here")).not.toBeInTheDocument();
+    expect(screen.queryByTestId("loading-overlay")).not.toBeInTheDocument();
+  });
+
+  it("displays an overlay when refreshing the data", () => {
+    const { rerender } = render(<ModularTable columns={columns} data={data} />);
+    const table = screen.getByRole("table");
+    rerender(<ModularTable columns={columns} data={data} loading />);
+    expect(screen.getByTestId("loading-overlay")).toBeInTheDocument();
+    expect(screen.queryByTestId("skeleton-row")).not.toBeInTheDocument();
+    const tableBody = screen.getAllByRole("rowgroup")[1];
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(3);
+    // The table is not remounted when the overlay is displayed.
+    expect(screen.getByRole("table")).toBe(table);
+  });
+
+  it("displays an error with a retry action", async () => {
+    const onRetry = jest.fn();
+    render(
+      <ModularTable
+        columns={columns}
+        data={[]}
+        emptyMsg="Nothing here"
+        error="Could not load machines"
+        onRetry={onRetry}
+      />
+    );
+    expect(screen.getByText("Could not load machines")).toBeInTheDocument();
+    expect(screen.queryByText("Nothing here")).not.toBeInTheDocument();
+    await userEvent.click(screen.getByRole("button", { name: "Retry" }));
+    expect(onRetry).toHaveBeenCalled();
+  });
+
+  it("displays an error in place of the existing rows", () => {
+    render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        error="Could not load machines"
+      />
+    );
+    const rows = screen.getAllByRole("row");
+    // Only the header and error rows are displayed.
+    expect(rows).toHaveLength(2);
+    expect(rows[1]).toHaveTextContent("Could not load machines");
+  });
+
   it("renders a row with footer content", () => {
     render(
       <ModularTable columns={columns} data={data} footer="This is a footer" />
@@ -590,4 +672,1064 @@ describe("ModularTable", () => {
       "Idle"
     );
   });
+
+  it("can display a column to select rows", async () => {
+    render(<ModularTable columns={columns} data={data} selectable />);
+    expect(screen.getAllByRole("columnheader")).toHaveLength(
+      columns.length + 1
+    );
+    expect(
+      screen.getByRole("checkbox", { name: "Select all rows" })
+    ).toBeInTheDocument();
+    expect(
+      screen.getAllByRole("checkbox", { name: "Select row" })
+    ).toHaveLength(data.length);
+  });
+
+  it("displays a tri-state select all checkbox", async () => {
+    render(<ModularTable columns={columns} data={data} selectable />);
+    const selectAll = screen.getByRole("checkbox", {
+      name: "Select all rows",
+    });
+    expect(selectAll).not.toBeChecked();
+    expect(selectAll).toHaveProperty("indeterminate", false);
+    await userEvent.click(
+      screen.getAllByRole("checkbox", { name: "Select row" })[0]
+    );
+    expect(selectAll).not.toBeChecked();
+    expect(selectAll).toHaveProperty("indeterminate", true);
+    await userEvent.click(selectAll);
+    expect(selectAll).toBeChecked();
+    expect(selectAll).toHaveProperty("indeterminate", false);
+    screen.getAllByRole("checkbox", { name: "Select row" }).forEach((row) => {
+      expect(row).toBeChecked();
+    });
+  });
+
+  it("calls onSelectionChange with the selected rows", async () => {
+    const onSelectionChange = jest.fn();
+    render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        getRowId={(row) => row.status as string}
+        onSelectionChange={onSelectionChange}
+        selectable
+      />
+    );
+    await userEvent.click(
+      screen.getAllByRole("checkbox", { name: "Select row" })[1]
+    );
+    expect(onSelectionChange).toHaveBeenCalledTimes(1);
+    expect(onSelectionChange.mock.calls[0][0]).toStrictEqual({
+      Waiting: true,
+    });
+    expect(onSelectionChange.mock.calls[0][1][0].original).toBe(data[1]);
+  });
+
+  it("can control the selected rows", async () => {
+    const onSelectionChange = jest.fn();
+    const { rerender } = render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        getRowId={(row) => row.status as string}
+        onSelectionChange={onSelectionChange}
+        selectable
+        selectedRowIds={{ Idle: true }}
+      />
+    );
+    let checkboxes = screen.getAllByRole("checkbox", { name: "Select row" });
+    expect(checkboxes[0]).not.toBeChecked();
+    expect(checkboxes[2]).toBeChecked();
+    rerender(
+      <ModularTable
+        columns={columns}
+        data={data}
+        getRowId={(row) => row.status as string}
+        onSelectionChange={onSelectionChange}
+        selectable
+        selectedRowIds={{ Ready: true }}
+      />
+    );
+    checkboxes = screen.getAllByRole("checkbox", { name: "Select row" });
+    expect(checkboxes[0]).toBeChecked();
+    expect(checkboxes[2]).not.toBeChecked();
+    expect(onSelectionChange).not.toHaveBeenCalled();
+  });
+
+  it("displays bulk actions when rows are selected", async () => {
+    render(
+      <ModularTable
+        bulkActions={(selectedRows) => (
+          <button>Delete {selectedRows.length} rows</button>
+        )}
+        columns={columns}
+        data={data}
+        selectable
+      />
+    );
+    expect(
+      screen.queryByRole("button", { name: /Delete/ })
+    ).not.toBeInTheDocument();
+    await userEvent.click(
+      screen.getByRole("checkbox", { name: "Select all rows" })
+    );
+    expect(
+      screen.getByRole("button", { name: "Delete 3 rows" })
+    ).toBeInTheDocument();
+  });
+
+  it("can be paginated", async () => {
+    render(<ModularTable columns={columns} data={data} paginate={2} />);
+    const tableBody = screen.getAllByRole("rowgroup")[1];
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(2);
+    await userEvent.click(
+      screen.getByRole("button", { name: PaginationButtonLabel.Next })
+    );
+    const rowItems = within(tableBody).getAllByRole("row");
+    expect(rowItems).toHaveLength(1);
+    expect(within(rowItems[0]).getAllByRole("cell")[0]).toHaveTextContent(
+      "Idle"
+    );
+  });
+
+  it("only selects the rows on the current page by default", async () => {
+    const onSelectionChange = jest.fn();
+    render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        getRowId={(row) => row.status as string}
+        onSelectionChange={onSelectionChange}
+        paginate={2}
+        selectable
+      />
+    );
+    await userEvent.click(
+      screen.getByRole("checkbox", { name: "Select all rows" })
+    );
+    expect(onSelectionChange.mock.calls[0][0]).toStrictEqual({
+      Ready: true,
+      Waiting: true,
+    });
+  });
+
+  it("can select the rows on all pages", async () => {
+    const onSelectionChange = jest.fn();
+    render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        getRowId={(row) => row.status as string}
+        onSelectionChange={onSelectionChange}
+        paginate={2}
+        selectable
+        selectAllPages
+      />
+    );
+    await userEvent.click(
+      screen.getByRole("checkbox", { name: "Select all rows" })
+    );
+    expect(onSelectionChange.mock.calls[0][0]).toStrictEqual({
+      Ready: true,
+      Waiting: true,
+      Idle: true,
+    });
+  });
+
+  it("does not sort or paginate the data in manual mode", async () => {
+    const onSortChange = jest.fn();
+    const onPageChange = jest.fn();
+    render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        manual
+        onPageChange={onPageChange}
+        onSortChange={onSortChange}
+        pageCount={4}
+        paginate={3}
+        sortable
+      />
+    );
+    const tableBody = screen.getAllByRole("rowgroup")[1];
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(3);
+    await userEvent.click(screen.getByRole("columnheader", { name: "Status" }));
+    expect(onSortChange).toHaveBeenCalledWith([{ id: "status", desc: false }]);
+    expect(
+      screen.getByRole("columnheader", { name: "Status" })
+    ).toHaveAttribute("aria-sort", "ascending");
+    const rowItems = within(tableBody).getAllByRole("row");
+    expect(within(rowItems[0]).getAllByRole("cell")[0]).toHaveTextContent(
+      "Ready"
+    );
+    await userEvent.click(screen.getByRole("button", { name: "4" }));
+    expect(onPageChange).toHaveBeenCalledWith(4);
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(3);
+  });
+
+  it("can filter the rows by column", async () => {
+    const onFiltersChange = jest.fn();
+    render(
+      <ModularTable
+        columns={[
+          ...columns.slice(0, 2),
+          { ...columns[2], filter: "select" },
+          { ...columns[3], disableFilters: true },
+        ]}
+        data={data}
+        filterable
+        onFiltersChange={onFiltersChange}
+        selectable
+      />
+    );
+    const tableBody = screen.getAllByRole("rowgroup")[1];
+    await userEvent.selectOptions(
+      screen.getByRole("combobox", { name: "Filter RAM" }),
+      "1 GiB"
+    );
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(2);
+    await userEvent.type(
+      screen.getByRole("searchbox", { name: "Filter Status" }),
+      "wait"
+    );
+    const rowItems = within(tableBody).getAllByRole("row");
+    expect(rowItems).toHaveLength(1);
+    expect(rowItems[0]).toHaveTextContent("Waiting");
+    expect(onFiltersChange).toHaveBeenLastCalledWith([
+      { id: "ram", value: "1 GiB" },
+      { id: "status", value: "wait" },
+    ]);
+    // Filters are not displayed for the selection column or columns that
+    // have filtering disabled.
+    expect(screen.getAllByRole("searchbox")).toHaveLength(2);
+    expect(
+      screen.queryByRole("searchbox", { name: "Filter Disks" })
+    ).not.toBeInTheDocument();
+  });
+
+  it("can filter the rows using a global filter", () => {
+    const { rerender } = render(
+      <ModularTable columns={columns} data={data} globalFilter="" />
+    );
+    const tableBody = screen.getAllByRole("rowgroup")[1];
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(3);
+    rerender(<ModularTable columns={columns} data={data} globalFilter="3.9" />);
+    const rowItems = within(tableBody).getAllByRole("row");
+    expect(rowItems).toHaveLength(1);
+    expect(rowItems[0]).toHaveTextContent("Idle");
+    rerender(<ModularTable columns={columns} data={data} globalFilter="" />);
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(3);
+  });
+
+  it("can turn filtering on and off", () => {
+    const { rerender } = render(<ModularTable columns={columns} data={data} />);
+    const tableBody = screen.getAllByRole("rowgroup")[1];
+    rerender(
+      <ModularTable
+        columns={columns}
+        data={data}
+        filterable
+        filters={[{ id: "cores", value: "1" }]}
+        globalFilter="Ready"
+      />
+    );
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(1);
+    rerender(<ModularTable columns={columns} data={data} />);
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(3);
+    expect(screen.queryByRole("searchbox")).not.toBeInTheDocument();
+  });
+
+  it("can turn the table features on and off", async () => {
+    const { rerender } = render(<ModularTable columns={columns} data={data} />);
+    // The table is moved into a scroll container when columns are frozen.
+    const getBodyRows = () =>
+      within(screen.getAllByRole("rowgroup")[1]).getAllByRole("row");
+    rerender(
+      <ModularTable
+        columns={columns}
+        data={data}
+        frozenColumns={["cores"]}
+        paginate={2}
+        reorderableColumns
+        resizableColumns
+        selectable
+        sortable
+      />
+    );
+    expect(getBodyRows()).toHaveLength(2);
+    expect(
+      screen.getByRole("checkbox", { name: "Select all rows" })
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("columnheader", { name: "Status" })
+    ).toHaveAttribute("aria-sort", "none");
+    rerender(<ModularTable columns={columns} data={data} />);
+    expect(getBodyRows()).toHaveLength(3);
+    expect(screen.queryByRole("checkbox")).not.toBeInTheDocument();
+    expect(
+      screen.getByRole("columnheader", { name: "Status" })
+    ).not.toHaveAttribute("aria-sort");
+    await userEvent.click(screen.getByRole("columnheader", { name: "Status" }));
+    expect(getBodyRows()[0]).toHaveTextContent("Ready");
+  });
+
+  it("can filter the rows using SearchAndFilter chips", () => {
+    render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        globalFilter={createSearchAndFilterQuery([
+          { lead: "Status", value: "Ready", quoteValue: true },
+          { lead: "Status", value: "idle" },
+          { lead: "Cores", value: "1" },
+        ])}
+      />
+    );
+    const tableBody = screen.getAllByRole("rowgroup")[1];
+    const rowItems = within(tableBody).getAllByRole("row");
+    expect(rowItems).toHaveLength(1);
+    expect(rowItems[0]).toHaveTextContent("Ready");
+  });
+
+  it("does not filter the data in manual mode", async () => {
+    const onFiltersChange = jest.fn();
+    render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        filterable
+        globalFilter="Idle"
+        manual
+        onFiltersChange={onFiltersChange}
+      />
+    );
+    await userEvent.type(
+      screen.getByRole("searchbox", { name: "Filter Status" }),
+      "r"
+    );
+    expect(onFiltersChange).toHaveBeenCalledWith([
+      { id: "status", value: "r" },
+    ]);
+    const tableBody = screen.getAllByRole("rowgroup")[1];
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(3);
+  });
+
+  it("can control the filters", () => {
+    render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        filterable
+        filters={[{ id: "cores", value: "8" }]}
+      />
+    );
+    expect(screen.getByRole("searchbox", { name: "Filter Cores" })).toHaveValue(
+      "8"
+    );
+    const tableBody = screen.getAllByRole("rowgroup")[1];
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(1);
+  });
+
+  it("can use the total number of items for manual pagination", () => {
+    render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        manual
+        paginate={3}
+        totalItems={7}
+      />
+    );
+    expect(screen.getByRole("button", { name: "3" })).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "4" })).not.toBeInTheDocument();
+  });
+
+  it("can control the sort", () => {
+    const { rerender } = render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        sortable
+        sortBy={[{ id: "status", desc: true }]}
+      />
+    );
+    expect(
+      screen.getByRole("columnheader", { name: "Status" })
+    ).toHaveAttribute("aria-sort", "descending");
+    rerender(
+      <ModularTable
+        columns={columns}
+        data={data}
+        sortable
+        sortBy={[{ id: "cores", desc: false }]}
+      />
+    );
+    expect(
+      screen.getByRole("columnheader", { name: "Status" })
+    ).toHaveAttribute("aria-sort", "none");
+    expect(screen.getByRole("columnheader", { name: "Cores" })).toHaveAttribute(
+      "aria-sort",
+      "ascending"
+    );
+  });
+
+  it("can control the current page", () => {
+    const { rerender } = render(
+      <ModularTable
+        columns={columns}
+        currentPage={1}
+        data={data}
+        paginate={2}
+      />
+    );
+    expect(screen.getByRole("button", { name: "1" })).toHaveAttribute(
+      "aria-current",
+      "page"
+    );
+    rerender(
+      <ModularTable
+        columns={columns}
+        currentPage={2}
+        data={data}
+        paginate={2}
+      />
+    );
+    expect(screen.getByRole("button", { name: "2" })).toHaveAttribute(
+      "aria-current",
+      "page"
+    );
+  });
+
+  it("asks for the page to be changed when the page is controlled", async () => {
+    const onPageChange = jest.fn();
+    render(
+      <ModularTable
+        columns={columns}
+        currentPage={1}
+        data={data}
+        onPageChange={onPageChange}
+        paginate={2}
+      />
+    );
+    await userEvent.click(screen.getByRole("button", { name: "2" }));
+    expect(onPageChange).toHaveBeenCalledWith(2);
+    // The page does not change until the current page is updated.
+    expect(screen.getByRole("button", { name: "1" })).toHaveAttribute(
+      "aria-current",
+      "page"
+    );
+  });
+
+  it("can render only the visible rows", () => {
+    const manyRows = [...Array(100)].map((_, i) => ({
+      status: `row ${i}`,
+      subRows: [{ status: `sub-row ${i}` }],
+    }));
+    render(
+      <ModularTable
+        columns={[{ accessor: "status", Header: "Status" }]}
+        data={manyRows}
+        virtualize={{ height: 100, rowHeight: 20, overscan: 2 }}
+      />
+    );
+    const tableBody = screen.getAllByRole("rowgroup")[1];
+    const rowItems = within(tableBody).getAllByRole("row");
+    expect(rowItems).toHaveLength(7);
+    expect(rowItems[0]).toHaveTextContent("row 0");
+    expect(rowItems[1]).toHaveTextContent("sub-row 0");
+  });
+
+  it("scrolls to rows that are not rendered when using grid navigation", async () => {
+    const manyRows = [...Array(100)].map((_, i) => ({ status: `row ${i}` }));
+    render(
+      <ModularTable
+        columns={[{ accessor: "status", Header: "Status" }]}
+        data={manyRows}
+        gridNavigation
+        virtualize={{ height: 100, rowHeight: 20, overscan: 2 }}
+      />
+    );
+    screen.getByRole("cell", { name: "row 0" }).focus();
+    await userEvent.keyboard("{Control>}{End}{/Control}");
+    expect(screen.getByRole("cell", { name: "row 99" })).toHaveFocus();
+  });
+
+  it("can freeze columns by id", () => {
+    render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        frozenColumns={["ram"]}
+        selectable
+      />
+    );
+    const headers = screen.getAllByRole("columnheader");
+    expect(headers.map((header) => header.textContent)).toEqual([
+      "Select all rows",
+      "RAM",
+      "Status",
+      "Cores",
+      "Disks",
+    ]);
+    // The selection column is frozen with the named columns.
+    expect(screen.getByRole("table")).toHaveClass("p-table--frozen-columns-2");
+  });
+
+  it("can have a sticky header", () => {
+    render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        maxHeight="10rem"
+        stickyHeader
+      />
+    );
+    expect(screen.getByRole("table")).toHaveClass("p-table--sticky-header");
+    expect(screen.getByRole("table").parentElement).toHaveStyle({
+      maxHeight: "10rem",
+      overflow: "auto",
+    });
+  });
+
+  it("can show and hide columns using the column picker", async () => {
+    const onColumnStateChange = jest.fn();
+    render(
+      <ModularTable
+        columnPicker
+        columns={columns}
+        data={data}
+        onColumnStateChange={onColumnStateChange}
+      />
+    );
+    await userEvent.click(screen.getByRole("button", { name: "Columns" }));
+    await userEvent.click(screen.getByRole("checkbox", { name: "RAM" }));
+    expect(
+      screen.queryByRole("columnheader", { name: "RAM" })
+    ).not.toBeInTheDocument();
+    expect(onColumnStateChange).toHaveBeenCalledWith({
+      columnOrder: [],
+      columnWidths: {},
+      hiddenColumns: ["ram"],
+    });
+  });
+
+  it("can reorder columns by dragging the headers", () => {
+    const onColumnStateChange = jest.fn();
+    render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        onColumnStateChange={onColumnStateChange}
+        reorderableColumns
+      />
+    );
+    fireEvent.dragStart(screen.getByRole("columnheader", { name: "Disks" }));
+    fireEvent.drop(screen.getByRole("columnheader", { name: "Status" }));
+    const headers = screen.getAllByRole("columnheader");
+    expect(headers[0]).toHaveTextContent("Disks");
+    expect(headers[1]).toHaveTextContent("Status");
+    expect(onColumnStateChange).toHaveBeenCalledWith({
+      columnOrder: ["disks", "status", "cores", "ram"],
+      columnWidths: {},
+      hiddenColumns: [],
+    });
+  });
+
+  it("displays resizers for resizable columns", () => {
+    render(<ModularTable columns={columns} data={data} resizableColumns />);
+    expect(screen.getAllByRole("separator")).toHaveLength(columns.length);
+  });
+
+  it("can control the column state", () => {
+    const { rerender } = render(
+      <ModularTable
+        columnState={{
+          columnOrder: [],
+          columnWidths: {},
+          hiddenColumns: ["cores"],
+        }}
+        columns={columns}
+        data={data}
+        reorderableColumns
+      />
+    );
+    expect(screen.getAllByRole("columnheader")).toHaveLength(3);
+    rerender(
+      <ModularTable
+        columnState={{
+          columnOrder: ["ram", "status", "cores", "disks"],
+          columnWidths: {},
+          hiddenColumns: [],
+        }}
+        columns={columns}
+        data={data}
+        reorderableColumns
+      />
+    );
+    const headers = screen.getAllByRole("columnheader");
+    expect(headers).toHaveLength(4);
+    expect(headers[0]).toHaveTextContent("RAM");
+    expect(headers[1]).toHaveTextContent("Status");
+  });
+
+  it("restores and persists the table state", async () => {
+    const setState = jest.fn();
+    render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        paginate={2}
+        sortable
+        tableState={{
+          state: {
+            sortBy: [{ id: "status", desc: true }],
+            page: 2,
+            hiddenColumns: ["ram"],
+          },
+          setState,
+        }}
+      />
+    );
+    expect(
+      screen.getByRole("columnheader", { name: "Status" })
+    ).toHaveAttribute("aria-sort", "descending");
+    expect(
+      screen.queryByRole("columnheader", { name: "RAM" })
+    ).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "2" })).toHaveAttribute(
+      "aria-current",
+      "page"
+    );
+    expect(setState).not.toHaveBeenCalled();
+    await userEvent.click(
+      screen.getByRole("button", { name: PaginationButtonLabel.Previous })
+    );
+    expect(setState).toHaveBeenCalledWith({
+      sortBy: [{ id: "status", desc: true }],
+      page: 1,
+      pageSize: 2,
+      hiddenColumns: ["ram"],
+    });
+  });
+
+  it("applies changes to the stored table state", () => {
+    const setState = jest.fn();
+    const { rerender } = render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        paginate={2}
+        sortable
+        tableState={{ state: {}, setState }}
+      />
+    );
+    rerender(
+      <ModularTable
+        columns={columns}
+        data={data}
+        paginate={2}
+        sortable
+        tableState={{
+          state: {
+            sortBy: [{ id: "status", desc: true }],
+            page: 2,
+            hiddenColumns: ["ram"],
+          },
+          setState,
+        }}
+      />
+    );
+    expect(
+      screen.getByRole("columnheader", { name: "Status" })
+    ).toHaveAttribute("aria-sort", "descending");
+    expect(
+      screen.queryByRole("columnheader", { name: "RAM" })
+    ).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "2" })).toHaveAttribute(
+      "aria-current",
+      "page"
+    );
+  });
+
+  it("can group rows", async () => {
+    render(
+      <ModularTable
+        columns={[
+          ...columns,
+          { accessor: "zone", Header: "Zone", aggregate: "count" },
+        ]}
+        data={zonedData}
+        groupBy={["status"]}
+      />
+    );
+    const tableBody = screen.getAllByRole("rowgroup")[1];
+    // Each group has a header row followed by its rows.
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(6);
+    const readyGroup = screen.getByRole("button", { name: "Status: Ready" });
+    expect(readyGroup).toHaveAttribute("aria-expanded", "true");
+    await userEvent.click(readyGroup);
+    expect(readyGroup).toHaveAttribute("aria-expanded", "false");
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(5);
+  });
+
+  it("can start and stop grouping rows", () => {
+    const groupedColumns = [
+      ...columns,
+      { accessor: "zone", Header: "Zone", aggregate: "count" },
+    ];
+    const { rerender } = render(
+      <ModularTable columns={groupedColumns} data={zonedData} />
+    );
+    const tableBody = screen.getAllByRole("rowgroup")[1];
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(data.length);
+    rerender(
+      <ModularTable
+        columns={groupedColumns}
+        data={zonedData}
+        groupBy={["status"]}
+      />
+    );
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(6);
+    rerender(
+      <ModularTable columns={groupedColumns} data={zonedData} groupBy={[]} />
+    );
+    expect(within(tableBody).getAllByRole("row")).toHaveLength(data.length);
+  });
+
+  it("keeps the selection column outside of the group header", () => {
+    render(
+      <ModularTable
+        columns={[
+          { accessor: "zone", Header: "Zone" },
+          { accessor: "status", Header: "Status" },
+          { accessor: "cores", Header: "Cores", aggregate: "sum" },
+        ]}
+        data={zonedData}
+        groupBy={["zone"]}
+        selectable
+      />
+    );
+    const groupRow = screen
+      .getByRole("button", { name: "Zone: a" })
+      .closest("tr");
+    expect(
+      within(groupRow).getByRole("checkbox", { name: "Select row" })
+    ).toBeInTheDocument();
+    const headerCell = screen
+      .getByRole("button", { name: "Zone: a" })
+      .closest("td");
+    expect(headerCell).toHaveAttribute("colspan", "2");
+  });
+
+  it("displays the row count and aggregated values for each group", () => {
+    render(
+      <ModularTable
+        columns={[
+          { accessor: "zone", Header: "Zone" },
+          { accessor: "status", Header: "Status" },
+          { accessor: "cores", Header: "Cores", aggregate: "sum" },
+        ]}
+        data={zonedData}
+        groupBy={["zone"]}
+      />
+    );
+    const groupRow = screen
+      .getByRole("button", { name: "Zone: a" })
+      .closest("tr");
+    const headerCell = within(groupRow).getByRole("gridcell");
+    // The header spans the columns up to the aggregated column.
+    expect(headerCell).toHaveAttribute("colspan", "2");
+    expect(headerCell).toHaveTextContent("2");
+    expect(within(groupRow).getByRole("cell")).toHaveTextContent("9");
+  });
+
+  it("can export the sorted rows", async () => {
+    const onExport = jest.fn().mockReturnValue(false);
+    render(
+      <ModularTable
+        columns={columns}
+        data={data}
+        exportable
+        exportProps={{ onExport }}
+        initialSortColumn="status"
+        paginate={2}
+        sortable
+      />
+    );
+    await userEvent.click(screen.getByRole("button", { name: "Export" }));
+    await userEvent.click(
+      screen.getByRole("button", { name: "All rows as CSV" })
+    );
+    expect(onExport).toHaveBeenCalledWith(
+      {
+        headers: ["Status", "Cores", "RAM", "Disks"],
+        rows: [
+          ["Idle", 8, "3.9 GiB", 3],
+          ["Ready", 1, "1 GiB", 2],
+          ["Waiting", 1, "1 GiB", 2],
+        ],
+      },
+      "csv",
+      "all"
+    );
+    await userEvent.click(screen.getByRole("button", { name: "Export" }));
+    await userEvent.click(
+      screen.getByRole("button", { name: "Visible page as CSV" })
+    );
+    expect(onExport.mock.calls[1][0].rows).toHaveLength(2);
+  });
+
+  it("exports the rows in collapsed groups", async () => {
+    const onExport = jest.fn().mockReturnValue(false);
+    render(
+      <ModularTable
+        columns={[...columns, { accessor: "zone", Header: "Zone" }]}
+        data={zonedData}
+        exportable
+        exportProps={{ onExport }}
+        groupBy={["zone"]}
+      />
+    );
+    await userEvent.click(screen.getByRole("button", { name: "Zone: a" }));
+    await userEvent.click(screen.getByRole("button", { name: "Export" }));
+    await userEvent.click(
+      screen.getByRole("button", { name: "Export as JSON" })
+    );
+    // The grouped column is displayed first.
+    expect(onExport.mock.calls[0][0].rows).toEqual([
+      ["a", "Ready", 1, "1 GiB", 2],
+      ["a", "Idle", 8, "3.9 GiB", 3],
+      ["b", "Waiting", 1, "1 GiB", 2],
+    ]);
+  });
+
+  it("can edit cells in editable columns", async () => {
+    const onCellEdit = jest.fn();
+    const EditableTable = () => {
+      const [rows, setRows] = useState(data);
+      return (
+        <ModularTable
+          columns={[{ ...columns[0], editable: true }, columns[1]]}
+          data={rows}
+          onCellEdit={(row, columnId, value) => {
+            onCellEdit(row.index, columnId, value);
+            setRows(
+              rows.map((original, index) =>
+                index === row.index
+                  ? { ...original, [columnId]: value }
+                  : original
+              )
+            );
+          }}
+        />
+      );
+    };
+    render(<EditableTable />);
+    const [statusCell, coresCell] = screen.getAllByRole("cell");
+    await userEvent.dblClick(coresCell);
+    expect(screen.queryByRole("textbox")).not.toBeInTheDocument();
+    await userEvent.dblClick(statusCell);
+    await userEvent.clear(screen.getByRole("textbox", { name: "Status" }));
+    await userEvent.type(screen.getByRole("textbox"), "Deployed{Enter}");
+    expect(onCellEdit).toHaveBeenCalledWith(0, "status", "Deployed");
+    expect(screen.getAllByRole("cell")[0]).toHaveTextContent("Deployed");
+  });
+
+  it("can edit cells when using grid navigation", async () => {
+    const onCellEdit = jest.fn();
+    render(
+      <ModularTable
+        columns={[columns[0], { ...columns[1], editable: { type: "number" } }]}
+        data={data}
+        gridNavigation
+        onCellEdit={onCellEdit}
+      />
+    );
+    await userEvent.tab();
+    // The grid navigation takes the editable cells out of the tab order.
+    expect(screen.getAllByRole("cell")[1]).toHaveAttribute("tabindex", "-1");
+    await userEvent.keyboard("{ArrowDown}{ArrowRight}{Enter}");
+    const input = screen.getByRole("spinbutton", { name: "Cores" });
+    expect(input).toHaveFocus();
+    // The arrow keys move the cursor in the editor rather than the focus.
+    await userEvent.keyboard("{ArrowLeft}2{Enter}");
+    expect(onCellEdit).toHaveBeenCalledWith(
+      expect.objectContaining({ index: 0 }),
+      "cores",
+      21
+    );
+    expect(screen.getAllByRole("cell")[1]).toHaveFocus();
+  });
+
+  describe("tree", () => {
+    const treeData: Record<string, unknown>[] = [
+      {
+        status: "Pool",
+        subRows: [{ status: "Volume", subRows: [{ status: "Snapshot" }] }],
+      },
+      { status: "Other pool" },
+    ];
+
+    // Get the statuses of the displayed rows, without the expander labels.
+    const getStatuses = () =>
+      within(screen.getAllByRole("rowgroup")[1])
+        .getAllByRole("row")
+        .map((row) =>
+          within(row)
+            .getAllByRole("cell")[0]
+            .textContent.replace(
+              /^((Expand|Collapse) row|Retry loading sub-rows)/,
+              ""
+            )
+        );
+
+    it("can expand and collapse rows", async () => {
+      render(<ModularTable columns={columns} data={treeData} tree />);
+      expect(getStatuses()).toEqual(["Pool", "Other pool"]);
+      await userEvent.click(screen.getByRole("button", { name: "Expand row" }));
+      expect(getStatuses()).toEqual(["Pool", "Volume", "Other pool"]);
+      expect(
+        screen.getAllByRole("button", { name: "Expand row" })
+      ).toHaveLength(1);
+      await userEvent.click(
+        screen.getByRole("button", { name: "Collapse row" })
+      );
+      expect(getStatuses()).toEqual(["Pool", "Other pool"]);
+    });
+
+    it("can expand and collapse rows using the arrow keys", async () => {
+      render(<ModularTable columns={columns} data={treeData} tree />);
+      screen.getByRole("button", { name: "Expand row" }).focus();
+      await userEvent.keyboard("{ArrowRight}");
+      expect(getStatuses()).toEqual(["Pool", "Volume", "Other pool"]);
+      await userEvent.keyboard("{ArrowLeft}");
+      expect(getStatuses()).toEqual(["Pool", "Other pool"]);
+    });
+
+    it("can expand and collapse a focused row using the arrow keys", async () => {
+      render(<ModularTable columns={columns} data={treeData} tree />);
+      screen.getAllByRole("row")[1].focus();
+      await userEvent.keyboard("{ArrowRight}");
+      expect(getStatuses()).toEqual(["Pool", "Volume", "Other pool"]);
+      await userEvent.keyboard("{ArrowLeft}");
+      expect(getStatuses()).toEqual(["Pool", "Other pool"]);
+    });
+
+    it("can expand and collapse all rows using a ref", () => {
+      const treeRef = createRef<ModularTableTreeActions>();
+      render(
+        <ModularTable
+          columns={columns}
+          data={treeData}
+          tree
+          treeRef={treeRef}
+        />
+      );
+      act(() => treeRef.current.expandAll());
+      expect(getStatuses()).toEqual([
+        "Pool",
+        "Volume",
+        "Snapshot",
+        "Other pool",
+      ]);
+      act(() => treeRef.current.collapseAll());
+      expect(getStatuses()).toEqual(["Pool", "Other pool"]);
+    });
+
+    it("can expand and collapse all rows", async () => {
+      render(<ModularTable columns={columns} data={treeData} tree />);
+      await userEvent.click(screen.getByRole("button", { name: "Expand all" }));
+      expect(getStatuses()).toEqual([
+        "Pool",
+        "Volume",
+        "Snapshot",
+        "Other pool",
+      ]);
+      await userEvent.click(
+        screen.getByRole("button", { name: "Collapse all" })
+      );
+      expect(getStatuses()).toEqual(["Pool", "Other pool"]);
+    });
+
+    it("can load sub-rows when a row is expanded", async () => {
+      let resolveSubRows: (subRows: Record<string, unknown>[]) => void;
+      const getSubRows = jest.fn(
+        () =>
+          new Promise<Record<string, unknown>[]>((resolve) => {
+            resolveSubRows = resolve;
+          })
+      );
+      render(
+        <ModularTable
+          columns={columns}
+          data={[{ status: "Pool" }, { status: "Empty pool" }]}
+          getSubRows={getSubRows}
+          hasSubRows={(row) => row.original.status === "Pool"}
+          tree
+        />
+      );
+      expect(
+        screen.getAllByRole("button", { name: "Expand row" })
+      ).toHaveLength(1);
+      await userEvent.click(screen.getByRole("button", { name: "Expand row" }));
+      expect(getSubRows).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "0" })
+      );
+      expect(screen.getByText("Loading")).toBeInTheDocument();
+      await act(async () => resolveSubRows([{ status: "Volume" }]));
+      expect(getStatuses()).toEqual(["Pool", "Volume", "Empty pool"]);
+      expect(
+        screen.getByRole("button", { name: "Collapse row" })
+      ).toBeInTheDocument();
+    });
+
+    const poolData: Record<string, unknown>[] = [{ status: "Pool" }];
+
+    it("keeps the loaded sub-rows when the data is replaced", async () => {
+      const getSubRows = jest.fn().mockResolvedValue([{ status: "Volume" }]);
+      const { rerender } = render(
+        <ModularTable
+          columns={columns}
+          data={poolData}
+          getSubRows={getSubRows}
+          tree
+        />
+      );
+      await userEvent.click(screen.getByRole("button", { name: "Expand row" }));
+      expect(getStatuses()).toEqual(["Pool", "Volume"]);
+      rerender(
+        <ModularTable
+          columns={columns}
+          data={poolData.map((row) => ({ ...row }))}
+          getSubRows={getSubRows}
+          tree
+        />
+      );
+      expect(getStatuses()).toEqual(["Pool", "Volume"]);
+      expect(getSubRows).toHaveBeenCalledTimes(1);
+    });
+
+    it("displays an error if the sub-rows could not be loaded", async () => {
+      const getSubRows = jest
+        .fn()
+        .mockRejectedValueOnce(new Error("Timeout"))
+        .mockResolvedValue([{ status: "Volume" }]);
+      render(
+        <ModularTable
+          columns={columns}
+          data={poolData}
+          getSubRows={getSubRows}
+          tree
+        />
+      );
+      await userEvent.click(screen.getByRole("button", { name: "Expand row" }));
+      expect(getStatuses()).toEqual(["Pool"]);
+      await userEvent.click(
+        screen.getByRole("button", { name: "Retry loading sub-rows" })
+      );
+      expect(getStatuses()).toEqual(["Pool", "Volume"]);
+    });
+  });
 });
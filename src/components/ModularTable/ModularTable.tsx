@@ -1,24 +1,103 @@
-import React, { ReactNode, HTMLProps, useMemo, isValidElement } from "react";
+import React, {
+  ReactNode,
+  HTMLProps,
+  ChangeEvent,
+  DragEvent,
+  MouseEvent,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+  isValidElement,
+} from "react";
+import type { KeyboardEvent, Ref } from "react";
 import {
   TableCellProps,
   TableHeaderProps,
   TableRowProps,
+  TableToggleCommonProps,
   useTable,
+  useColumnOrder,
+  useExpanded,
+  useGroupBy,
+  usePagination,
+  useResizeColumns,
+  useRowSelect,
+  useFilters,
+  useGlobalFilter,
   useSortBy,
 } from "react-table";
 import type {
+  ActionType,
   Column,
+  Filters,
   UseTableOptions,
   Cell,
+  ColumnInstance,
   Row,
   HeaderGroup,
+  Hooks,
+  IdType,
+  PluginHook,
+  SortingRule,
+  TableState,
 } from "react-table";
 import { PropsWithSpread, SortDirection } from "types";
+import { usePrevious, useVirtualRows } from "hooks";
+import type { TableStateHandler, VirtualRowsOptions } from "hooks";
 import Table from "../Table";
+import type { TableProps } from "../Table";
 import TableRow from "../TableRow";
 import TableHeader from "../TableHeader";
 import TableCell from "../TableCell";
-import Icon from "../Icon";
+import Badge from "../Badge";
+import Button from "../Button";
+import Icon, { ICONS } from "../Icon";
+import CheckboxInput from "../CheckboxInput";
+import Pagination from "../Pagination";
+import Spinner from "../Spinner";
+import type { SearchAndFilterQuery } from "../SearchAndFilter";
+import TableErrorRow from "../TableErrorRow";
+import TableExportButton from "../TableExportButton";
+import TableLoadingOverlay from "../TableLoadingOverlay";
+import TableSkeletonRows from "../TableSkeletonRows";
+import type {
+  TableExportButtonProps,
+  TableExportData,
+} from "../TableExportButton";
+import ColumnFilter, { columnFilterTypes } from "./ColumnFilter";
+import ColumnPicker from "./ColumnPicker";
+import EditableCell from "./EditableCell";
+import type { CellEditHandler } from "./EditableCell";
+
+export type ColumnState = {
+  /**
+   * The ids of the columns in the order they are displayed.
+   */
+  columnOrder: string[];
+  /**
+   * The ids of the columns that are hidden.
+   */
+  hiddenColumns: string[];
+  /**
+   * The widths in pixels of the columns that have been resized.
+   */
+  columnWidths: Record<string, number>;
+};
+
+export type TreeActions = {
+  /**
+   * Expand all rows in the tree, loading any sub-rows that have not been
+   * loaded.
+   */
+  expandAll: () => void;
+  /**
+   * Collapse all rows in the tree.
+   */
+  collapseAll: () => void;
+};
 
 export type Props<D extends Record<string, unknown>> = PropsWithSpread<
   {
@@ -31,9 +110,25 @@ export type Props<D extends Record<string, unknown>> = PropsWithSpread<
      */
     data: D[];
     /**
-     * A message to display if data is empty.
+     * A message to display if data is empty, e.g. using the EmptyState
+     * component.
+     */
+    emptyMsg?: ReactNode;
+    /**
+     * Whether the data is loading. Placeholder rows are displayed if there
+     * is no data, otherwise a spinner is displayed over the existing rows.
      */
-    emptyMsg?: string;
+    loading?: boolean;
+    /**
+     * An error to display in place of the rows, e.g. when the data could not
+     * be loaded.
+     */
+    error?: ReactNode;
+    /**
+     * A function that is called to retry loading the data when displaying
+     * an error.
+     */
+    onRetry?: () => void;
     /**
      * Optional extra row to display underneath the main table content.
      */
@@ -73,65 +168,683 @@ export type Props<D extends Record<string, unknown>> = PropsWithSpread<
      * Whether the sort by needs to be reset after each data change.
      */
     autoResetSortBy?: boolean;
+    /**
+     * Whether to display a leading checkbox column that allows rows to be
+     * selected, using the `useRowSelect` plugin.
+     */
+    selectable?: boolean;
+    /**
+     * The selected rows, keyed by the row id (see `getRowId`). Providing this
+     * makes the selection controlled.
+     */
+    selectedRowIds?: Record<IdType<D>, boolean>;
+    /**
+     * A function that is called when the selected rows change.
+     */
+    onSelectionChange?: (
+      selectedRowIds: Record<IdType<D>, boolean>,
+      selectedRows: Row<D>[]
+    ) => void;
+    /**
+     * Content to display above the table when at least one row is selected,
+     * e.g. buttons that act on the selected rows.
+     */
+    bulkActions?: ReactNode | ((selectedRows: Row<D>[]) => ReactNode);
+    /**
+     * Whether the select all checkbox should select the rows on all pages
+     * rather than only the rows on the current page.
+     */
+    selectAllPages?: boolean;
+    /**
+     * Whether the data is sorted, filtered and paginated outside of the
+     * table, e.g. by an API. The provided `data` will be displayed as-is, and
+     * changes to the sort, filters and page should be handled via
+     * `onSortChange`, `onFiltersChange` and `onPageChange`.
+     */
+    manual?: boolean;
+    /**
+     * The columns the table is sorted by. Providing this makes the sort
+     * controlled.
+     */
+    sortBy?: SortingRule<D>[];
+    /**
+     * A function that is called when the sort is changed.
+     */
+    onSortChange?: (sortBy: SortingRule<D>[]) => void;
+    /**
+     * Whether to display a row of filters below the headers, using the
+     * `useFilters` plugin. The filter for each column is set using the
+     * column's `filter` option, which can be "text" (the default), "select",
+     * "range" or "dateRange", or a custom filter can be displayed using the
+     * column's `Filter` option. Filters can be disabled for a column using
+     * `disableFilters`.
+     */
+    filterable?: boolean;
+    /**
+     * The column filters. Providing this makes the filters controlled.
+     */
+    filters?: Filters<D>;
+    /**
+     * A function that is called when the column filters are changed.
+     */
+    onFiltersChange?: (filters: Filters<D>) => void;
+    /**
+     * Text to filter the rows by across all columns, using the
+     * `useGlobalFilter` plugin, e.g. from a `SearchBox`, or a query created
+     * from SearchAndFilter chips using `createSearchAndFilterQuery`, where
+     * the fields are column ids. Columns can be excluded using
+     * `disableGlobalFilter`.
+     */
+    globalFilter?: string | SearchAndFilterQuery;
+    /**
+     * A number of rows to paginate by, using the `usePagination` plugin.
+     */
+    paginate?: number | null;
+    /**
+     * The current page number. Providing this makes the page controlled, so
+     * `onPageChange` must update it for the page to change.
+     */
+    currentPage?: number;
+    /**
+     * A function that is called when the page is changed.
+     */
+    onPageChange?: (page: number) => void;
+    /**
+     * The total number of pages when using manual pagination.
+     */
+    pageCount?: number;
+    /**
+     * The total number of items when using manual pagination.
+     */
+    totalItems?: number;
+    /**
+     * Whether the columns can be resized by dragging the edge of the header,
+     * using the `useResizeColumns` plugin.
+     */
+    resizableColumns?: boolean;
+    /**
+     * Whether the columns can be reordered by dragging the headers, using the
+     * `useColumnOrder` plugin.
+     */
+    reorderableColumns?: boolean;
+    /**
+     * Whether to display a menu that can be used to show and hide columns.
+     */
+    columnPicker?: boolean;
+    /**
+     * The order, visibility and widths of the columns. Providing this makes
+     * the column state controlled.
+     */
+    columnState?: ColumnState;
+    /**
+     * A function that is called when the columns are reordered, shown,
+     * hidden or resized.
+     */
+    onColumnStateChange?: (columnState: ColumnState) => void;
+    /**
+     * Whether to display a menu that can be used to export the sorted rows
+     * as a CSV, TSV or JSON file. The values are taken from the column
+     * accessors rather than the rendered cells.
+     */
+    exportable?: boolean;
+    /**
+     * Additional props to pass to the export menu.
+     */
+    exportProps?: Partial<TableExportButtonProps>;
+    /**
+     * The result of the useTableState hook, used to persist the sort, page,
+     * page size and hidden columns.
+     */
+    tableState?: TableStateHandler;
+    /**
+     * The ids of the columns to group the rows by, using the `useGroupBy` and
+     * `useExpanded` plugins. Each group is displayed with a header row that
+     * can be used to expand and collapse the group. A column can display a
+     * value for each group by setting its `aggregate` option, e.g. "sum",
+     * "count", "min", "max" or "minMax". The rows are not grouped if no
+     * columns are provided.
+     */
+    groupBy?: IdType<D>[];
+    /**
+     * Whether to display the sub-rows as a tree, where each row with sub-rows
+     * can be expanded and collapsed, using the `useExpanded` plugin. Rows can
+     * be expanded with the right arrow key and collapsed with the left arrow
+     * key, and all rows can be expanded or collapsed from the first header.
+     */
+    tree?: boolean;
+    /**
+     * A function that loads the sub-rows of a row when it is first expanded
+     * in a tree.
+     */
+    getSubRows?: (row: Row<D>) => Promise<D[]>;
+    /**
+     * A function that returns whether a row has sub-rows that can be loaded
+     * using `getSubRows`. By default all rows can be expanded until their
+     * sub-rows have been loaded.
+     */
+    hasSubRows?: (row: Row<D>) => boolean;
+    /**
+     * A ref that is given functions to expand or collapse all rows in a tree.
+     */
+    treeRef?: Ref<TreeActions>;
+    /**
+     * A function that is called when a cell in an `editable` column is
+     * edited. Cells can be edited by double clicking them or by pressing
+     * enter, and the value is committed with enter or cancelled with escape.
+     * If this returns a promise that rejects then the value is rolled back
+     * and the error is displayed.
+     */
+    onCellEdit?: CellEditHandler<D>;
+    /**
+     * Whether the cells can be navigated using the keyboard, following the
+     * ARIA grid pattern. The arrow, home, end, page up and page down keys
+     * move between cells, enter moves to the controls inside a cell and
+     * escape moves back to the cell.
+     */
+    gridNavigation?: TableProps["gridNavigation"];
+    /**
+     * The number of leading columns, or the ids of the columns, to keep at
+     * the left edge when scrolling horizontally. Columns given by id are
+     * moved to the start of the table. The selection column is always
+     * frozen along with the other frozen columns. The table is displayed in
+     * a scroll container.
+     * Up to 10 columns can be frozen.
+     */
+    frozenColumns?: number | IdType<D>[];
+    /**
+     * The maximum height of the table's scroll container.
+     */
+    maxHeight?: number | string;
+    /**
+     * Whether the header should stay at the top of the scroll container, or
+     * the page if the table is not in a scroll container.
+     */
+    stickyHeader?: boolean;
+    /**
+     * Options to only render the rows that are visible in a scrolling area
+     * of a given height. The row height is an estimate that is used until a
+     * row has been rendered and measured, so grouped rows and rows that change
+     * height are positioned correctly. It can be a function that returns the
+     * estimated height for a given row.
+     */
+    virtualize?: PropsWithSpread<
+      {
+        rowHeight: number | ((row: Row<D>) => number);
+      },
+      VirtualRowsOptions
+    >;
   },
   HTMLProps<HTMLTableElement>
 >;
 
+const SELECTION_COLUMN_ID = "selection";
+
+const NO_GROUPS: never[] = [];
+
+const SET_SELECTED_ROW_IDS = "setSelectedRowIds";
+
+const SET_COLUMN_STATE = "setColumnState";
+
+const EXPAND_ROWS = "expandRows";
+
+// Moves the frozen columns to the start of the table, after the selection
+// column.
+const useFrozenColumns = <D extends Record<string, unknown>>(
+  hooks: Hooks<D>
+) => {
+  hooks.visibleColumns.push((columns, { instance }) => {
+    const frozenColumns = instance.frozenColumns ?? [];
+    const isFrozen = ({ id }: ColumnInstance<D>) =>
+      id === SELECTION_COLUMN_ID || frozenColumns.includes(id);
+    return [
+      ...columns.filter(isFrozen),
+      ...columns.filter((column) => !isFrozen(column)),
+    ];
+  });
+  hooks.visibleColumnsDeps.push((deps, { instance }) => [
+    ...deps,
+    instance.frozenColumns,
+  ]);
+};
+
+// Handles the actions that set state provided via props.
+const tableStateReducer = <D extends Record<string, unknown>>(
+  newState: TableState<D>,
+  action: ActionType
+): TableState<D> => {
+  switch (action.type) {
+    case SET_SELECTED_ROW_IDS:
+      return { ...newState, selectedRowIds: action.selectedRowIds };
+    case SET_COLUMN_STATE:
+      return {
+        ...newState,
+        columnOrder: action.columnState.columnOrder,
+        hiddenColumns: action.columnState.hiddenColumns,
+        ...(newState.columnResizing
+          ? {
+              columnResizing: {
+                ...newState.columnResizing,
+                columnWidths: action.columnState.columnWidths,
+              },
+            }
+          : {}),
+      };
+    case EXPAND_ROWS:
+      return {
+        ...newState,
+        expanded: {
+          ...newState.expanded,
+          ...Object.fromEntries(
+            action.rowIds.map((id: IdType<D>) => [id, true])
+          ),
+        },
+      };
+    default:
+      return newState;
+  }
+};
+
+const SelectionCheckbox = ({
+  label,
+  onChange,
+  ...props
+}: TableToggleCommonProps & { label: string }) => (
+  <CheckboxInput
+    label={<span className="u-off-screen">{label}</span>}
+    onChange={(event: ChangeEvent<HTMLInputElement>) => onChange?.(event)}
+    {...props}
+  />
+);
+
+// Adds the checkbox column used to select rows before all other columns when
+// the table is selectable.
+const useSelectionColumn = <D extends Record<string, unknown>>(
+  hooks: Hooks<D>
+) => {
+  hooks.visibleColumns.push((columns, { instance }) => {
+    if (!instance.selectable) {
+      return columns;
+    }
+    return [
+      {
+        id: SELECTION_COLUMN_ID,
+        disableFilters: true,
+        disableGlobalFilter: true,
+        disableSortBy: true,
+        Header: ({
+          getToggleAllPageRowsSelectedProps,
+          getToggleAllRowsSelectedProps,
+          page,
+          selectAllPages,
+        }) => (
+          <SelectionCheckbox
+            label="Select all rows"
+            {...(page && !selectAllPages
+              ? getToggleAllPageRowsSelectedProps({ title: undefined })
+              : getToggleAllRowsSelectedProps({ title: undefined }))}
+          />
+        ),
+        Cell: ({ row }: { row: Row<D> }) => (
+          <SelectionCheckbox
+            label="Select row"
+            {...row.getToggleRowSelectedProps({ title: undefined })}
+          />
+        ),
+      },
+      ...columns,
+    ];
+  });
+  hooks.visibleColumnsDeps.push((deps, { instance }) => [
+    ...deps,
+    instance.selectable,
+  ]);
+};
+
+type TreeRows<D extends Record<string, unknown>> = {
+  hasError: (row: Row<D>) => boolean;
+  isExpandable: (row: Row<D>) => boolean;
+  isLoading: (row: Row<D>) => boolean;
+  toggleExpanded: (row: Row<D>, expanded?: boolean) => void;
+};
+
+const TreeRowExpander = <D extends Record<string, unknown>>({
+  row,
+  treeRows,
+}: {
+  row: Row<D>;
+  treeRows: TreeRows<D>;
+}) => {
+  let expander: ReactNode = null;
+  if (treeRows.isLoading(row)) {
+    expander = <Spinner />;
+  } else if (treeRows.hasError(row)) {
+    expander = (
+      <Button
+        appearance="base"
+        className="u-no-margin--bottom"
+        dense
+        hasIcon
+        onClick={() => treeRows.toggleExpanded(row, true)}
+        type="button"
+      >
+        <Icon name={ICONS.error}>Retry loading sub-rows</Icon>
+      </Button>
+    );
+  } else if (treeRows.isExpandable(row)) {
+    expander = (
+      <Button
+        appearance="base"
+        aria-expanded={row.isExpanded ? "true" : "false"}
+        className="u-no-margin--bottom"
+        dense
+        hasIcon
+        onClick={() => treeRows.toggleExpanded(row)}
+        onKeyDown={(event: KeyboardEvent<HTMLButtonElement>) => {
+          if (event.key === "ArrowRight" || event.key === "ArrowLeft") {
+            event.preventDefault();
+            treeRows.toggleExpanded(row, event.key === "ArrowRight");
+          }
+        }}
+        type="button"
+      >
+        <Icon
+          name={ICONS.chevronDown}
+          style={row.isExpanded ? undefined : { transform: "rotate(-90deg)" }}
+        >
+          {row.isExpanded ? "Collapse row" : "Expand row"}
+        </Icon>
+      </Button>
+    );
+  }
+  // The expander is indented to display the depth of the row in the tree.
+  return (
+    <span
+      style={{
+        display: "inline-block",
+        marginLeft: `${row.depth * 1.5}rem`,
+        width: "2.5rem",
+      }}
+    >
+      {expander}
+    </span>
+  );
+};
+
+const isSameSortBy = <D extends Record<string, unknown>>(
+  a: SortingRule<D>[],
+  b: SortingRule<D>[]
+) =>
+  a.length === b.length &&
+  a.every(({ id, desc }, i) => id === b[i].id && !!desc === !!b[i].desc);
+
+// Updates a piece of the table's state when the provided value changes and
+// reports changes to that state that are made from within the table.
+const useSyncedTableState = <T,>(
+  enabled: boolean,
+  value: T | undefined,
+  current: T,
+  isEqual: (a: T, b: T) => boolean,
+  update: (value: T) => void,
+  onChange?: (value: T) => void
+) => {
+  const previous = usePrevious(current);
+  // The latest values are kept in a ref so that the effects only run when
+  // the values they are watching change.
+  const latest = useRef({ current, isEqual, onChange, update, value });
+  latest.current = { current, isEqual, onChange, update, value };
+
+  // Update the table when the provided value changes.
+  useEffect(() => {
+    const { current, isEqual, update } = latest.current;
+    if (enabled && value !== undefined && !isEqual(value, current)) {
+      update(value);
+    }
+  }, [enabled, value]);
+
+  // Report changes that were made from within the table.
+  useEffect(() => {
+    const { isEqual, onChange, value } = latest.current;
+    if (
+      enabled &&
+      current !== previous &&
+      !isEqual(current, value === undefined ? previous : value)
+    ) {
+      onChange?.(current);
+    }
+  }, [current, enabled, previous]);
+};
+
+const isSameList = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((item, i) => item === b[i]);
+
+const isSameFilters = <D extends Record<string, unknown>>(
+  a: Filters<D>,
+  b: Filters<D>
+) =>
+  a.length === b.length &&
+  a.every(
+    ({ id, value }, i) =>
+      id === b[i].id && JSON.stringify(value) === JSON.stringify(b[i].value)
+  );
+
+const isSameColumnState = (a: ColumnState, b: ColumnState) =>
+  isSameList(a.columnOrder, b.columnOrder) &&
+  isSameList(a.hiddenColumns, b.hiddenColumns) &&
+  isSameList(Object.keys(a.columnWidths), Object.keys(b.columnWidths)) &&
+  Object.keys(a.columnWidths).every(
+    (id) => a.columnWidths[id] === b.columnWidths[id]
+  );
+
+// Moves a column to the position of another column.
+const moveColumn = (columnOrder: string[], fromId: string, toId: string) => {
+  const newOrder = columnOrder.filter((id) => id !== fromId);
+  newOrder.splice(columnOrder.indexOf(toId), 0, fromId);
+  return newOrder;
+};
+
+const isSameSelection = <D extends Record<string, unknown>>(
+  a: Record<IdType<D>, boolean>,
+  b: Record<IdType<D>, boolean>
+) => {
+  const selectedA = Object.keys(a).filter((id) => a[id]);
+  const selectedB = Object.keys(b).filter((id) => b[id]);
+  return (
+    selectedA.length === selectedB.length && selectedA.every((id) => b[id])
+  );
+};
+
 const generateCell = <D extends Record<string, unknown>>(
   cell: Cell<D>,
-  getCellProps: Props<D>["getCellProps"]
+  getCellProps: Props<D>["getCellProps"],
+  treeRows?: TreeRows<D>,
+  onCellEdit?: Props<D>["onCellEdit"]
 ) => {
   const hasColumnIcon = cell.column.getCellIcon;
   const iconName = hasColumnIcon && cell.column.getCellIcon?.(cell);
+  const cellProps = cell.getCellProps([
+    {
+      className: cell.column.className,
+    },
+    {
+      className: hasColumnIcon ? "p-table__cell--icon-placeholder" : "",
+    },
+    { ...getCellProps?.(cell) },
+  ]);
+  const { editable } = cell.column;
+
+  if (editable && onCellEdit && !cell.isPlaceholder) {
+    return (
+      <EditableCell<D>
+        cell={cell}
+        editor={editable === true ? {} : editable}
+        onCellEdit={onCellEdit}
+        {...cellProps}
+      >
+        {treeRows && <TreeRowExpander row={cell.row} treeRows={treeRows} />}
+        {iconName && <Icon name={iconName} />}
+      </EditableCell>
+    );
+  }
 
   return (
-    <TableCell
-      {...cell.getCellProps([
-        {
-          className: cell.column.className,
-        },
-        {
-          className: hasColumnIcon ? "p-table__cell--icon-placeholder" : "",
-        },
-        { ...getCellProps?.(cell) },
-      ])}
-    >
+    <TableCell {...cellProps}>
+      {treeRows && <TreeRowExpander row={cell.row} treeRows={treeRows} />}
       {iconName && <Icon name={iconName} />}
-      {cell.render("Cell")}
+      {/* Grouped values are displayed in the group's header row. */}
+      {cell.isPlaceholder ? null : cell.render("Cell")}
     </TableCell>
   );
 };
 
+// Flattens the rows so that any sub-rows are displayed after their parent row.
+const flattenRows = <D extends Record<string, unknown>>(rows: Row<D>[]) => {
+  let flatRows: Row<D>[] = [];
+  rows.forEach((row) => {
+    flatRows.push(row);
+    if (row.subRows?.length) {
+      flatRows = flatRows.concat(flattenRows<D>(row.subRows));
+    }
+  });
+  return flatRows;
+};
+
+// Gets the accessor values of the visible columns, excluding any group
+// header rows.
+const getExportData = <D extends Record<string, unknown>>(
+  columns: ColumnInstance<D>[],
+  rows: Row<D>[]
+): TableExportData => ({
+  headers: columns.map(({ Header, id }) =>
+    typeof Header === "string" || typeof Header === "number"
+      ? String(Header)
+      : id
+  ),
+  rows: rows
+    .filter(({ isGrouped }) => !isGrouped)
+    .map(({ values }) => columns.map(({ id }) => values[id])),
+});
+
+// Displays a group's header row, which spans the columns up to the first
+// column that displays an aggregated value for the group. The selection
+// checkbox is kept in its own column so that the whole group can be selected.
+const generateGroupRow = <D extends Record<string, unknown>>(
+  row: Row<D>,
+  getRowProps: Props<D>["getRowProps"],
+  getCellProps: Props<D>["getCellProps"]
+) => {
+  const groupCell = row.cells.find(({ column }) => column.id === row.groupByID);
+  const groupStart = row.cells[0]?.column.id === SELECTION_COLUMN_ID ? 1 : 0;
+  const firstAggregate = row.cells.findIndex(
+    ({ column }) => !!column.aggregate
+  );
+  const groupEnd =
+    firstAggregate > groupStart ? firstAggregate : row.cells.length;
+  return (
+    <TableRow {...row.getRowProps(getRowProps?.(row))}>
+      {row.cells.slice(0, groupStart).map((cell) => (
+        <TableCell
+          {...cell.getCellProps([
+            { className: cell.column.className },
+            { ...getCellProps?.(cell) },
+          ])}
+        >
+          {cell.render("Cell")}
+        </TableCell>
+      ))}
+      <TableCell colSpan={groupEnd - groupStart}>
+        <Button
+          appearance="base"
+          aria-expanded={row.isExpanded ? "true" : "false"}
+          className="u-no-margin--bottom"
+          dense
+          hasIcon
+          onClick={() => row.toggleRowExpanded()}
+          style={{ marginLeft: `${row.depth * 1.5}rem` }}
+          type="button"
+        >
+          <Icon name={row.isExpanded ? ICONS.chevronUp : ICONS.chevronDown} />
+          <span>
+            {groupCell?.column.render("Header")}: {groupCell?.render("Cell")}
+          </span>
+        </Button>
+        <Badge value={row.leafRows.length} />
+      </TableCell>
+      {row.cells.slice(groupEnd).map((cell) => (
+        <TableCell
+          {...cell.getCellProps([
+            { className: cell.column.className },
+            { ...getCellProps?.(cell) },
+          ])}
+        >
+          {cell.isAggregated ? cell.render("Aggregated") : null}
+        </TableCell>
+      ))}
+    </TableRow>
+  );
+};
+
 const generateRows = <D extends Record<string, unknown>>(
   rows: Row<D>[],
   prepareRow: (row: Row<D>) => void,
   getRowProps: Props<D>["getRowProps"],
-  getCellProps: Props<D>["getCellProps"]
-) => {
-  let tableRows: ReactNode[] = [];
-  rows.forEach((row) => {
+  getCellProps: Props<D>["getCellProps"],
+  treeRows?: TreeRows<D> & { columnId: IdType<D> },
+  onCellEdit?: Props<D>["onCellEdit"],
+  virtualStartIndex?: number
+) =>
+  rows.map((row, index) => {
     // This function is responsible for lazily preparing a row for rendering.
     // Any row that you intend to render in your table needs to be passed to this function before every render.
     // see: https://react-table.tanstack.com/docs/api/useTable#instance-properties
     prepareRow(row);
-    tableRows.push(
-      <TableRow {...row.getRowProps(getRowProps?.(row))}>
-        {row.cells.map((cell) => generateCell<D>(cell, getCellProps))}
+    // Virtualized rows are tagged with their index so that they can be measured.
+    const getProps: Props<D>["getRowProps"] =
+      virtualStartIndex === undefined
+        ? getRowProps
+        : (row) => ({
+            ...getRowProps?.(row),
+            "data-virtual-index": virtualStartIndex + index,
+          });
+    if (row.isGrouped) {
+      return generateGroupRow<D>(row, getProps, getCellProps);
+    }
+    // Rows in a tree can also be expanded and collapsed when they have focus.
+    const treeRowProps: ReturnType<Props<D>["getRowProps"]> =
+      treeRows?.isExpandable(row)
+        ? {
+            tabIndex: -1,
+            onKeyDown: (event: KeyboardEvent<HTMLTableRowElement>) => {
+              if (
+                event.target === event.currentTarget &&
+                (event.key === "ArrowRight" || event.key === "ArrowLeft")
+              ) {
+                event.preventDefault();
+                treeRows.toggleExpanded(row, event.key === "ArrowRight");
+              }
+            },
+          }
+        : {};
+    return (
+      <TableRow {...row.getRowProps([treeRowProps, { ...getProps?.(row) }])}>
+        {row.cells.map((cell) =>
+          generateCell<D>(
+            cell,
+            getCellProps,
+            cell.column.id === treeRows?.columnId ? treeRows : undefined,
+            onCellEdit
+          )
+        )}
       </TableRow>
     );
-    if (row.subRows?.length) {
-      tableRows = tableRows.concat(
-        generateRows<D>(row.subRows, prepareRow, getRowProps, getCellProps)
-      );
-    }
   });
-  return tableRows;
-};
 
 function ModularTable<D extends Record<string, unknown>>({
   data,
   columns,
   emptyMsg,
+  loading,
+  error,
+  onRetry,
   footer,
   sortable,
   getHeaderProps,
@@ -141,9 +854,87 @@ function ModularTable<D extends Record<string, unknown>>({
   initialSortColumn,
   initialSortDirection,
   autoResetSortBy = false,
+  selectable,
+  selectedRowIds,
+  onSelectionChange,
+  bulkActions,
+  selectAllPages,
+  manual = false,
+  sortBy,
+  onSortChange,
+  filterable,
+  filters,
+  onFiltersChange,
+  globalFilter,
+  paginate,
+  currentPage,
+  onPageChange,
+  pageCount,
+  totalItems,
+  resizableColumns,
+  reorderableColumns,
+  columnPicker,
+  columnState,
+  onColumnStateChange,
+  exportable,
+  exportProps,
+  tableState,
+  groupBy,
+  tree,
+  getSubRows,
+  hasSubRows,
+  treeRef,
+  onCellEdit,
+  gridNavigation,
+  frozenColumns,
+  maxHeight,
+  stickyHeader,
+  virtualize,
   ...props
 }: Props<D>): JSX.Element {
-  const sortBy = useMemo(
+  // Rows are expanded when they are grouped or displayed as a tree. Loaded
+  // sub-rows are stored by row id so that they are kept when the data is
+  // replaced, e.g. when it is refreshed.
+  const [loadedSubRows, setLoadedSubRows] = useState(
+    () => new Map<IdType<D>, D[]>()
+  );
+  const [loadingRowIds, setLoadingRowIds] = useState<IdType<D>[]>([]);
+  const [failedRowIds, setFailedRowIds] = useState<IdType<D>[]>([]);
+  const loadsSubRows = !!getSubRows;
+  const subRowsByOriginal = useMemo(() => {
+    const subRows = new Map<D, D[]>();
+    if (!loadsSubRows) {
+      return subRows;
+    }
+    // The row ids are generated in the same way as react-table.
+    const addRows = (originals: D[], parentId?: IdType<D>) =>
+      originals.forEach((original, index) => {
+        const id = getRowId
+          ? getRowId(
+              original,
+              index,
+              parentId === undefined ? undefined : ({ id: parentId } as Row<D>)
+            )
+          : parentId === undefined
+          ? String(index)
+          : `${parentId}.${index}`;
+        const children =
+          loadedSubRows.get(id) ?? (original.subRows as D[]) ?? [];
+        subRows.set(original, children);
+        addRows(children, id);
+      });
+    addRows(data);
+    return subRows;
+  }, [data, getRowId, loadedSubRows, loadsSubRows]);
+  const getTableSubRows = useCallback(
+    (original: D) => subRowsByOriginal.get(original) ?? [],
+    [subRowsByOriginal]
+  );
+  const storedState = tableState?.state;
+  // A stored page size takes precedence over the default page size.
+  const pageSize = paginate ? storedState?.pageSize ?? paginate : paginate;
+  const draggedColumnId = useRef<string | null>(null);
+  const initialSortBy = useMemo(
     () =>
       initialSortColumn
         ? [
@@ -155,21 +946,408 @@ function ModularTable<D extends Record<string, unknown>>({
         : [],
     [initialSortColumn, initialSortDirection]
   );
-  const { getTableProps, getTableBodyProps, headerGroups, rows, prepareRow } =
-    useTable<D>(
-      {
-        columns,
-        data,
-        getRowId: getRowId || undefined,
-        initialState: {
-          sortBy,
-        },
-        autoResetSortBy,
+  // The plugins need to be provided in the order that react-table expects.
+  // All of the plugins are always used, and are disabled through the table
+  // options, so that features can be turned on and off without changing the
+  // hooks that the table uses.
+  const plugins: PluginHook<D>[] = [
+    useColumnOrder,
+    useFilters,
+    useGlobalFilter,
+    useGroupBy,
+    useSortBy,
+    useExpanded,
+    usePagination,
+    useResizeColumns,
+    useRowSelect,
+    useSelectionColumn,
+    useFrozenColumns,
+  ];
+  const {
+    getTableProps,
+    getTableBodyProps,
+    headerGroups,
+    rows,
+    page,
+    prepareRow,
+    visibleColumns,
+    selectedFlatRows,
+    state,
+    dispatch,
+    setSortBy,
+    setAllFilters,
+    setGlobalFilter,
+    gotoPage,
+    setPageSize,
+    setHiddenColumns,
+    allColumns,
+    setColumnOrder,
+    onlyGroupedFlatRows,
+    flatRows,
+    preExpandedRows,
+    isAllRowsExpanded,
+    toggleAllRowsExpanded,
+  } = useTable<D>(
+    {
+      columns,
+      data,
+      getRowId: getRowId || undefined,
+      ...(getSubRows ? { getSubRows: getTableSubRows } : {}),
+      initialState: {
+        sortBy: sortBy ?? storedState?.sortBy ?? initialSortBy,
+        ...(selectedRowIds ? { selectedRowIds } : {}),
+        ...(paginate
+          ? {
+              pageSize,
+              pageIndex: (currentPage ?? storedState?.page ?? 1) - 1,
+            }
+          : {}),
+        groupBy: groupBy ?? NO_GROUPS,
+        ...(filters ? { filters } : {}),
+        ...(globalFilter ? { globalFilter } : {}),
+        ...(storedState?.hiddenColumns
+          ? { hiddenColumns: storedState.hiddenColumns }
+          : {}),
+        ...(columnState
+          ? {
+              columnOrder: columnState.columnOrder,
+              hiddenColumns: columnState.hiddenColumns,
+              columnResizing: {
+                columnWidth: 0,
+                columnWidths: columnState.columnWidths,
+                headerIdWidths: {},
+              },
+            }
+          : {}),
       },
-      sortable ? useSortBy : undefined
-    );
+      autoResetSortBy,
+      autoResetSelectedRows: false,
+      // The page is not reset when it is controlled or persisted.
+      autoResetPage: !manual && currentPage === undefined && !tableState,
+      autoResetExpanded: false,
+      // The filters are not reset when the data changes as the data may
+      // have been filtered outside of the table.
+      autoResetFilters: false,
+      autoResetGlobalFilter: false,
+      // Features are disabled rather than removing the plugins when they are
+      // not being used.
+      disableSortBy: !sortable,
+      manualSortBy: manual || !sortable,
+      disableFilters: !filterable,
+      disableGlobalFilter: globalFilter === undefined,
+      manualFilters: manual || !filterable,
+      manualGlobalFilter: manual || globalFilter === undefined,
+      // All of the rows are on one page when not paginating.
+      manualPagination: manual || !paginate,
+      disableResizing: !resizableColumns,
+      selectable: !!selectable,
+      // The page count is calculated from the rows unless paginating manually.
+      ...(manual ? { pageCount: pageCount ?? -1 } : {}),
+      ...(Array.isArray(frozenColumns) ? { frozenColumns } : {}),
+      filterTypes: columnFilterTypes,
+      // Queries from SearchAndFilter chips match using their fields.
+      globalFilter:
+        globalFilter && typeof globalFilter === "object" ? "query" : "text",
+      selectAllPages,
+      stateReducer: tableStateReducer,
+    },
+    ...plugins
+  );
 
-  const showEmpty: boolean = !!emptyMsg && (!rows || rows.length === 0);
+  useSyncedTableState(
+    !!selectable,
+    selectedRowIds,
+    state.selectedRowIds,
+    isSameSelection,
+    (selectedRowIds) =>
+      dispatch({ type: SET_SELECTED_ROW_IDS, selectedRowIds }),
+    (selectedRowIds) => onSelectionChange?.(selectedRowIds, selectedFlatRows)
+  );
+
+  useSyncedTableState(
+    !!sortable,
+    sortBy,
+    state.sortBy,
+    isSameSortBy,
+    setSortBy,
+    onSortChange
+  );
+
+  useSyncedTableState(
+    !!filterable,
+    filters,
+    state.filters,
+    isSameFilters,
+    setAllFilters,
+    onFiltersChange
+  );
+
+  // The global filter is cleared when it is no longer provided.
+  useSyncedTableState(
+    true,
+    globalFilter ?? "",
+    state.globalFilter,
+    (a, b) => (a || "") === (b || ""),
+    setGlobalFilter
+  );
+
+  // When the page is controlled the parent is asked to change the page
+  // rather than the table changing it.
+  const changePage = (page: number) => {
+    if (currentPage === undefined) {
+      gotoPage(page - 1);
+    } else {
+      onPageChange?.(page);
+    }
+  };
+
+  useSyncedTableState(
+    !!paginate,
+    currentPage,
+    state.pageIndex + 1,
+    (a, b) => a === b,
+    (page) => gotoPage(page - 1),
+    onPageChange
+  );
+
+  // An empty list of columns turns off grouping.
+  useSyncedTableState(
+    true,
+    groupBy ?? NO_GROUPS,
+    state.groupBy,
+    isSameList,
+    // The react-table types don't include the `setGroupBy` function.
+    (groupBy) => dispatch({ type: "setGroupBy", value: groupBy })
+  );
+
+  // Groups are expanded when they first appear, after which they can be
+  // collapsed.
+  const expandedGroupIds = useRef(new Set<string>());
+  useEffect(() => {
+    const newGroupIds = (onlyGroupedFlatRows ?? [])
+      .map(({ id }) => id)
+      .filter((id) => !expandedGroupIds.current.has(id));
+    if (newGroupIds.length) {
+      newGroupIds.forEach((id) => expandedGroupIds.current.add(id));
+      dispatch({ type: EXPAND_ROWS, rowIds: newGroupIds });
+    }
+  }, [onlyGroupedFlatRows, dispatch]);
+
+  const isTreeRowLoaded = (row: Row<D>) =>
+    row.subRows.length > 0 || loadedSubRows.has(row.id);
+
+  const loadSubRows = (row: Row<D>) => {
+    setFailedRowIds((ids) => ids.filter((id) => id !== row.id));
+    setLoadingRowIds((ids) => [...ids, row.id]);
+    getSubRows(row)
+      .then(
+        (subRows) =>
+          setLoadedSubRows((loaded) => new Map(loaded).set(row.id, subRows)),
+        // Collapse the row again if its sub-rows could not be loaded, and
+        // display an error that can be used to retry loading them.
+        () => {
+          row.toggleRowExpanded(false);
+          setFailedRowIds((ids) => [...ids, row.id]);
+        }
+      )
+      .finally(() =>
+        setLoadingRowIds((ids) => ids.filter((id) => id !== row.id))
+      );
+  };
+
+  // Whether a row's sub-rows need to be loaded before it can be expanded.
+  const needsSubRows = (row: Row<D>) =>
+    !!getSubRows &&
+    !isTreeRowLoaded(row) &&
+    !loadingRowIds.includes(row.id) &&
+    (hasSubRows ? hasSubRows(row) : true);
+
+  const treeRows: TreeRows<D> = {
+    hasError: (row) => failedRowIds.includes(row.id),
+    isExpandable: (row) => row.subRows.length > 0 || needsSubRows(row),
+    isLoading: (row) => loadingRowIds.includes(row.id),
+    toggleExpanded: (row, expanded = !row.isExpanded) => {
+      row.toggleRowExpanded(expanded);
+      if (expanded && needsSubRows(row)) {
+        loadSubRows(row);
+      }
+    },
+  };
+
+  const expandAll = () => {
+    toggleAllRowsExpanded(true);
+    flatRows.filter(needsSubRows).forEach(loadSubRows);
+  };
+
+  const collapseAll = () => toggleAllRowsExpanded(false);
+
+  useImperativeHandle(treeRef, () => ({ expandAll, collapseAll }));
+
+  // The column widths are only reported once a column has finished resizing.
+  const isResizingColumn = !!state.columnResizing?.isResizingColumn;
+  const resizedColumnWidths = useRef(state.columnResizing?.columnWidths);
+  if (!isResizingColumn) {
+    resizedColumnWidths.current = state.columnResizing?.columnWidths;
+  }
+  const columnWidths = resizedColumnWidths.current;
+  const currentColumnState = useMemo(
+    () => ({
+      columnOrder: state.columnOrder ?? [],
+      hiddenColumns: state.hiddenColumns ?? [],
+      columnWidths: columnWidths ?? {},
+    }),
+    [state.columnOrder, state.hiddenColumns, columnWidths]
+  );
+
+  useSyncedTableState(
+    !!(resizableColumns || reorderableColumns || columnPicker),
+    columnState,
+    currentColumnState,
+    isSameColumnState,
+    (columnState) => dispatch({ type: SET_COLUMN_STATE, columnState }),
+    onColumnStateChange
+  );
+
+  const setTableState = tableState?.setState;
+  const viewState = useMemo(
+    () => ({
+      ...(sortable
+        ? { sortBy: state.sortBy.map(({ id, desc }) => ({ id, desc })) }
+        : {}),
+      ...(paginate ? { page: state.pageIndex + 1, pageSize } : {}),
+      hiddenColumns: state.hiddenColumns ?? [],
+    }),
+    [
+      sortable,
+      state.sortBy,
+      paginate,
+      state.pageIndex,
+      pageSize,
+      state.hiddenColumns,
+    ]
+  );
+  const previousViewState = usePrevious(viewState);
+  // Persist the view state when it is changed.
+  useEffect(() => {
+    if (viewState !== previousViewState) {
+      setTableState?.(viewState);
+    }
+  }, [viewState, previousViewState, setTableState]);
+
+  // Apply the stored state when it is changed outside of the table, e.g. when
+  // navigating back to a previous query string.
+  useSyncedTableState(
+    !!sortable && !!tableState && sortBy === undefined,
+    storedState?.sortBy,
+    state.sortBy,
+    isSameSortBy,
+    setSortBy
+  );
+
+  useSyncedTableState(
+    !!paginate && !!tableState && currentPage === undefined,
+    storedState?.page,
+    state.pageIndex + 1,
+    (a, b) => a === b,
+    (page) => gotoPage(page - 1)
+  );
+
+  useSyncedTableState(
+    !!paginate,
+    pageSize || undefined,
+    state.pageSize,
+    (a, b) => a === b,
+    setPageSize
+  );
+
+  useSyncedTableState(
+    !!tableState && !columnState,
+    storedState?.hiddenColumns,
+    state.hiddenColumns ?? [],
+    isSameList,
+    setHiddenColumns
+  );
+
+  // Handlers for reordering the columns by dragging and dropping the headers.
+  const getColumnDragProps = (
+    column: HeaderGroup<D>
+  ): Partial<TableHeaderProps & HTMLProps<HTMLTableHeaderCellElement>> =>
+    reorderableColumns && column.id !== SELECTION_COLUMN_ID
+      ? {
+          draggable: true,
+          onDragStart: () => {
+            draggedColumnId.current = column.id;
+          },
+          onDragOver: (event: DragEvent<HTMLTableHeaderCellElement>) => {
+            // Allow the header to be a drop target.
+            event.preventDefault();
+          },
+          onDrop: (event: DragEvent<HTMLTableHeaderCellElement>) => {
+            event.preventDefault();
+            const fromId = draggedColumnId.current;
+            draggedColumnId.current = null;
+            if (fromId && fromId !== column.id) {
+              setColumnOrder(
+                moveColumn(
+                  allColumns
+                    .map(({ id }) => id)
+                    .filter((id) => id !== SELECTION_COLUMN_ID),
+                  fromId,
+                  column.id
+                )
+              );
+            }
+          },
+        }
+      : {};
+
+  // Whether the rows are grouped or displayed as a tree, in which case the
+  // rows in expanded groups have already been included.
+  const expandable = !!state.groupBy?.length || !!tree;
+  // When paginated only the rows on the current page are displayed.
+  const pageRows = useMemo(() => {
+    const currentRows = paginate ? page : rows;
+    return expandable ? currentRows : flattenRows(currentRows);
+  }, [expandable, paginate, page, rows]);
+  const virtualRowHeight = virtualize?.rowHeight;
+  const getRowHeight = useCallback(
+    (index: number) =>
+      typeof virtualRowHeight === "function"
+        ? virtualRowHeight(pageRows[index])
+        : virtualRowHeight,
+    [virtualRowHeight, pageRows]
+  );
+  const virtualRowKeys = useMemo(
+    () => pageRows.map(({ id }) => id),
+    [pageRows]
+  );
+  const {
+    startIndex,
+    endIndex,
+    paddingTop,
+    paddingBottom,
+    onScroll,
+    measureRef,
+    scrollToIndex,
+  } = useVirtualRows(virtualize ? pageRows.length : 0, {
+    height: virtualize?.height ?? 0,
+    overscan: virtualize?.overscan,
+    rowHeight: getRowHeight,
+    rowKeys: virtualize ? virtualRowKeys : undefined,
+  });
+  // When virtualized only the rows in the visible area are rendered.
+  const displayedRows = virtualize
+    ? pageRows.slice(startIndex, endIndex)
+    : pageRows;
+  const paginationTotal = manual
+    ? totalItems ?? (pageCount ?? 0) * pageSize
+    : rows.length;
+
+  const hasRows = rows?.length > 0;
+  // Placeholder rows are displayed while loading the first rows.
+  const showSkeleton = !!loading && !hasRows && !error;
+  const showEmpty: boolean = !!emptyMsg && !hasRows && !loading && !error;
+  const showBulkActions = !!bulkActions && selectedFlatRows?.length > 0;
 
   // Function returns whether table can be sorted by a specific column.
   // Returns true if sorting is enabled for the column and there is text
@@ -191,8 +1369,59 @@ function ModularTable<D extends Record<string, unknown>>({
     return column.isSortedDesc ? "descending" : "ascending";
   };
 
-  return (
-    <Table {...getTableProps()} {...props}>
+  // The global filter replaces `canFilter` on each column, so whether the
+  // column can be filtered is checked directly.
+  const isColumnFilterable = (column: ColumnInstance<D>) =>
+    !!column.accessor && !column.disableFilters;
+
+  // The tree expander is displayed in the first column after the selection
+  // checkbox.
+  const treeColumnId = visibleColumns.find(
+    ({ id }) => id !== SELECTION_COLUMN_ID
+  )?.id;
+
+  // The selection column is frozen along with the frozen columns.
+  const frozenCount = Array.isArray(frozenColumns)
+    ? visibleColumns.filter(
+        ({ id }) => id === SELECTION_COLUMN_ID || frozenColumns.includes(id)
+      ).length
+    : (frozenColumns ?? 0) + (frozenColumns && selectable ? 1 : 0);
+
+  const table = (
+    <Table
+      {...getTableProps()}
+      aria-busy={loading || undefined}
+      frozenColumns={frozenCount}
+      gridNavigation={
+        gridNavigation && {
+          ...(typeof gridNavigation === "object" ? gridNavigation : {}),
+          // The number of rows is not known when the rows can be expanded.
+          rowCount: expandable
+            ? undefined
+            : paginate
+            ? paginationTotal
+            : pageRows.length,
+          rowIndexOffset:
+            (paginate ? state.pageIndex * pageSize : 0) +
+            (virtualize ? startIndex : 0),
+          scrollToRow: (rowIndex: number) => {
+            let pageRowIndex = rowIndex;
+            if (paginate) {
+              const pageIndex = Math.floor(rowIndex / pageSize);
+              if (pageIndex !== state.pageIndex) {
+                changePage(pageIndex + 1);
+              }
+              pageRowIndex -= pageIndex * pageSize;
+            }
+            if (virtualize) {
+              scrollToIndex(pageRowIndex);
+            }
+          },
+        }
+      }
+      stickyHeader={stickyHeader || !!virtualize}
+      {...props}
+    >
       <thead>
         {headerGroups.map((headerGroup) => (
           <TableRow {...headerGroup.getHeaderGroupProps()}>
@@ -209,33 +1438,196 @@ function ModularTable<D extends Record<string, unknown>>({
                       : "",
                   },
                   { ...getHeaderProps?.(column) },
+                  resizableColumns
+                    ? {
+                        style: {
+                          position: "relative",
+                          width: column.totalWidth,
+                        },
+                      }
+                    : {},
+                  getColumnDragProps(column),
                   // Only call this if we want it to be sortable too.
                   sortable && isColumnSortable(column)
                     ? column.getSortByToggleProps({ title: undefined })
                     : {},
                 ])}
               >
+                {tree && column.id === treeColumnId && (
+                  <Button
+                    appearance="base"
+                    className="u-no-margin--bottom"
+                    dense
+                    hasIcon
+                    onClick={(event: MouseEvent) => {
+                      // Prevent the column from being sorted.
+                      event.stopPropagation();
+                      isAllRowsExpanded ? collapseAll() : expandAll();
+                    }}
+                    type="button"
+                  >
+                    <Icon
+                      name={ICONS.chevronDown}
+                      style={
+                        isAllRowsExpanded
+                          ? undefined
+                          : { transform: "rotate(-90deg)" }
+                      }
+                    >
+                      {isAllRowsExpanded ? "Collapse all" : "Expand all"}
+                    </Icon>
+                  </Button>
+                )}
                 {column.render("Header")}
+                {resizableColumns && column.canResize && (
+                  <span
+                    {...column.getResizerProps({
+                      // Prevent the column from being sorted when resizing.
+                      onClick: (event: MouseEvent) => event.stopPropagation(),
+                      style: {
+                        bottom: 0,
+                        position: "absolute",
+                        right: 0,
+                        top: 0,
+                        width: "0.5rem",
+                      },
+                    })}
+                  />
+                )}
               </TableHeader>
             ))}
           </TableRow>
         ))}
+        {filterable && (
+          <TableRow>
+            {visibleColumns.map((column) => (
+              <TableHeader className={column.className} key={column.id}>
+                {isColumnFilterable(column) &&
+                  (column.Filter ? (
+                    column.render("Filter")
+                  ) : (
+                    <ColumnFilter column={column} />
+                  ))}
+              </TableHeader>
+            ))}
+          </TableRow>
+        )}
       </thead>
       <tbody {...getTableBodyProps()}>
-        {generateRows(rows, prepareRow, getRowProps, getCellProps)}
+        {/* The error is displayed in place of any existing rows. */}
+        {error ? (
+          <TableErrorRow
+            columnCount={visibleColumns.length}
+            error={error}
+            onRetry={onRetry}
+          />
+        ) : (
+          <>
+            {showSkeleton && (
+              <TableSkeletonRows columnCount={visibleColumns.length} />
+            )}
+            {virtualize && paddingTop > 0 && (
+              <tr aria-hidden="true" style={{ height: paddingTop }} />
+            )}
+            {generateRows(
+              displayedRows,
+              prepareRow,
+              getRowProps,
+              getCellProps,
+              tree ? { ...treeRows, columnId: treeColumnId } : undefined,
+              onCellEdit,
+              virtualize ? startIndex : undefined
+            )}
+            {virtualize && paddingBottom > 0 && (
+              <tr aria-hidden="true" style={{ height: paddingBottom }} />
+            )}
+          </>
+        )}
         {showEmpty && (
           <TableRow>
-            <TableCell colSpan={columns.length}>{emptyMsg}</TableCell>
+            <TableCell colSpan={visibleColumns.length}>{emptyMsg}</TableCell>
           </TableRow>
         )}
         {footer && (
           <TableRow>
-            <TableCell colSpan={columns.length}>{footer}</TableCell>
+            <TableCell colSpan={visibleColumns.length}>{footer}</TableCell>
           </TableRow>
         )}
       </tbody>
     </Table>
   );
+
+  const scrollableTable = virtualize ? (
+    <div
+      onScroll={onScroll}
+      ref={measureRef}
+      style={{
+        height: virtualize.height,
+        maxHeight,
+        overflow: "auto",
+      }}
+    >
+      {table}
+    </div>
+  ) : frozenCount || maxHeight ? (
+    <div style={{ maxHeight, overflow: "auto" }}>{table}</div>
+  ) : (
+    table
+  );
+
+  return (
+    <>
+      {(columnPicker || exportable) && (
+        <div className="u-align--right">
+          {exportable && (
+            <TableExportButton
+              getData={(scope) =>
+                getExportData(
+                  visibleColumns.filter(({ id }) => id !== SELECTION_COLUMN_ID),
+                  // The rows from before they were expanded are used so that
+                  // the sub-rows of collapsed rows are also exported.
+                  scope === "page"
+                    ? pageRows
+                    : flattenRows(expandable ? preExpandedRows : rows)
+                )
+              }
+              paginated={!!paginate}
+              {...exportProps}
+            />
+          )}
+          {columnPicker && (
+            <ColumnPicker
+              columns={allColumns.filter(
+                ({ id }) => id !== SELECTION_COLUMN_ID
+              )}
+            />
+          )}
+        </div>
+      )}
+      {showBulkActions && (
+        <div className="u-sv1">
+          {typeof bulkActions === "function"
+            ? bulkActions(selectedFlatRows)
+            : bulkActions}
+        </div>
+      )}
+      {/* The overlay is only displayed when refreshing existing rows. It is
+      always rendered so that the table is not remounted when the loading
+      state changes. */}
+      <TableLoadingOverlay loading={!!loading && !showSkeleton}>
+        {scrollableTable}
+      </TableLoadingOverlay>
+      {paginate && paginationTotal > 0 && (
+        <Pagination
+          currentPage={state.pageIndex + 1}
+          itemsPerPage={pageSize}
+          paginate={changePage}
+          style={{ marginTop: "1rem" }}
+          totalItems={paginationTotal}
+        />
+      )}
+    </>
+  );
 }
 
 export default ModularTable;
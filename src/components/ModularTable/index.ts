@@ -1,2 +1,11 @@
 export { default } from "./ModularTable";
-export type { Props as ModularTableProps } from "./ModularTable";
+export type {
+  Props as ModularTableProps,
+  ColumnState as ModularTableColumnState,
+  TreeActions as ModularTableTreeActions,
+} from "./ModularTable";
+export type {
+  CellEditHandler as ModularTableCellEditHandler,
+  CellEditor as ModularTableCellEditor,
+} from "./EditableCell";
+export type { ColumnFilterType as ModularTableColumnFilterType } from "./ColumnFilter";
@@ -312,6 +312,29 @@ it("closes the search form when clicking on the overlay", async () => {
   expect(screen.queryByRole("searchbox")).not.toBeInTheDocument();
 });
 
+it("displays suggestions for the search", async () => {
+  const onSelectSuggestion = jest.fn();
+  render(
+    <Navigation
+      logo={<img src="" alt="" />}
+      searchProps={{
+        getSuggestions: () => [{ value: "Ubuntu" }],
+        onSelectSuggestion,
+        suggestionDelay: 0,
+      }}
+    />
+  );
+  await userEvent.click(screen.getAllByRole("button", { name: "Search" })[0]);
+  await userEvent.type(screen.getByRole("combobox"), "ubu");
+  await userEvent.click(
+    await screen.findByRole("option", {
+      // The highlighted characters split the accessible name.
+      name: (_name, element) => element.textContent === "Ubuntu",
+    })
+  );
+  expect(onSelectSuggestion).toHaveBeenCalledWith({ value: "Ubuntu" });
+});
+
 it("closes the mobile menu when opening the search form", async () => {
   render(
     <Navigation
@@ -54,7 +54,8 @@ export type Props = PropsWithSpread<
     rightNavProps?: HTMLProps<HTMLUListElement> | null;
     /**
      * Props to pass to the SearchBox component. When these props are provided the
-     * search box will appear.
+     * search box will appear. Provide `getSuggestions` to display suggestions
+     * for global search.
      */
     searchProps?: SubComponentProps<SearchBoxProps> | null;
     /**
@@ -282,7 +283,7 @@ const Navigation = ({
             // form then this search box is displayed.
             hasSearch ? (
               <div className="p-navigation__search" aria-hidden={!searchOpen}>
-                <SearchBox ref={searchRef} />
+                <SearchBox {...searchProps} ref={searchRef} />
               </div>
             ) : null
           }
@@ -1,7 +1,11 @@
-import { render, screen } from "@testing-library/react";
+import { act, render, screen } from "@testing-library/react";
 import React from "react";
 
-import FilterPanelSection from "./FilterPanelSection";
+import FilterPanelSection, { Label } from "./FilterPanelSection";
+import {
+  clearSearchAndFilterChipsCache,
+  MAX_CACHED_SEARCHES,
+} from "./useLoadedChips";
 import userEvent from "@testing-library/user-event";
 
 const sampleData = {
@@ -38,19 +42,37 @@ describe("Filter panel section", () => {
       document.querySelector(".p-filter-panel-section")
     ).toBeInTheDocument();
     expect(
-      screen.getByRole("button", { name: "us-east1" })
+      screen.getByRole("option", { name: "us-east1" })
     ).toBeInTheDocument();
     expect(
-      screen.getByRole("button", { name: "us-east2" })
+      screen.getByRole("option", { name: "us-east2" })
     ).toBeInTheDocument();
     expect(
-      screen.getByRole("button", { name: "us-east3" })
+      screen.getByRole("option", { name: "us-east3" })
     ).toBeInTheDocument();
     expect(
       screen.getByRole("heading", { name: "Regions" })
     ).toBeInTheDocument();
   });
 
+  it("gives the options unique ids and no pressed state", () => {
+    render(
+      <FilterPanelSection
+        searchData={[]}
+        searchTerm=""
+        toggleSelected={jest.fn()}
+        data={{
+          ...sampleData,
+          chips: [{ value: "us-east1" }, { value: "us-east1" }],
+        }}
+      />
+    );
+    const [first, second] = screen.getAllByRole("option");
+    expect(first.id).not.toBe(second.id);
+    expect(first).not.toHaveAttribute("aria-pressed");
+    expect(first).toHaveAttribute("aria-selected", "false");
+  });
+
   it("should hide chip overflow counter when none overflow", () => {
     // Jest is unaware of layout so we must mock the offsetTop and offsetHeight
     // of the chips
@@ -128,4 +150,291 @@ describe("Filter panel section", () => {
       document.querySelector(".p-filter-panel-section__chips")
     ).toHaveAttribute("aria-expanded", "true");
   });
+
+  it("creates chips with the selected operator", async () => {
+    const toggleSelected = jest.fn();
+    render(
+      <FilterPanelSection
+        data={{
+          id: 1,
+          heading: "Memory",
+          chips: [{ lead: "Memory", value: "16GB" }],
+          operators: ["=", ">", "<"],
+        }}
+        searchData={[{ lead: "Memory", operator: "=", value: "16GB" }]}
+        searchTerm=""
+        toggleSelected={toggleSelected}
+      />
+    );
+    const chip = screen.getByRole("option", { name: "MEMORY 16GB" });
+    expect(chip).toHaveAttribute("aria-selected", "true");
+    await userEvent.selectOptions(
+      screen.getByRole("combobox", { name: `${Label.OperatorFor} Memory` }),
+      "greater than"
+    );
+    expect(chip).toHaveAttribute("aria-selected", "false");
+    await userEvent.click(chip);
+    expect(toggleSelected).toHaveBeenCalledWith({
+      lead: "Memory",
+      operator: ">",
+      value: "16GB",
+    });
+  });
+
+  it("shows the matching chips from the best to the worst match", () => {
+    render(
+      <FilterPanelSection
+        data={{
+          id: 1,
+          heading: "Tags",
+          chips: [
+            { value: "a-gpu-machine" },
+            { value: "cpu" },
+            { value: "gpu" },
+            { value: "Gràphics processing unit" },
+          ],
+        }}
+        searchData={[]}
+        searchTerm="gpu"
+        toggleSelected={jest.fn()}
+      />
+    );
+    expect(
+      screen.getAllByRole("option").map(({ textContent }) => textContent)
+    ).toEqual(["gpu", "a-gpu-machine", "Gràphics processing unit"]);
+  });
+
+  it("handles search terms with special characters", () => {
+    render(
+      <FilterPanelSection
+        data={{
+          id: 1,
+          heading: "Tags",
+          chips: [{ value: "gpu (new)" }, { value: "cpu" }],
+        }}
+        searchData={[]}
+        searchTerm="(n"
+        toggleSelected={jest.fn()}
+      />
+    );
+    expect(
+      screen.getAllByRole("option").map(({ textContent }) => textContent)
+    ).toEqual(["gpu (new)"]);
+  });
+
+  describe("loading chips", () => {
+    const renderLoader = (
+      loadChips: jest.Mock,
+      props: Partial<React.ComponentProps<typeof FilterPanelSection>> = {}
+    ) =>
+      render(
+        <FilterPanelSection
+          data={{ id: 1, heading: "Owners", loadChips }}
+          loadDelay={0}
+          searchData={[]}
+          searchTerm=""
+          toggleSelected={jest.fn()}
+          {...props}
+        />
+      );
+
+    it("loads the chips for the search term", async () => {
+      const loadChips = jest.fn().mockResolvedValue({
+        chips: [{ lead: "Owner", value: "jane" }],
+      });
+      // Use a search term that is not highlighted in the chips.
+      renderLoader(loadChips, { searchTerm: "owner" });
+      expect(screen.getByText(Label.Loading)).toBeInTheDocument();
+      expect(
+        await screen.findByRole("option", { name: "OWNER jane" })
+      ).toBeInTheDocument();
+      expect(screen.queryByText(Label.Loading)).not.toBeInTheDocument();
+      expect(loadChips).toHaveBeenCalledWith(
+        expect.objectContaining({ page: 1, searchTerm: "owner" })
+      );
+    });
+
+    it("waits for the search term to stop changing", async () => {
+      jest.useFakeTimers();
+      const loadChips = jest.fn().mockResolvedValue({ chips: [] });
+      const { rerender } = renderLoader(loadChips, {
+        loadDelay: 300,
+        searchTerm: "j",
+      });
+      act(() => {
+        jest.advanceTimersByTime(200);
+      });
+      rerender(
+        <FilterPanelSection
+          data={{ id: 1, heading: "Owners", loadChips }}
+          loadDelay={300}
+          searchData={[]}
+          searchTerm="ja"
+          toggleSelected={jest.fn()}
+        />
+      );
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+      expect(loadChips).toHaveBeenCalledTimes(1);
+      expect(loadChips).toHaveBeenCalledWith(
+        expect.objectContaining({ searchTerm: "ja" })
+      );
+      jest.useRealTimers();
+    });
+
+    it("does not load the chips when the panel is hidden", () => {
+      const loadChips = jest.fn().mockResolvedValue({ chips: [] });
+      renderLoader(loadChips, { panelHidden: true });
+      expect(loadChips).not.toHaveBeenCalled();
+    });
+
+    it("can load more chips", async () => {
+      const loadChips = jest
+        .fn()
+        .mockResolvedValueOnce({ chips: [{ value: "jane" }], hasMore: true })
+        .mockResolvedValueOnce({ chips: [{ value: "jack" }] });
+      renderLoader(loadChips);
+      await userEvent.click(
+        await screen.findByRole("button", { name: Label.LoadMore })
+      );
+      expect(
+        await screen.findByRole("option", { name: "jack" })
+      ).toBeInTheDocument();
+      expect(screen.getByRole("option", { name: "jane" })).toBeInTheDocument();
+      expect(
+        screen.queryByRole("button", { name: Label.LoadMore })
+      ).not.toBeInTheDocument();
+      expect(loadChips).toHaveBeenLastCalledWith(
+        expect.objectContaining({ page: 2, searchTerm: "" })
+      );
+    });
+
+    it("uses the cached chips when displayed again", async () => {
+      const loadChips = jest.fn().mockResolvedValue({
+        chips: [{ value: "jane" }],
+      });
+      const { unmount } = renderLoader(loadChips);
+      await screen.findByRole("option", { name: "jane" });
+      unmount();
+      renderLoader(loadChips);
+      expect(screen.getByRole("option", { name: "jane" })).toBeInTheDocument();
+      expect(loadChips).toHaveBeenCalledTimes(1);
+    });
+
+    it("loads the chips again when given a new loader", async () => {
+      const loadChips = jest.fn().mockResolvedValue({
+        chips: [{ value: "jane" }],
+      });
+      const loadOtherChips = jest.fn().mockResolvedValue({
+        chips: [{ value: "jack" }],
+      });
+      const { rerender } = renderLoader(loadChips);
+      await screen.findByRole("option", { name: "jane" });
+      rerender(
+        <FilterPanelSection
+          data={{ id: 1, heading: "Owners", loadChips: loadOtherChips }}
+          loadDelay={0}
+          searchData={[]}
+          searchTerm=""
+          toggleSelected={jest.fn()}
+        />
+      );
+      expect(
+        await screen.findByRole("option", { name: "jack" })
+      ).toBeInTheDocument();
+      expect(
+        screen.queryByRole("option", { name: "jane" })
+      ).not.toBeInTheDocument();
+      expect(loadChips).toHaveBeenCalledTimes(1);
+      expect(loadOtherChips).toHaveBeenCalledTimes(1);
+    });
+
+    it("limits the number of cached searches", async () => {
+      const loadChips = jest.fn(({ searchTerm }) =>
+        Promise.resolve({ chips: [{ value: searchTerm }] })
+      );
+      const { rerender } = renderLoader(loadChips, { searchTerm: "term-0" });
+      await screen.findByRole("option", { name: "term-0" });
+      for (let i = 1; i <= MAX_CACHED_SEARCHES; i++) {
+        rerender(
+          <FilterPanelSection
+            data={{ id: 1, heading: "Owners", loadChips }}
+            loadDelay={0}
+            searchData={[]}
+            searchTerm={`term-${i}`}
+            toggleSelected={jest.fn()}
+          />
+        );
+        await screen.findByRole("option", { name: `term-${i}` });
+      }
+      expect(loadChips).toHaveBeenCalledTimes(MAX_CACHED_SEARCHES + 1);
+      // The first search is no longer cached so it is loaded again.
+      rerender(
+        <FilterPanelSection
+          data={{ id: 1, heading: "Owners", loadChips }}
+          loadDelay={0}
+          searchData={[]}
+          searchTerm="term-0"
+          toggleSelected={jest.fn()}
+        />
+      );
+      await screen.findByRole("option", { name: "term-0" });
+      expect(loadChips).toHaveBeenCalledTimes(MAX_CACHED_SEARCHES + 2);
+    });
+
+    it("loads the chips again when the key changes", async () => {
+      const loadChips = jest
+        .fn()
+        .mockResolvedValueOnce({ chips: [{ value: "jane" }] })
+        .mockResolvedValueOnce({ chips: [{ value: "jack" }] });
+      const renderWithKey = (chipsKey: string) => (
+        <FilterPanelSection
+          data={{ id: 1, chipsKey, heading: "Owners", loadChips }}
+          loadDelay={0}
+          searchData={[]}
+          searchTerm=""
+          toggleSelected={jest.fn()}
+        />
+      );
+      const { rerender } = render(renderWithKey("owners-1"));
+      await screen.findByRole("option", { name: "jane" });
+      rerender(renderWithKey("owners-2"));
+      expect(
+        await screen.findByRole("option", { name: "jack" })
+      ).toBeInTheDocument();
+      expect(loadChips).toHaveBeenCalledTimes(2);
+    });
+
+    it("can clear the cached chips", async () => {
+      const loadChips = jest.fn().mockResolvedValue({
+        chips: [{ value: "jane" }],
+      });
+      const { unmount } = renderLoader(loadChips, {
+        data: { id: 1, chipsKey: "owners", heading: "Owners", loadChips },
+      });
+      await screen.findByRole("option", { name: "jane" });
+      unmount();
+      clearSearchAndFilterChipsCache("owners");
+      renderLoader(loadChips, {
+        data: { id: 1, chipsKey: "owners", heading: "Owners", loadChips },
+      });
+      await screen.findByRole("option", { name: "jane" });
+      expect(loadChips).toHaveBeenCalledTimes(2);
+    });
+
+    it("can retry when the chips fail to load", async () => {
+      const loadChips = jest
+        .fn()
+        .mockRejectedValueOnce(new Error("Failed"))
+        .mockResolvedValueOnce({ chips: [{ value: "jane" }] });
+      renderLoader(loadChips);
+      expect(await screen.findByText(Label.LoadError)).toBeInTheDocument();
+      await userEvent.click(screen.getByRole("button", { name: Label.Retry }));
+      expect(
+        await screen.findByRole("option", { name: "jane" })
+      ).toBeInTheDocument();
+      expect(screen.queryByText(Label.LoadError)).not.toBeInTheDocument();
+    });
+  });
 });
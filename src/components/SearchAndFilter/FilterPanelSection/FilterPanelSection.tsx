@@ -1,14 +1,63 @@
+import classNames from "classnames";
 import React, { useEffect, useRef, useState } from "react";
+import Button from "../../Button";
 import Chip from "../../Chip";
+import Select from "../../Select";
+import Spinner from "../../Spinner";
 import { overflowingChipsCount, isChipInArray } from "../utils";
-import { highlightSubString } from "../../../utils";
-import type { SearchAndFilterChip, SearchAndFilterData } from "../types";
+import {
+  fuzzyMatch,
+  highlightFuzzyMatch,
+  rankFuzzyMatches,
+} from "../../../utils";
+import type {
+  SearchAndFilterChip,
+  SearchAndFilterData,
+  SearchAndFilterOperator,
+} from "../types";
+import { useLoadedChips } from "./useLoadedChips";
+import { useId } from "hooks";
+
+import "./FilterPanelSection.scss";
+
+export enum Label {
+  Loading = "Loading",
+  LoadError = "The filters could not be loaded.",
+  LoadMore = "Load more",
+  OperatorFor = "Operator for",
+  Retry = "Retry",
+}
+
+export const LOAD_CHIPS_DELAY = 300;
+
+export const OPERATOR_LABELS: Record<SearchAndFilterOperator, string> = {
+  "=": "is",
+  "!=": "is not",
+  ">": "greater than",
+  "<": "less than",
+  contains: "contains",
+  "starts with": "starts with",
+};
 
 export type Props = {
+  /**
+   * The id of the chip that is active when navigating with the keyboard.
+   */
+  activeChipId?: string | null;
   /**
    * The chip data to display in the panel.
    */
   data: SearchAndFilterData;
+  /**
+   * How long to wait for the search term to stop changing before loading the
+   * chips, in milliseconds.
+   */
+  loadDelay?: number;
+  /**
+   * Whether the filter panel is hidden, in which case the chips are not
+   * loaded.
+   */
+  panelHidden?: boolean;
   /**
    * The current search chips.
    */
@@ -28,19 +77,38 @@ export type Props = {
 };
 
 const FilterPanelSection = ({
+  activeChipId,
   data,
+  loadDelay = LOAD_CHIPS_DELAY,
+  panelHidden = false,
   searchData,
   searchTerm = "",
   sectionHidden,
   toggleSelected,
 }: Props): JSX.Element => {
-  const { chips, heading } = data;
+  const { chipsKey, heading, loadChips, operators } = data;
+  const loaded = useLoadedChips(
+    loadChips,
+    searchTerm,
+    loadDelay,
+    !panelHidden,
+    chipsKey
+  );
+  // Chips from a loader have already been matched to the search term.
+  const chips = loadChips ? loaded.chips : data.chips;
   const [overflowCounter, setOverflowCounter] = useState(0);
   const [expanded, setExpanded] = useState(false);
+  const [operator, setOperator] = useState(operators?.[0]);
+  const operatorSelectId = useId();
+  const chipIdPrefix = useId();
   const chipWrapper = useRef(null);
 
+  // Chips are created with the selected operator, if there is one.
+  const withOperator = (chip: SearchAndFilterChip) =>
+    operator ? { ...chip, operator } : chip;
+
   const handleChipClick = (chip) => {
-    toggleSelected(chip);
+    toggleSelected(withOperator(chip));
   };
 
   // If the offsetTop is more than double height of a single chip, consider it
@@ -51,23 +119,34 @@ const FilterPanelSection = ({
     setOverflowCounter(overflowCount);
   };
 
-  // Check if search term characters matches any characters in panel heading
-  const searchTermInHeading = highlightSubString(heading, searchTerm).match;
+  // Check if search term characters match the panel heading
+  const headingMatch = fuzzyMatch(heading, searchTerm);
+  const searchTermInHeading = !!headingMatch?.indices.length;
 
-  // Serialise chip values into string so it can be interrogated with subString
-  const chipValues = [];
-  Object.entries(chips).forEach((chipValue) => {
-    chipValues.push(chipValue[1].value);
-  });
+  // Chips from a loader are shown as they are loaded, otherwise the chips that
+  // match the search term are shown from the best to the worst match.
+  const matchingChips =
+    loadChips || searchTerm === ""
+      ? chips
+      : rankFuzzyMatches(chips, searchTerm, ({ value }) => value).map(
+          ({ item }) => item
+        );
+  const searchTermInChips = matchingChips.length > 0;
 
-  // Search chips for character match with search term
-  const searchTermInChips = highlightSubString(
-    chipValues.toString(),
-    searchTerm
-  ).match;
+  // If the heading matches then all the chips are shown, with the matching
+  // chips first.
+  const visibleChips = searchTermInHeading
+    ? [
+        ...matchingChips,
+        ...chips.filter((chip) => !matchingChips.includes(chip)),
+      ]
+    : matchingChips;
 
   const panelSectionVisible =
-    searchTermInHeading || searchTermInChips || searchTerm === "";
+    !!loadChips ||
+    searchTermInHeading ||
+    searchTermInChips ||
+    searchTerm === "";
 
   // Update overflow count when component is resized
   useEffect(() => {
@@ -96,38 +175,66 @@ const FilterPanelSection = ({
     <>
       {panelSectionVisible && (
         <div className="p-filter-panel-section">
-          {heading && chips.length > 0 && (
-            <h3
-              className="p-filter-panel-section__heading"
-              dangerouslySetInnerHTML={{
-                __html: highlightSubString(heading, searchTerm).text,
-              }}
+          {heading && (chips.length > 0 || !!loadChips) && (
+            <h3 className="p-filter-panel-section__heading">
+              {highlightFuzzyMatch(heading, headingMatch)}
+            </h3>
+          )}
+          {operators?.length > 0 && (
+            <Select
+              id={operatorSelectId}
+              label={`${Label.OperatorFor} ${heading}`}
+              labelClassName="u-off-screen"
+              onChange={(event) =>
+                setOperator(event.target.value as SearchAndFilterOperator)
+              }
+              options={operators.map((operatorOption) => ({
+                label: OPERATOR_LABELS[operatorOption],
+                value: operatorOption,
+              }))}
+              value={operator}
+              wrapperClassName="u-no-margin--bottom"
             />
           )}
           <div
             className="p-filter-panel-section__chips"
             aria-expanded={expanded}
+            aria-label={heading}
+            aria-multiselectable
             ref={chipWrapper}
+            role="listbox"
           >
-            {chips?.map((chip) => {
-              // If search term has been added to input, only matching chips
-              // should display
-              const searchTermInChip = highlightSubString(
-                chip.value,
-                searchTerm
-              ).match;
-              const chipVisible =
-                searchTermInChip ||
-                searchTerm === "" ||
-                highlightSubString(heading, searchTerm).match;
+            {visibleChips.map((chip, index) => {
+              // The id is based on the chip rather than its position so that
+              // the active chip does not change when the chips change. The
+              // index of any earlier chips with the same lead and value keeps
+              // the id unique.
+              const duplicateIndex = visibleChips
+                .slice(0, index)
+                .filter(
+                  ({ lead, value }) =>
+                    lead === chip.lead && value === chip.value
+                ).length;
+              const chipId = `${chipIdPrefix}-${duplicateIndex}-${encodeURIComponent(
+                `${chip.lead ?? ""}:${chip.value}`
+              )}`;
+              const selected = isChipInArray(withOperator(chip), searchData);
               return (
-                chipVisible &&
                 !sectionHidden && (
                   <Chip
-                    key={`${chip.lead}+${chip.value}`}
+                    aria-selected={selected}
+                    id={chipId}
+                    key={chipId}
                     lead={chip.lead}
+                    role="option"
+                    className={classNames({
+                      "is-active": chipId === activeChipId,
+                    })}
+                    // The chips are reached using the arrow keys in the
+                    // search input instead of tabbing through each chip.
+                    tabIndex={-1}
                     value={chip.value}
-                    selected={isChipInArray(chip, searchData)}
+                    selected={selected}
                     subString={searchTerm}
                     onClick={() => handleChipClick(chip)}
                   />
@@ -145,6 +252,35 @@ const FilterPanelSection = ({
               </span>
             )}
           </div>
+          {loaded.loading ? (
+            <Spinner text={Label.Loading} />
+          ) : (
+            <>
+              {!!loaded.error && (
+                <p className="p-form-validation__message">
+                  {Label.LoadError}{" "}
+                  <Button
+                    appearance="link"
+                    className="u-no-margin--bottom"
+                    onClick={loaded.loadNextPage}
+                    type="button"
+                  >
+                    {Label.Retry}
+                  </Button>
+                </p>
+              )}
+              {loaded.hasMore && !loaded.error && (
+                <Button
+                  appearance="link"
+                  className="u-no-margin--bottom"
+                  onClick={loaded.loadNextPage}
+                  type="button"
+                >
+                  {Label.LoadMore}
+                </Button>
+              )}
+            </>
+          )}
         </div>
       )}
     </>
@@ -0,0 +1,151 @@
+import { useState } from "react";
+
+import { useDebouncedLoader } from "hooks";
+
+import type { SearchAndFilterChip, SearchAndFilterChipsLoader } from "../types";
+
+type LoadedChips = {
+  chips: SearchAndFilterChip[];
+  hasMore: boolean;
+  page: number;
+  searchTerm: string;
+};
+
+export type LoadedChipsState = {
+  chips: SearchAndFilterChip[];
+  error: unknown;
+  hasMore: boolean;
+  loading: boolean;
+  // Load the next page, or the page that failed to load.
+  loadNextPage: () => void;
+};
+
+type ChipsCache = {
+  // Identifies the cache so that the chips are loaded again when a different
+  // cache is used, e.g. for a new loader or after the cache is cleared.
+  id: number;
+  searches: Map<string, LoadedChips>;
+};
+
+// The number of keys and the number of search terms for each key or loader
+// that chips are cached for, so that the cache does not keep growing while
+// the page is open.
+export const MAX_CACHED_KEYS = 20;
+export const MAX_CACHED_SEARCHES = 50;
+
+// The loaded chips for each section's key, or for each loader if the section
+// does not have a key, and each search term. These are kept between renders
+// so that reopening the panel or repeating a search does not load them again.
+// The chips for a loader are removed along with the loader once it is no
+// longer used.
+const keyedCache = new Map<string, ChipsCache>();
+let loaderCache = new WeakMap<SearchAndFilterChipsLoader, ChipsCache>();
+let nextCacheId = 0;
+
+// Add an entry to a map, removing the oldest entries once it is full.
+const setLimited = <K, V>(map: Map<K, V>, key: K, value: V, limit: number) => {
+  map.delete(key);
+  map.set(key, value);
+  while (map.size > limit) {
+    map.delete(map.keys().next().value);
+  }
+};
+
+const getCache = (key: string | SearchAndFilterChipsLoader) => {
+  let chipsCache =
+    typeof key === "string" ? keyedCache.get(key) : loaderCache.get(key);
+  if (!chipsCache) {
+    chipsCache = { id: nextCacheId++, searches: new Map() };
+    if (typeof key === "string") {
+      setLimited(keyedCache, key, chipsCache, MAX_CACHED_KEYS);
+    } else {
+      loaderCache.set(key, chipsCache);
+    }
+  }
+  return chipsCache;
+};
+
+/**
+ * Clear the cached chips that have been loaded for filter panel sections, so
+ * that they are loaded again the next time they are displayed.
+ * @param key - The section's `chipsKey`. If not provided, the chips for all
+ * sections are cleared.
+ */
+export const clearSearchAndFilterChipsCache = (key?: string): void => {
+  if (key === undefined) {
+    keyedCache.clear();
+    loaderCache = new WeakMap();
+  } else {
+    keyedCache.delete(key);
+  }
+};
+
+/**
+ * Load the chips for a filter panel section for the current search term.
+ * @param loadChips - The function that loads a page of chips.
+ * @param searchTerm - The search term to load the chips for.
+ * @param delay - How long to wait for the search term to stop changing before
+ * loading the chips, in milliseconds.
+ * @param enabled - Whether the chips can be loaded, e.g. when the panel is
+ * open.
+ * @param chipsKey - The key to cache the chips with. The chips are loaded
+ * again when this changes. If not provided, the chips are cached for the
+ * loader and are loaded again when the loader changes.
+ */
+export const useLoadedChips = (
+  loadChips: SearchAndFilterChipsLoader | undefined,
+  searchTerm: string,
+  delay: number,
+  enabled: boolean,
+  chipsKey?: string
+): LoadedChipsState => {
+  // The page that has been requested for the search term.
+  const [requested, setRequested] = useState({ page: 1, searchTerm });
+  const page = requested.searchTerm === searchTerm ? requested.page : 1;
+  const chipsCache = loadChips ? getCache(chipsKey ?? loadChips) : null;
+  const cached = chipsCache?.searches.get(searchTerm);
+  const needsLoad = enabled && !!loadChips && (!cached || cached.page < page);
+  // The chips for the next page are added to the chips that have already
+  // been loaded.
+  const previous = cached?.page === page - 1 ? cached : null;
+  const { error, loading, retry } = useDebouncedLoader<LoadedChips>(
+    needsLoad
+      ? ({ signal }) =>
+          loadChips({ page, searchTerm, signal }).then(({ chips, hasMore }) => {
+            const loaded = {
+              chips: [...(previous?.chips ?? []), ...chips],
+              hasMore: !!hasMore,
+              page,
+              searchTerm,
+            };
+            if (!signal.aborted) {
+              setLimited(
+                chipsCache.searches,
+                searchTerm,
+                loaded,
+                MAX_CACHED_SEARCHES
+              );
+            }
+            return loaded;
+          })
+      : null,
+    JSON.stringify([chipsCache?.id, searchTerm, page]),
+    // Only wait for the search term to stop changing when loading the first
+    // page.
+    page > 1 ? 0 : delay
+  );
+
+  return {
+    chips: cached?.chips ?? [],
+    error,
+    hasMore: !!cached?.hasMore,
+    loading,
+    loadNextPage: () => {
+      if (error || !cached) {
+        retry();
+      } else {
+        setRequested({ page: cached.page + 1, searchTerm });
+      }
+    },
+  };
+};
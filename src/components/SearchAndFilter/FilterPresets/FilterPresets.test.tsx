@@ -0,0 +1,107 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import React from "react";
+
+import FilterPresets, { Label } from "./FilterPresets";
+import type { SearchAndFilterPresetStorage } from "../presets";
+
+const getStorage = (): SearchAndFilterPresetStorage => ({
+  load: () => [
+    { chips: [{ lead: "Cloud", value: "AWS" }], id: "1", name: "AWS" },
+  ],
+  save: jest.fn(),
+});
+
+describe("FilterPresets", () => {
+  it("applies a preset", async () => {
+    const onApply = jest.fn();
+    render(
+      <FilterPresets
+        chips={[]}
+        onApply={onApply}
+        presetsKey="machines"
+        storage={getStorage()}
+      />
+    );
+    await userEvent.click(screen.getByRole("button", { name: "AWS" }));
+    expect(onApply).toHaveBeenCalledWith({
+      chips: [{ lead: "Cloud", value: "AWS" }],
+      id: "1",
+      name: "AWS",
+    });
+  });
+
+  it("saves the current chips", async () => {
+    const storage = getStorage();
+    render(
+      <FilterPresets
+        chips={[{ value: "gpu" }]}
+        onApply={jest.fn()}
+        presetsKey="machines"
+        storage={storage}
+      />
+    );
+    await userEvent.click(
+      screen.getByRole("button", { name: Label.SaveCurrent })
+    );
+    await userEvent.type(
+      screen.getByRole("textbox", { name: Label.Name }),
+      "GPUs{Enter}"
+    );
+    expect(screen.getByRole("button", { name: "GPUs" })).toBeInTheDocument();
+    expect(storage.save).toHaveBeenCalledWith("machines", [
+      expect.objectContaining({ name: "AWS" }),
+      expect.objectContaining({ chips: [{ value: "gpu" }], name: "GPUs" }),
+    ]);
+  });
+
+  it("can not save when there are no chips", () => {
+    render(
+      <FilterPresets
+        chips={[]}
+        onApply={jest.fn()}
+        presetsKey="machines"
+        storage={getStorage()}
+      />
+    );
+    expect(
+      screen.getByRole("button", { name: Label.SaveCurrent })
+    ).toBeDisabled();
+  });
+
+  it("renames a preset", async () => {
+    render(
+      <FilterPresets
+        chips={[]}
+        onApply={jest.fn()}
+        presetsKey="machines"
+        storage={getStorage()}
+      />
+    );
+    await userEvent.click(
+      screen.getByRole("button", { name: `${Label.Rename} AWS` })
+    );
+    const input = screen.getByRole("textbox", { name: Label.Name });
+    await userEvent.clear(input);
+    await userEvent.type(input, "Amazon");
+    await userEvent.click(screen.getByRole("button", { name: Label.Save }));
+    expect(screen.getByRole("button", { name: "Amazon" })).toBeInTheDocument();
+  });
+
+  it("deletes a preset", async () => {
+    render(
+      <FilterPresets
+        chips={[]}
+        onApply={jest.fn()}
+        presetsKey="machines"
+        storage={getStorage()}
+      />
+    );
+    await userEvent.click(
+      screen.getByRole("button", { name: `${Label.Delete} AWS` })
+    );
+    expect(
+      screen.queryByRole("button", { name: "AWS" })
+    ).not.toBeInTheDocument();
+  });
+});
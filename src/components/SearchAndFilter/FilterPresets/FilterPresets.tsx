@@ -0,0 +1,166 @@
+import React, { useState } from "react";
+
+import Button from "../../Button";
+import Input from "../../Input";
+import { useSearchAndFilterPresets } from "../presets";
+import type {
+  SearchAndFilterPreset,
+  SearchAndFilterPresetStorage,
+} from "../presets";
+import type { SearchAndFilterChip } from "../types";
+
+export enum Label {
+  Cancel = "Cancel",
+  Delete = "Delete",
+  Heading = "Saved filters",
+  Name = "Name",
+  Rename = "Rename",
+  Save = "Save",
+  SaveCurrent = "Save current filters",
+}
+
+export type Props = {
+  /**
+   * The current chips, which can be saved as a preset.
+   */
+  chips: SearchAndFilterChip[];
+  /**
+   * A function that is called when a preset is selected.
+   */
+  onApply: (preset: SearchAndFilterPreset) => void;
+  /**
+   * A key that identifies the presets in the storage.
+   */
+  presetsKey: string;
+  /**
+   * Where to store the presets.
+   */
+  storage?: SearchAndFilterPresetStorage;
+};
+
+type NameFormProps = {
+  initialName?: string;
+  onCancel: () => void;
+  onSubmit: (name: string) => void;
+};
+
+const NameForm = ({
+  initialName = "",
+  onCancel,
+  onSubmit,
+}: NameFormProps): JSX.Element => {
+  const [name, setName] = useState(initialName);
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (name.trim()) {
+          onSubmit(name.trim());
+        }
+      }}
+    >
+      <Input
+        label={Label.Name}
+        onChange={(event) => setName(event.target.value)}
+        takeFocus
+        type="text"
+        value={name}
+      />
+      <Button appearance="positive" disabled={!name.trim()} small type="submit">
+        {Label.Save}
+      </Button>
+      <Button onClick={onCancel} small type="button">
+        {Label.Cancel}
+      </Button>
+    </form>
+  );
+};
+
+const FilterPresets = ({
+  chips,
+  onApply,
+  presetsKey,
+  storage,
+}: Props): JSX.Element => {
+  const { deletePreset, presets, renamePreset, savePreset } =
+    useSearchAndFilterPresets(presetsKey, storage);
+  const [saving, setSaving] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+
+  return (
+    <div className="p-filter-panel-section">
+      <h3 className="p-filter-panel-section__heading">{Label.Heading}</h3>
+      {presets.length > 0 && (
+        <ul className="p-list">
+          {presets.map((preset) => (
+            <li className="p-list__item" key={preset.id}>
+              {renamingId === preset.id ? (
+                <NameForm
+                  initialName={preset.name}
+                  onCancel={() => setRenamingId(null)}
+                  onSubmit={(name) => {
+                    renamePreset(preset.id, name);
+                    setRenamingId(null);
+                  }}
+                />
+              ) : (
+                <>
+                  <Button
+                    appearance="link"
+                    className="u-no-margin--bottom"
+                    onClick={() => onApply(preset)}
+                    type="button"
+                  >
+                    {preset.name}
+                  </Button>{" "}
+                  <Button
+                    appearance="base"
+                    aria-label={`${Label.Rename} ${preset.name}`}
+                    className="u-no-margin--bottom"
+                    hasIcon
+                    onClick={() => setRenamingId(preset.id)}
+                    small
+                    type="button"
+                  >
+                    <i className="p-icon--edit" />
+                  </Button>
+                  <Button
+                    appearance="base"
+                    aria-label={`${Label.Delete} ${preset.name}`}
+                    className="u-no-margin--bottom"
+                    hasIcon
+                    onClick={() => deletePreset(preset.id)}
+                    small
+                    type="button"
+                  >
+                    <i className="p-icon--delete" />
+                  </Button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {saving ? (
+        <NameForm
+          onCancel={() => setSaving(false)}
+          onSubmit={(name) => {
+            savePreset(name, chips);
+            setSaving(false);
+          }}
+        />
+      ) : (
+        <Button
+          disabled={chips.length === 0}
+          onClick={() => setSaving(true)}
+          small
+          type="button"
+        >
+          {Label.SaveCurrent}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default FilterPresets;
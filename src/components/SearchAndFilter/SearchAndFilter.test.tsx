@@ -1,4 +1,4 @@
-import { render, screen, waitFor } from "@testing-library/react";
+import { render, screen, waitFor, within } from "@testing-library/react";
 import React from "react";
 
 import SearchAndFilter from "./SearchAndFilter";
@@ -86,7 +86,7 @@ describe("Search and filter", () => {
     expect(getPanel()).toHaveAttribute("aria-hidden", "true");
     await waitFor(async () => {
       await userEvent.click(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter })
+        screen.getByRole("combobox", { name: Label.SearchAndFilter })
       );
     });
     expect(getPanel()).toHaveAttribute("aria-hidden", "false");
@@ -140,11 +140,11 @@ describe("Search and filter", () => {
     ).not.toBeInTheDocument();
     await waitFor(async () => {
       await userEvent.click(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter })
+        screen.getByRole("combobox", { name: Label.SearchAndFilter })
       );
     });
     await waitFor(async () => {
-      await userEvent.click(screen.getByRole("button", { name: "us-east1" }));
+      await userEvent.click(screen.getByRole("option", { name: "us-east1" }));
     });
     expect(screen.getByRole("button", { name: "+1" })).toBeInTheDocument();
   });
@@ -170,11 +170,11 @@ describe("Search and filter", () => {
     expect(getSearchContainer()).toHaveAttribute("aria-expanded", "false");
     await waitFor(async () => {
       await userEvent.click(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter })
+        screen.getByRole("combobox", { name: Label.SearchAndFilter })
       );
     });
     await waitFor(async () => {
-      await userEvent.click(screen.getByRole("button", { name: "us-east1" }));
+      await userEvent.click(screen.getByRole("option", { name: "us-east1" }));
     });
     await waitFor(async () => {
       await userEvent.click(screen.getByRole("button", { name: "+1" }));
@@ -192,7 +192,7 @@ describe("Search and filter", () => {
     );
     await waitFor(async () => {
       await userEvent.click(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter })
+        screen.getByRole("combobox", { name: Label.SearchAndFilter })
       );
     });
     expect(
@@ -201,12 +201,12 @@ describe("Search and filter", () => {
     ).not.toBeInTheDocument();
     await waitFor(async () => {
       await userEvent.clear(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter })
+        screen.getByRole("combobox", { name: Label.SearchAndFilter })
       );
     });
     await waitFor(async () => {
       await userEvent.type(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter }),
+        screen.getByRole("combobox", { name: Label.SearchAndFilter }),
         "My new value"
       );
     });
@@ -225,7 +225,7 @@ describe("Search and filter", () => {
     );
     await waitFor(async () => {
       await userEvent.click(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter })
+        screen.getByRole("combobox", { name: Label.SearchAndFilter })
       );
     });
     // eslint-disable-next-line testing-library/no-node-access
@@ -234,12 +234,12 @@ describe("Search and filter", () => {
     );
     await waitFor(async () => {
       await userEvent.clear(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter })
+        screen.getByRole("combobox", { name: Label.SearchAndFilter })
       );
     });
     await waitFor(async () => {
       await userEvent.type(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter }),
+        screen.getByRole("combobox", { name: Label.SearchAndFilter }),
         "Unknown value"
       );
     });
@@ -259,17 +259,17 @@ describe("Search and filter", () => {
     );
     await waitFor(async () => {
       await userEvent.click(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter })
+        screen.getByRole("combobox", { name: Label.SearchAndFilter })
       );
     });
     await waitFor(async () => {
       await userEvent.clear(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter })
+        screen.getByRole("combobox", { name: Label.SearchAndFilter })
       );
     });
     await waitFor(async () => {
       await userEvent.type(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter }),
+        screen.getByRole("combobox", { name: Label.SearchAndFilter }),
         "Google"
       );
     });
@@ -279,12 +279,12 @@ describe("Search and filter", () => {
     );
     await waitFor(async () => {
       await userEvent.clear(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter })
+        screen.getByRole("combobox", { name: Label.SearchAndFilter })
       );
     });
     await waitFor(async () => {
       await userEvent.type(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter }),
+        screen.getByRole("combobox", { name: Label.SearchAndFilter }),
         "re"
       );
     });
@@ -304,17 +304,17 @@ describe("Search and filter", () => {
     );
     await waitFor(async () => {
       await userEvent.click(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter })
+        screen.getByRole("combobox", { name: Label.SearchAndFilter })
       );
     });
     await waitFor(async () => {
       await userEvent.clear(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter })
+        screen.getByRole("combobox", { name: Label.SearchAndFilter })
       );
     });
     await waitFor(async () => {
       await userEvent.type(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter }),
+        screen.getByRole("combobox", { name: Label.SearchAndFilter }),
         "Google"
       );
     });
@@ -390,7 +390,7 @@ describe("Search and filter", () => {
     );
     await waitFor(async () => {
       await userEvent.click(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter })
+        screen.getByRole("combobox", { name: Label.SearchAndFilter })
       );
     });
     expect(onPanelToggle).toHaveBeenCalled();
@@ -418,15 +418,268 @@ describe("Search and filter", () => {
     );
     await waitFor(async () => {
       await userEvent.click(
-        screen.getByRole("searchbox", { name: Label.SearchAndFilter })
+        screen.getByRole("combobox", { name: Label.SearchAndFilter })
       );
     });
     await waitFor(async () => {
-      await userEvent.click(screen.getByRole("button", { name: "us-east1" }));
+      await userEvent.click(screen.getByRole("option", { name: "us-east1" }));
     });
     await waitFor(async () => {
       await userEvent.click(screen.getByRole("button", { name: "+1" }));
     });
     expect(onExpandChange).toHaveBeenCalled();
   });
+
+  it("can parse the search term into chips", async () => {
+    const returnSearchData = jest.fn();
+    render(
+      <SearchAndFilter
+        filterPanelData={sampleData}
+        parseSearchTerm
+        returnSearchData={returnSearchData}
+      />
+    );
+    await userEvent.type(
+      screen.getByRole("combobox", { name: Label.SearchAndFilter }),
+      'owner:"jane doe" -clouds:aws gpu{Enter}'
+    );
+    expect(returnSearchData).toHaveBeenLastCalledWith([
+      { lead: "Owner", quoteValue: true, value: "jane doe" },
+      { lead: "Clouds", negated: true, value: "aws" },
+      { value: "gpu" },
+    ]);
+    expect(screen.getByText("NOT CLOUDS")).toBeInTheDocument();
+  });
+
+  it("displays the operators for the chips", () => {
+    render(
+      <SearchAndFilter
+        existingSearchData={[
+          { lead: "Memory", operator: ">", value: "16GB" },
+          { lead: "Zone", operator: "!=", value: "a" },
+        ]}
+        filterPanelData={sampleData}
+        returnSearchData={jest.fn()}
+      />
+    );
+    const searchContainer = within(getSearchContainer() as HTMLElement);
+    expect(searchContainer.getByText(">")).toBeInTheDocument();
+    expect(searchContainer.getByText("!=")).toBeInTheDocument();
+  });
+
+  it("only deselects the matching chip", async () => {
+    const returnSearchData = jest.fn();
+    render(
+      <SearchAndFilter
+        existingSearchData={[
+          { lead: "Owner", negated: true, value: "foo" },
+          { value: "foo" },
+          { operator: "!=", value: "foo" },
+        ]}
+        filterPanelData={sampleData}
+        returnSearchData={returnSearchData}
+      />
+    );
+    await userEvent.click(screen.getByRole("combobox"));
+    await userEvent.click(screen.getByRole("option", { name: "foo" }));
+    expect(returnSearchData).toHaveBeenLastCalledWith([
+      { lead: "Owner", negated: true, value: "foo" },
+      { operator: "!=", value: "foo" },
+    ]);
+  });
+
+  it("suggests leads from the filter panel headings", async () => {
+    render(
+      <SearchAndFilter
+        filterPanelData={sampleData}
+        parseSearchTerm
+        returnSearchData={jest.fn()}
+      />
+    );
+    const searchBox = screen.getByRole("combobox", {
+      name: Label.SearchAndFilter,
+    });
+    await userEvent.type(searchBox, "gpu -reg");
+    await userEvent.click(
+      screen.getByRole("button", { name: `${Label.FilterBy} Regions:` })
+    );
+    expect(searchBox).toHaveValue("gpu -Regions:");
+    expect(searchBox).toHaveFocus();
+  });
+
+  it("replaces the chips when the existing search data changes", () => {
+    const returnSearchData = jest.fn();
+    const { rerender } = render(
+      <SearchAndFilter
+        existingSearchData={[{ lead: "Cloud", value: "Google" }]}
+        filterPanelData={sampleData}
+        returnSearchData={returnSearchData}
+      />
+    );
+    rerender(
+      <SearchAndFilter
+        existingSearchData={[{ lead: "Cloud", value: "Google" }]}
+        filterPanelData={sampleData}
+        returnSearchData={returnSearchData}
+      />
+    );
+    expect(returnSearchData).toHaveBeenCalledTimes(1);
+    rerender(
+      <SearchAndFilter
+        existingSearchData={[{ lead: "Cloud", value: "AWS" }]}
+        filterPanelData={sampleData}
+        returnSearchData={returnSearchData}
+      />
+    );
+    const searchContainer = within(getSearchContainer() as HTMLElement);
+    expect(searchContainer.getByText("AWS")).toBeInTheDocument();
+    expect(searchContainer.queryByText("Google")).not.toBeInTheDocument();
+    expect(returnSearchData).toHaveBeenLastCalledWith([
+      { lead: "Cloud", value: "AWS" },
+    ]);
+  });
+
+  it("applies saved filters", async () => {
+    const returnSearchData = jest.fn();
+    render(
+      <SearchAndFilter
+        filterPanelData={sampleData}
+        presetStorage={{
+          load: () => [{ chips: [{ value: "gpu" }], id: "1", name: "GPUs" }],
+          save: jest.fn(),
+        }}
+        presetsKey="machines"
+        returnSearchData={returnSearchData}
+      />
+    );
+    await userEvent.click(
+      screen.getByRole("combobox", { name: Label.SearchAndFilter })
+    );
+    await userEvent.click(screen.getByRole("button", { name: "GPUs" }));
+    expect(returnSearchData).toHaveBeenLastCalledWith([{ value: "gpu" }]);
+  });
+
+  it("moves through the chips with the arrow keys", async () => {
+    const returnSearchData = jest.fn();
+    render(
+      <SearchAndFilter
+        filterPanelData={sampleData}
+        returnSearchData={returnSearchData}
+      />
+    );
+    const combobox = screen.getByRole("combobox", {
+      name: Label.SearchAndFilter,
+    });
+    expect(combobox).toHaveAttribute("aria-expanded", "false");
+    await userEvent.type(combobox, "{ArrowDown}");
+    expect(combobox).toHaveAttribute("aria-expanded", "true");
+    expect(combobox).toHaveAttribute(
+      "aria-activedescendant",
+      screen.getByRole("option", { name: "Google" }).id
+    );
+    await userEvent.type(combobox, "{ArrowDown}{ArrowDown}{ArrowUp}");
+    expect(combobox).toHaveAttribute(
+      "aria-activedescendant",
+      screen.getByRole("option", { name: "AWS" }).id
+    );
+    await userEvent.type(combobox, "{Enter}");
+    expect(returnSearchData).toHaveBeenLastCalledWith([{ value: "AWS" }]);
+    expect(screen.getByRole("option", { name: "AWS" })).toHaveAttribute(
+      "aria-selected",
+      "true"
+    );
+  });
+
+  it("only controls the panel when it is displayed", async () => {
+    render(
+      <SearchAndFilter filterPanelData={[]} returnSearchData={jest.fn()} />
+    );
+    const combobox = screen.getByRole("combobox", {
+      name: Label.SearchAndFilter,
+    });
+    await userEvent.click(combobox);
+    expect(combobox).not.toHaveAttribute("aria-controls");
+    expect(combobox).toHaveAttribute("aria-expanded", "false");
+    await userEvent.type(combobox, "gpu");
+    expect(combobox).toHaveAttribute(
+      "aria-controls",
+      // eslint-disable-next-line testing-library/no-node-access
+      document.querySelector(".p-search-and-filter__panel")?.id
+    );
+    expect(combobox).toHaveAttribute("aria-expanded", "true");
+  });
+
+  it("clears the active chip when it is no longer displayed", async () => {
+    const { rerender } = render(
+      <SearchAndFilter
+        filterPanelData={sampleData}
+        returnSearchData={jest.fn()}
+      />
+    );
+    const combobox = screen.getByRole("combobox", {
+      name: Label.SearchAndFilter,
+    });
+    await userEvent.type(combobox, "{ArrowDown}");
+    expect(screen.getByRole("option", { name: "Google" })).toHaveClass(
+      "is-active"
+    );
+    rerender(
+      <SearchAndFilter
+        filterPanelData={sampleData.slice(1)}
+        returnSearchData={jest.fn()}
+      />
+    );
+    await waitFor(() =>
+      expect(combobox).not.toHaveAttribute("aria-activedescendant")
+    );
+    expect(screen.getByRole("option", { name: "us-east1" })).not.toHaveClass(
+      "is-active"
+    );
+  });
+
+  it("moves to the last chip when pressing the up arrow", async () => {
+    render(
+      <SearchAndFilter
+        filterPanelData={sampleData}
+        returnSearchData={jest.fn()}
+      />
+    );
+    const combobox = screen.getByRole("combobox", {
+      name: Label.SearchAndFilter,
+    });
+    await userEvent.type(combobox, "{ArrowUp}");
+    expect(combobox).toHaveAttribute(
+      "aria-activedescendant",
+      screen.getByRole("option", { name: "baz" }).id
+    );
+  });
+
+  it("removes the last chip when pressing backspace in an empty input", async () => {
+    const returnSearchData = jest.fn();
+    render(
+      <SearchAndFilter
+        existingSearchData={[{ value: "Google" }, { value: "AWS" }]}
+        filterPanelData={sampleData}
+        returnSearchData={returnSearchData}
+      />
+    );
+    const combobox = screen.getByRole("combobox", { name: Label.AddFilter });
+    await userEvent.type(combobox, "a{Backspace}");
+    expect(returnSearchData).toHaveBeenCalledTimes(1);
+    await userEvent.type(combobox, "{Backspace}");
+    expect(returnSearchData).toHaveBeenLastCalledWith([{ value: "Google" }]);
+  });
+
+  it("announces the number of selected chips", () => {
+    render(
+      <SearchAndFilter
+        existingSearchData={[{ value: "Google" }, { value: "AWS" }]}
+        filterPanelData={sampleData}
+        returnSearchData={jest.fn()}
+      />
+    );
+    expect(
+      screen.getByText(new RegExp(`^2 ${Label.Selected}`))
+    ).toHaveAttribute("aria-live", "polite");
+  });
 });
@@ -1,24 +1,39 @@
 import React, { useState, useEffect, useRef } from "react";
+import type { KeyboardEvent } from "react";
 
 import FilterPanelSection from "./FilterPanelSection";
+import FilterPresets from "./FilterPresets";
 import Chip from "../Chip";
-import { overflowingChipsCount, isChipInArray } from "./utils";
+import { overflowingChipsCount, isChipInArray, isSameChip } from "./utils";
+import {
+  getSearchAndFilterLeadCompletions,
+  parseSearchAndFilterText,
+} from "./parser";
 import type { SearchAndFilterChip, SearchAndFilterData } from "./types";
-import { useOnEscapePressed, useWindowFitment } from "hooks";
+import type { SearchAndFilterPresetStorage } from "./presets";
+import { useId, useOnEscapePressed, useWindowFitment } from "hooks";
 
 export enum Label {
   AddFilter = "Add filter",
   Clear = "Clear input",
+  FilterBy = "Filter by",
+  NotShown = "not shown",
+  Selected = "selected",
   SearchAndFilter = "Search and filter",
 }
 
 export type Props = {
   /**
-   * A list of chips to initialise inside the input.
+   * A list of chips to initialise inside the input. The chips are replaced
+   * if this changes, e.g. when the chips are loaded from the URL.
    */
   existingSearchData?: SearchAndFilterChip[];
   /**
-   * The data for the filter panel.
+   * The data for the filter panel. The chips for a section can be loaded
+   * using the section's `loadChips` function, which is called with the search
+   * term once the panel is opened. The loaded chips are cached using the
+   * section's `chipsKey`, or the loader if there is no key, and are loaded
+   * again when the key, or the loader without a key, changes.
    */
   filterPanelData: SearchAndFilterData[];
   /**
@@ -33,6 +48,21 @@ export type Props = {
    * A function that is called when the height of the search container changes.
    */
   onExpandChange?: () => void;
+  /**
+   * Whether to parse the search term into chips when it is submitted, e.g.
+   * `status:deployed owner:"jane doe" -zone:a`. Leads are matched against the
+   * filter panel headings, which are suggested while typing.
+   */
+  parseSearchTerm?: boolean;
+  /**
+   * A key that identifies the saved filters in the preset storage. The saved
+   * filters are displayed in the filter panel if this is provided.
+   */
+  presetsKey?: string;
+  /**
+   * Where to store the saved filters. Defaults to localStorage.
+   */
+  presetStorage?: SearchAndFilterPresetStorage;
 };
 
 const SearchAndFilter = ({
@@ -41,6 +71,9 @@ const SearchAndFilter = ({
   returnSearchData,
   onPanelToggle = () => {},
   onExpandChange = () => {},
+  parseSearchTerm = false,
+  presetsKey,
+  presetStorage,
   ...props
 }: Props): JSX.Element => {
   const [searchData, setSearchData] = useState(existingSearchData);
@@ -50,11 +83,15 @@ const SearchAndFilter = ({
   const [overflowSearchTermCounter, setOverflowSearchTermCounter] = useState(0);
   const [searchContainerActive, setSearchContainerActive] = useState(false);
   const [maxHeight, setMaxHeight] = useState<number>();
+  const [activeChipId, setActiveChipId] = useState<string | null>(null);
+  const panelId = useId();
 
   const searchAndFilterRef = useRef(null);
   const searchContainerRef = useRef(null);
   const searchBoxRef = useRef(null);
-  const panel = useRef();
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const panel = useRef<HTMLDivElement>(null);
+  const existingSearchDataKey = useRef(JSON.stringify(existingSearchData));
 
   // Call onPanelToggle when the filterPanelHidden state changes
   useEffect(onPanelToggle, [onPanelToggle, filterPanelHidden]);
@@ -62,17 +99,26 @@ const SearchAndFilter = ({
   // Call onExpandChange when the search box is expanded or collapsed
   useEffect(onExpandChange, [onExpandChange, searchBoxExpanded]);
 
-  // Return searchData to parent component
+  // Replace the chips when different existing search data is provided
   useEffect(() => {
-    let mounted = true;
-    returnSearchData && mounted && returnSearchData(searchData);
-    return () => {
-      mounted = false;
-    };
-  }, [searchData, returnSearchData]);
+    const key = JSON.stringify(existingSearchData);
+    if (key !== existingSearchDataKey.current) {
+      existingSearchDataKey.current = key;
+      setSearchData(existingSearchData);
+    }
+  }, [existingSearchData]);
+
+  // Return searchData to parent component. The latest callback is kept in a
+  // ref so that the data is only returned when it changes.
+  const latestReturnSearchData = useRef(returnSearchData);
+  latestReturnSearchData.current = returnSearchData;
+  useEffect(() => {
+    latestReturnSearchData.current?.(searchData);
+  }, [searchData]);
 
   const searchOnChange = (searchTerm) => {
     setSearchTerm(searchTerm);
+    setActiveChipId(null);
   };
 
   // Hide manual input form field when search container is inactive
@@ -92,6 +138,7 @@ const SearchAndFilter = ({
 
   const closePanel = () => {
     setFilterPanelHidden(true);
+    setActiveChipId(null);
   };
   useOnEscapePressed(() => closePanel());
 
@@ -123,9 +170,7 @@ const SearchAndFilter = ({
       setSearchTerm("");
     } else {
       const updatedCurrentSelected = currentSelected.filter(
-        (currentSelectedChip) => {
-          return currentSelectedChip.value !== chip.value;
-        }
+        (currentSelectedChip) => !isSameChip(chip, currentSelectedChip)
       );
       setSearchData(updatedCurrentSelected);
     }
@@ -162,11 +207,34 @@ const SearchAndFilter = ({
     };
   }, []);
 
+  const leads = filterPanelData
+    .map(({ heading }) => heading)
+    .filter((heading) => !!heading);
+
+  const leadCompletions = parseSearchTerm
+    ? getSearchAndFilterLeadCompletions(searchTerm, leads)
+    : [];
+
   const handleSubmit = () => {
-    if (searchTerm.trim() !== "") {
+    if (searchTerm.trim() === "") {
+      return;
+    }
+    if (parseSearchTerm) {
+      const newChips = parseSearchAndFilterText(searchTerm, leads).filter(
+        (chip, i, chips) =>
+          !isChipInArray(chip, [...searchData, ...chips.slice(0, i)])
+      );
+      setSearchData([...searchData, ...newChips]);
+    } else {
       toggleSelected({ value: searchTerm, quoteValue: true });
-      setSearchTerm("");
     }
+    setSearchTerm("");
+  };
+
+  // Replace the lead that is being typed with the full lead
+  const completeLead = (text: string) => {
+    setSearchTerm(text);
+    searchInputRef.current?.focus();
   };
 
   // If the offsetTop is more than double height of a single chip, consider it
@@ -203,6 +271,70 @@ const SearchAndFilter = ({
     !filterPanelHidden
   );
 
+  // Clear the active chip when it is no longer displayed, e.g. when the
+  // chips are filtered or loaded.
+  useEffect(() => {
+    const panelElement = panel.current;
+    if (!activeChipId || !panelElement) {
+      return undefined;
+    }
+    const checkActiveChip = () => {
+      if (!document.getElementById(activeChipId)) {
+        setActiveChipId(null);
+      }
+    };
+    checkActiveChip();
+    const observer = new MutationObserver(checkActiveChip);
+    observer.observe(panelElement, { childList: true, subtree: true });
+    return () => observer.disconnect();
+  }, [activeChipId]);
+
+  // Move the active chip through the chips in the panel
+  const moveActiveChip = (step: number) => {
+    const chips: HTMLElement[] = Array.from(
+      panel.current?.querySelectorAll('[role="option"]') ?? []
+    );
+    if (!chips.length) {
+      return;
+    }
+    const index = chips.findIndex(({ id }) => id === activeChipId);
+    let nextIndex = (index + step) % chips.length;
+    if (index === -1 && step < 0) {
+      nextIndex = chips.length - 1;
+    } else if (nextIndex < 0) {
+      nextIndex += chips.length;
+    }
+    setActiveChipId(chips[nextIndex].id);
+    chips[nextIndex].scrollIntoView?.({ block: "nearest" });
+  };
+
+  // Handle the keyboard interactions for the combobox
+  const searchKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp":
+        e.preventDefault();
+        setFilterPanelHidden(false);
+        moveActiveChip(e.key === "ArrowDown" ? 1 : -1);
+        break;
+      case "Enter": {
+        const activeChip =
+          activeChipId && document.getElementById(activeChipId);
+        if (activeChip) {
+          // Select the active chip instead of submitting the search term
+          e.preventDefault();
+          activeChip.click();
+        }
+        break;
+      }
+      case "Backspace":
+        if (searchTerm === "" && searchData.length > 0) {
+          removeFromSelected(searchData[searchData.length - 1]);
+        }
+        break;
+    }
+  };
+
   // Add search prompt value to search on Enter key
   const searchPromptKeyDown = (e) => {
     if (e.key === "Enter") {
@@ -232,6 +364,10 @@ const SearchAndFilter = ({
     ? Label.AddFilter
     : Label.SearchAndFilter;
 
+  // The panel is only rendered when it has content to display.
+  const hasPanel =
+    filterPanelData.length > 0 || searchTerm.length > 0 || !!presetsKey;
+
   return (
     <div
       className="p-search-and-filter"
@@ -258,9 +394,13 @@ const SearchAndFilter = ({
         {Object.values(searchData).map((chip) => {
           return (
             <Chip
-              lead={chip.lead}
+              appearance={chip.negated ? "negative" : undefined}
+              lead={chip.negated ? `not ${chip.lead ?? ""}`.trim() : chip.lead}
+              operator={chip.operator}
               value={chip.value}
-              key={`search-${chip.lead}+${chip.value}`}
+              key={`search-${chip.negated ? "-" : ""}${chip.lead}${
+                chip.operator ?? ""
+              }+${chip.value}`}
               onDismiss={() => removeFromSelected(chip)}
               selected={true}
               quoteValue={chip.quoteValue}
@@ -280,12 +420,19 @@ const SearchAndFilter = ({
             {searchData.length ? Label.AddFilter : Label.SearchAndFilter}
           </label>
           <input
+            aria-activedescendant={activeChipId ?? undefined}
+            aria-autocomplete="list"
+            aria-controls={hasPanel ? panelId : undefined}
+            aria-expanded={hasPanel && !filterPanelHidden}
             autoComplete="off"
             className="p-search-and-filter__input"
             id="search-and-filter-input"
             name="search"
             onChange={(e) => searchOnChange(e.target.value)}
+            onKeyDown={searchKeyDown}
             placeholder={placeholder}
+            ref={searchInputRef}
+            role="combobox"
             type="search"
             value={searchTerm}
           />
@@ -305,10 +452,16 @@ const SearchAndFilter = ({
           </span>
         )}
       </div>
-      {(filterPanelData.length > 0 || searchTerm.length > 0) && (
+      <div aria-live="polite" className="u-off-screen">
+        {`${searchData.length} ${Label.Selected}`}
+        {overflowSearchTermCounter > 0 &&
+          `, ${overflowSearchTermCounter} ${Label.NotShown}`}
+      </div>
+      {hasPanel && (
         <div
           className="p-search-and-filter__panel"
           aria-hidden={filterPanelHidden}
+          id={panelId}
           ref={panel}
           style={{ maxHeight, minHeight: "5rem", overflowX: "auto" }}
         >
@@ -328,11 +481,36 @@ const SearchAndFilter = ({
                 ...
               </div>
             )}
+            {leadCompletions.map(({ lead, text }) => (
+              <div
+                className="p-search-and-filter__search-prompt"
+                key={lead}
+                onClick={() => completeLead(text)}
+                onKeyDown={(e) => e.key === "Enter" && completeLead(text)}
+                role="button"
+                tabIndex={0}
+              >
+                {Label.FilterBy}{" "}
+                <span className="p-search-and-filter__search-query">
+                  {lead}:
+                </span>
+              </div>
+            ))}
+            {presetsKey && (
+              <FilterPresets
+                chips={searchData}
+                onApply={(preset) => setSearchData(preset.chips)}
+                presetsKey={presetsKey}
+                storage={presetStorage}
+              />
+            )}
             {filterPanelData.map((filterPanelSectionData) => {
               return (
                 <FilterPanelSection
+                  activeChipId={activeChipId}
                   key={filterPanelSectionData.id}
                   data={filterPanelSectionData}
+                  panelHidden={filterPanelHidden}
                   toggleSelected={toggleSelected}
                   searchData={searchData}
                   searchTerm={searchTerm}
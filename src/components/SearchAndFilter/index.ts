@@ -1,2 +1,45 @@
 export { default } from "./SearchAndFilter";
 export type { Props as SearchAndFilterProps } from "./SearchAndFilter";
+export { clearSearchAndFilterChipsCache } from "./FilterPanelSection/useLoadedChips";
+export type {
+  SearchAndFilterChip,
+  SearchAndFilterChipsLoader,
+  SearchAndFilterChipsPage,
+  SearchAndFilterData,
+  SearchAndFilterOperator,
+} from "./types";
+export {
+  createSearchAndFilterQuery,
+  isEmptySearchAndFilterQuery,
+  matchesSearchAndFilterQuery,
+} from "./query";
+export type { SearchAndFilterQuery, SearchAndFilterQueryTerm } from "./query";
+export {
+  getSearchAndFilterLeadCompletions,
+  parseSearchAndFilterText,
+  parseSearchAndFilterValue,
+  serializeSearchAndFilterChips,
+  serializeSearchAndFilterValue,
+} from "./parser";
+export type { SearchAndFilterLeadCompletion } from "./parser";
+export {
+  browserSearchAndFilterUrlAdapter,
+  createSearchAndFilterParamEncoding,
+  createSearchAndFilterTextEncoding,
+  useRouterSearchAndFilterUrlAdapter,
+  useSearchAndFilterUrlState,
+} from "./useSearchAndFilterUrlState";
+export type {
+  SearchAndFilterUrlAdapter,
+  SearchAndFilterUrlEncoding,
+  SearchAndFilterUrlState,
+} from "./useSearchAndFilterUrlState";
+export {
+  localSearchAndFilterPresetStorage,
+  useSearchAndFilterPresets,
+} from "./presets";
+export type {
+  SearchAndFilterPreset,
+  SearchAndFilterPresets,
+  SearchAndFilterPresetStorage,
+} from "./presets";
@@ -0,0 +1,136 @@
+import {
+  getSearchAndFilterLeadCompletions,
+  parseSearchAndFilterText,
+  parseSearchAndFilterValue,
+  serializeSearchAndFilterChips,
+  serializeSearchAndFilterValue,
+} from "./parser";
+
+describe("parseSearchAndFilterText", () => {
+  it("parses leads, quoted values, negation and text", () => {
+    expect(
+      parseSearchAndFilterText('status:deployed owner:"jane doe" -zone:a gpu')
+    ).toEqual([
+      { lead: "status", value: "deployed" },
+      { lead: "owner", quoteValue: true, value: "jane doe" },
+      { lead: "zone", negated: true, value: "a" },
+      { value: "gpu" },
+    ]);
+  });
+
+  it("parses quoted and escaped text", () => {
+    expect(
+      parseSearchAndFilterText(
+        '"big machine" -"old" "Availability zone":b a\\ b \\-c d\\:e'
+      )
+    ).toEqual([
+      { quoteValue: true, value: "big machine" },
+      { negated: true, quoteValue: true, value: "old" },
+      { lead: "Availability zone", value: "b" },
+      { value: "a b" },
+      { value: "-c" },
+      { value: "d:e" },
+    ]);
+  });
+
+  it("ignores empty values", () => {
+    expect(parseSearchAndFilterText('  status: "" - ')).toEqual([
+      { value: "-" },
+    ]);
+  });
+
+  it("parses operators for values with a lead", () => {
+    expect(
+      parseSearchAndFilterText(
+        'memory:>16GB zone:!=a name:~"gpu " name:^web -cpu:<4 >5 zone:\\>6'
+      )
+    ).toEqual([
+      { lead: "memory", operator: ">", value: "16GB" },
+      { lead: "zone", operator: "!=", value: "a" },
+      { lead: "name", operator: "contains", quoteValue: true, value: "gpu " },
+      { lead: "name", operator: "starts with", value: "web" },
+      { lead: "cpu", negated: true, operator: "<", value: "4" },
+      { value: ">5" },
+      { lead: "zone", value: ">6" },
+    ]);
+  });
+
+  it("matches the leads ignoring case", () => {
+    expect(
+      parseSearchAndFilterText("STATUS:ready time:10:30 url:http://a", [
+        "Status",
+        "Time",
+      ])
+    ).toEqual([
+      { lead: "Status", value: "ready" },
+      { lead: "Time", value: "10:30" },
+      { value: "url:http://a" },
+    ]);
+  });
+});
+
+describe("serializeSearchAndFilterChips", () => {
+  it("converts chips to text", () => {
+    expect(
+      serializeSearchAndFilterChips([
+        { lead: "status", value: "deployed" },
+        { lead: "owner", quoteValue: true, value: "jane doe" },
+        { lead: "zone", negated: true, value: "a" },
+        { value: "gpu" },
+      ])
+    ).toBe('status:deployed owner:"jane doe" -zone:a gpu');
+  });
+
+  it("can be parsed back into the same chips", () => {
+    const chips = [
+      { lead: "Availability zone", value: "a b" },
+      { lead: "Time", value: "10:30" },
+      { negated: true, quoteValue: true, value: 'say "hi"' },
+      { value: "-c:d\\e" },
+      { lead: "Memory", operator: ">" as const, value: "16GB" },
+      { lead: "Zone", operator: "=" as const, value: "=a" },
+      { lead: "Zone", value: "-a" },
+    ];
+    expect(
+      parseSearchAndFilterText(serializeSearchAndFilterChips(chips))
+    ).toEqual(chips);
+  });
+});
+
+describe("getSearchAndFilterLeadCompletions", () => {
+  const leads = ["Status", "Storage", "Availability zone"];
+
+  it("completes the last word", () => {
+    expect(getSearchAndFilterLeadCompletions("gpu -st", leads)).toEqual([
+      { lead: "Status", text: "gpu -Status:" },
+      { lead: "Storage", text: "gpu -Storage:" },
+    ]);
+    expect(getSearchAndFilterLeadCompletions("av", leads)).toEqual([
+      { lead: "Availability zone", text: '"Availability zone":' },
+    ]);
+  });
+
+  it("does not complete words that already have a lead", () => {
+    expect(getSearchAndFilterLeadCompletions("status:st", leads)).toEqual([]);
+    expect(getSearchAndFilterLeadCompletions("status ", leads)).toEqual([]);
+  });
+});
+
+describe("parseSearchAndFilterValue", () => {
+  it("parses a value without a lead", () => {
+    expect(parseSearchAndFilterValue("-~a:b")).toEqual({
+      negated: true,
+      operator: "contains",
+      value: "a:b",
+    });
+    expect(parseSearchAndFilterValue("")).toBeNull();
+  });
+
+  it("can be serialized", () => {
+    const chip = { negated: true, operator: "<" as const, value: "-1" };
+    expect(serializeSearchAndFilterValue(chip)).toBe("-<\\-1");
+    expect(
+      parseSearchAndFilterValue(serializeSearchAndFilterValue(chip))
+    ).toEqual(chip);
+  });
+});
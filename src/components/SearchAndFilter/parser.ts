@@ -0,0 +1,242 @@
+import type { SearchAndFilterChip, SearchAndFilterOperator } from "./types";
+
+export type SearchAndFilterLeadCompletion = {
+  /**
+   * The lead that completes the last word.
+   */
+  lead: string;
+  /**
+   * The text with the last word replaced by the lead.
+   */
+  text: string;
+};
+
+type Part = {
+  end: number;
+  quoted: boolean;
+  value: string;
+};
+
+type Value = Part & {
+  operator?: SearchAndFilterOperator;
+};
+
+// The text for each operator, which is written before a value, e.g.
+// `memory:>16GB`.
+const OPERATORS: [string, SearchAndFilterOperator][] = [
+  ["!=", "!="],
+  ["=", "="],
+  [">", ">"],
+  ["<", "<"],
+  ["~", "contains"],
+  ["^", "starts with"],
+];
+
+const isWhitespace = (character?: string) =>
+  character !== undefined && /\s/.test(character);
+
+// Read a lead or value, which ends at whitespace outside of quotes. Leads also
+// end at the first colon outside of quotes. A backslash escapes the next
+// character, both inside and outside of quotes.
+const readPart = (text: string, start: number, isLead: boolean): Part => {
+  let quoted = false;
+  let inQuotes = false;
+  let value = "";
+  let position = start;
+  while (position < text.length) {
+    const character = text[position];
+    if (
+      !inQuotes &&
+      (isWhitespace(character) || (isLead && character === ":"))
+    ) {
+      break;
+    }
+    if (character === "\\" && position + 1 < text.length) {
+      value += text[position + 1];
+      position += 2;
+      continue;
+    }
+    if (character === '"') {
+      quoted = true;
+      inQuotes = !inQuotes;
+    } else {
+      value += character;
+    }
+    position++;
+  }
+  return { end: position, quoted, value };
+};
+
+// Get the lead as it is written in the list of leads, ignoring case.
+const findLead = (lead: string, leads?: string[]) =>
+  leads
+    ? leads.find((name) => name.toLowerCase() === lead.toLowerCase())
+    : lead;
+
+// Read a value that can start with an operator.
+const readValue = (text: string, start: number): Value => {
+  const [operatorText, operator] = OPERATORS.find(([syntax]) =>
+    text.startsWith(syntax, start)
+  ) ?? ["", undefined];
+  return {
+    operator,
+    ...readPart(text, start + operatorText.length, false),
+  };
+};
+
+const toChip = (
+  { quoted, value }: Part,
+  negated: boolean,
+  lead?: string,
+  operator?: SearchAndFilterOperator
+): SearchAndFilterChip => ({
+  ...(lead ? { lead } : {}),
+  ...(negated ? { negated } : {}),
+  ...(operator ? { operator } : {}),
+  ...(quoted ? { quoteValue: quoted } : {}),
+  value,
+});
+
+/**
+ * Parse text into chips, e.g. `status:deployed owner:"jane doe" -zone:a`.
+ *
+ * Words in the format `lead:value` become chips with a lead, and other words
+ * become chips without a lead. Values in double quotes can include spaces and
+ * must match exactly. A word that starts with `-` is negated. Values with a
+ * lead can start with an operator: `=`, `!=`, `>`, `<`, `~` for "contains" or
+ * `^` for "starts with", e.g. `memory:>16GB`.
+ * @param text - The text to parse.
+ * @param leads - The leads that can be used, e.g. the filter panel headings.
+ * Leads are matched ignoring case, and words with other leads are treated as
+ * text. If this is not provided then any lead can be used.
+ * @returns The chips, in the order they appear in the text.
+ */
+export const parseSearchAndFilterText = (
+  text: string,
+  leads?: string[]
+): SearchAndFilterChip[] => {
+  const chips: SearchAndFilterChip[] = [];
+  let position = 0;
+  while (position < text.length) {
+    if (isWhitespace(text[position])) {
+      position++;
+      continue;
+    }
+    const negated =
+      text[position] === "-" &&
+      position + 1 < text.length &&
+      !isWhitespace(text[position + 1]);
+    const start = negated ? position + 1 : position;
+    const first = readPart(text, start, true);
+    const lead =
+      text[first.end] === ":" && first.value
+        ? findLead(first.value, leads)
+        : null;
+    const { operator, ...part }: Value = lead
+      ? readValue(text, first.end + 1)
+      : readPart(text, start, false);
+    if (part.value) {
+      chips.push(toChip(part, negated, lead, operator));
+    }
+    position = part.end;
+  }
+  return chips;
+};
+
+const quote = (text: string) => `"${text.replace(/["\\]/g, "\\$&")}"`;
+
+// Escape the characters that would otherwise be parsed as syntax. Colons and
+// a leading dash only need to be escaped in text without a lead.
+const escape = (text: string, isText: boolean) => {
+  const escaped = text.replace(isText ? /[\s"\\:]/g : /[\s"\\]/g, "\\$&");
+  return isText && escaped.startsWith("-") ? `\\${escaped}` : escaped;
+};
+
+// Convert a value and its operator to text. A leading dash is escaped so that
+// the value can also be used without a lead.
+const serializeValue = ({
+  operator,
+  quoteValue,
+  value,
+}: SearchAndFilterChip) => {
+  const operatorText = OPERATORS.find(([, name]) => name === operator)?.[0];
+  let valueText = quoteValue ? quote(value) : escape(value, false);
+  if (!quoteValue && /^(!=|[-=<>~^])/.test(valueText)) {
+    valueText = `\\${valueText}`;
+  }
+  return `${operatorText ?? ""}${valueText}`;
+};
+
+/**
+ * Convert chips to text that can be parsed by `parseSearchAndFilterText`, e.g.
+ * so that the chips can be copied and pasted. Operators are only included
+ * for chips with a lead.
+ * @param chips - The chips to convert.
+ * @returns The text for the chips, separated by spaces.
+ */
+export const serializeSearchAndFilterChips = (
+  chips: SearchAndFilterChip[] = []
+): string =>
+  chips
+    .map((chip) => {
+      const { lead, negated, quoteValue, value } = chip;
+      let chipText = quoteValue ? quote(value) : escape(value, true);
+      if (lead) {
+        const leadText = /[\s"\\:]/.test(lead)
+          ? quote(lead)
+          : escape(lead, true);
+        chipText = `${leadText}:${serializeValue(chip)}`;
+      }
+      return negated ? `-${chipText}` : chipText;
+    })
+    .join(" ");
+
+/**
+ * Parse a value for a lead, which can be negated and can start with an
+ * operator, e.g. `-~gpu`.
+ * @param text - The text to parse.
+ * @returns A chip without a lead, or null if there is no value.
+ */
+export const parseSearchAndFilterValue = (
+  text: string
+): SearchAndFilterChip | null => {
+  const negated = text.length > 1 && text.startsWith("-");
+  const { operator, ...part } = readValue(text, negated ? 1 : 0);
+  return part.value ? toChip(part, negated, undefined, operator) : null;
+};
+
+/**
+ * Convert a chip's value to text that can be parsed by
+ * `parseSearchAndFilterValue`, ignoring the chip's lead.
+ * @param chip - The chip to convert.
+ */
+export const serializeSearchAndFilterValue = (
+  chip: SearchAndFilterChip
+): string => `${chip.negated ? "-" : ""}${serializeValue(chip)}`;
+
+/**
+ * Get the leads that complete the last word of some text, e.g. so that
+ * "sta" can be completed to "Status:".
+ * @param text - The text being typed.
+ * @param leads - The leads that can be used.
+ * @returns The leads that start with the last word, ignoring case.
+ */
+export const getSearchAndFilterLeadCompletions = (
+  text: string,
+  leads: string[] = []
+): SearchAndFilterLeadCompletion[] => {
+  const lastWord = text.match(/(^|\s)(-?)([^\s:"\\-][^\s:"\\]*)$/);
+  if (!lastWord) {
+    return [];
+  }
+  const [, , negation, partialLead] = lastWord;
+  const start = lastWord.index + lastWord[1].length;
+  return leads
+    .filter((lead) => lead.toLowerCase().startsWith(partialLead.toLowerCase()))
+    .map((lead) => ({
+      lead,
+      text: `${text.slice(0, start)}${negation}${serializeSearchAndFilterChips([
+        { lead, value: "" },
+      ])}`,
+    }));
+};
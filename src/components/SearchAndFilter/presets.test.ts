@@ -0,0 +1,98 @@
+import { act, renderHook } from "@testing-library/react";
+
+import {
+  localSearchAndFilterPresetStorage,
+  useSearchAndFilterPresets,
+} from "./presets";
+import type { SearchAndFilterPresetStorage } from "./presets";
+
+beforeEach(() => {
+  window.localStorage.clear();
+});
+
+describe("localSearchAndFilterPresetStorage", () => {
+  it("loads and saves the presets", () => {
+    const presets = [{ chips: [{ value: "gpu" }], id: "1", name: "GPUs" }];
+    localSearchAndFilterPresetStorage.save("machines", presets);
+    expect(localSearchAndFilterPresetStorage.load("machines")).toEqual(presets);
+  });
+
+  it("ignores invalid stored presets", () => {
+    window.localStorage.setItem("machines", "{invalid");
+    expect(localSearchAndFilterPresetStorage.load("machines")).toBeNull();
+    window.localStorage.setItem("machines", "{}");
+    expect(localSearchAndFilterPresetStorage.load("machines")).toBeNull();
+  });
+});
+
+describe("useSearchAndFilterPresets", () => {
+  it("saves, renames and deletes presets", () => {
+    const { result } = renderHook(() => useSearchAndFilterPresets("machines"));
+    expect(result.current.presets).toEqual([]);
+    act(() => {
+      result.current.savePreset("GPUs", [{ value: "gpu" }]);
+    });
+    const [{ id }] = result.current.presets;
+    act(() => {
+      result.current.renamePreset(id, "GPU machines");
+    });
+    expect(result.current.presets).toEqual([
+      { chips: [{ value: "gpu" }], id, name: "GPU machines" },
+    ]);
+    expect(localSearchAndFilterPresetStorage.load("machines")).toEqual(
+      result.current.presets
+    );
+    act(() => {
+      result.current.deletePreset(id);
+    });
+    expect(result.current.presets).toEqual([]);
+    expect(localSearchAndFilterPresetStorage.load("machines")).toEqual([]);
+  });
+
+  it("can use a different storage", () => {
+    const storage: SearchAndFilterPresetStorage = {
+      load: jest.fn(() => [{ chips: [], id: "1", name: "All" }]),
+      save: jest.fn(),
+    };
+    const { result } = renderHook(() =>
+      useSearchAndFilterPresets("machines", storage)
+    );
+    expect(result.current.presets).toEqual([
+      { chips: [], id: "1", name: "All" },
+    ]);
+    act(() => {
+      result.current.deletePreset("1");
+    });
+    expect(storage.save).toHaveBeenCalledWith("machines", []);
+  });
+
+  it("loads the presets for a new key", () => {
+    localSearchAndFilterPresetStorage.save("machines", [
+      { chips: [{ value: "gpu" }], id: "1", name: "GPUs" },
+    ]);
+    localSearchAndFilterPresetStorage.save("devices", [
+      { chips: [{ value: "disk" }], id: "2", name: "Disks" },
+    ]);
+    const { result, rerender } = renderHook(
+      ({ key }) => useSearchAndFilterPresets(key),
+      { initialProps: { key: "machines" } }
+    );
+    expect(result.current.presets).toEqual([
+      { chips: [{ value: "gpu" }], id: "1", name: "GPUs" },
+    ]);
+    rerender({ key: "devices" });
+    expect(result.current.presets).toEqual([
+      { chips: [{ value: "disk" }], id: "2", name: "Disks" },
+    ]);
+    act(() => {
+      result.current.savePreset("All", []);
+    });
+    expect(localSearchAndFilterPresetStorage.load("devices")).toEqual([
+      { chips: [{ value: "disk" }], id: "2", name: "Disks" },
+      { chips: [], id: expect.any(String), name: "All" },
+    ]);
+    expect(localSearchAndFilterPresetStorage.load("machines")).toEqual([
+      { chips: [{ value: "gpu" }], id: "1", name: "GPUs" },
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { nanoid } from "nanoid";
+
+import { getStoredValue, setStoredValue } from "utils";
+
+import type { SearchAndFilterChip } from "./types";
+
+export type SearchAndFilterPreset = {
+  /**
+   * The chips to apply when the preset is selected.
+   */
+  chips: SearchAndFilterChip[];
+  /**
+   * A unique id for the preset.
+   */
+  id: string;
+  /**
+   * The name of the preset.
+   */
+  name: string;
+};
+
+export type SearchAndFilterPresetStorage = {
+  /**
+   * Load the stored presets, or null if there are no stored presets.
+   */
+  load: (key: string) => SearchAndFilterPreset[] | null;
+  /**
+   * Store the presets.
+   */
+  save: (key: string, presets: SearchAndFilterPreset[]) => void;
+};
+
+export type SearchAndFilterPresets = {
+  /**
+   * Delete a preset.
+   */
+  deletePreset: (id: string) => void;
+  /**
+   * The saved presets.
+   */
+  presets: SearchAndFilterPreset[];
+  /**
+   * Rename a preset.
+   */
+  renamePreset: (id: string, name: string) => void;
+  /**
+   * Save some chips as a new preset.
+   */
+  savePreset: (name: string, chips: SearchAndFilterChip[]) => void;
+};
+
+/**
+ * Stores the presets in localStorage so that they are kept between sessions.
+ */
+export const localSearchAndFilterPresetStorage: SearchAndFilterPresetStorage = {
+  load: (key) => {
+    const presets = getStoredValue(key);
+    return Array.isArray(presets) ? presets : null;
+  },
+  save: (key, presets) => setStoredValue(key, presets),
+};
+
+/**
+ * A hook that handles saving, renaming and deleting SearchAndFilter presets.
+ * @param key - A key that identifies the presets in the storage.
+ * @param storage - Where to store the presets.
+ */
+export const useSearchAndFilterPresets = (
+  key: string,
+  storage: SearchAndFilterPresetStorage = localSearchAndFilterPresetStorage
+): SearchAndFilterPresets => {
+  const loadPresets = useCallback(
+    (): SearchAndFilterPreset[] => storage.load(key) ?? [],
+    [key, storage]
+  );
+  const [presets, setPresets] = useState<SearchAndFilterPreset[]>(loadPresets);
+  const latestPresets = useRef(presets);
+
+  // Reload the presets when the key or storage changes so that the presets
+  // for the previous key are not saved under the new key.
+  useEffect(() => {
+    const loadedPresets = loadPresets();
+    if (
+      JSON.stringify(loadedPresets) !== JSON.stringify(latestPresets.current)
+    ) {
+      latestPresets.current = loadedPresets;
+      setPresets(loadedPresets);
+    }
+  }, [loadPresets]);
+
+  const updatePresets = useCallback(
+    (update: (presets: SearchAndFilterPreset[]) => SearchAndFilterPreset[]) => {
+      const updatedPresets = update(latestPresets.current);
+      latestPresets.current = updatedPresets;
+      storage.save(key, updatedPresets);
+      setPresets(updatedPresets);
+    },
+    [key, storage]
+  );
+
+  const savePreset = useCallback(
+    (name: string, chips: SearchAndFilterChip[]) =>
+      updatePresets((currentPresets) => [
+        ...currentPresets,
+        { chips, id: nanoid(), name },
+      ]),
+    [updatePresets]
+  );
+
+  const renamePreset = useCallback(
+    (id: string, name: string) =>
+      updatePresets((currentPresets) =>
+        currentPresets.map((preset) =>
+          preset.id === id ? { ...preset, name } : preset
+        )
+      ),
+    [updatePresets]
+  );
+
+  const deletePreset = useCallback(
+    (id: string) =>
+      updatePresets((currentPresets) =>
+        currentPresets.filter((preset) => preset.id !== id)
+      ),
+    [updatePresets]
+  );
+
+  return { deletePreset, presets, renamePreset, savePreset };
+};
@@ -0,0 +1,228 @@
+import {
+  createSearchAndFilterQuery,
+  isEmptySearchAndFilterQuery,
+  matchesSearchAndFilterQuery,
+} from "./query";
+
+describe("createSearchAndFilterQuery", () => {
+  it("groups the chips by lead", () => {
+    expect(
+      createSearchAndFilterQuery([
+        { lead: "Zone", value: "a" },
+        { lead: "Status", value: "Ready", quoteValue: true },
+        { lead: "Zone", value: "b" },
+        { value: "machine" },
+      ])
+    ).toEqual({
+      fields: {
+        Status: [{ exact: true, value: "Ready" }],
+        Zone: [
+          { exact: false, value: "a" },
+          { exact: false, value: "b" },
+        ],
+      },
+      text: [{ exact: false, value: "machine" }],
+    });
+  });
+
+  it("can map the leads to fields", () => {
+    expect(
+      createSearchAndFilterQuery([{ lead: "Availability zone", value: "a" }], {
+        "Availability zone": "zone",
+      }).fields
+    ).toEqual({ zone: [{ exact: false, value: "a" }] });
+  });
+});
+
+describe("isEmptySearchAndFilterQuery", () => {
+  it("handles queries with and without terms", () => {
+    expect(isEmptySearchAndFilterQuery(createSearchAndFilterQuery([]))).toBe(
+      true
+    );
+    expect(isEmptySearchAndFilterQuery(null)).toBe(true);
+    expect(
+      isEmptySearchAndFilterQuery(createSearchAndFilterQuery([{ value: "a" }]))
+    ).toBe(false);
+  });
+});
+
+describe("matchesSearchAndFilterQuery", () => {
+  const machine = {
+    name: "machine-1",
+    status: "Ready",
+    tags: ["gpu", "virtual"],
+    zone: "zone-a",
+  };
+
+  it("matches everything when there are no chips", () => {
+    expect(
+      matchesSearchAndFilterQuery(createSearchAndFilterQuery([]), machine)
+    ).toBe(true);
+  });
+
+  it("matches any of the chips with the same lead", () => {
+    const query = createSearchAndFilterQuery([
+      { lead: "zone", value: "zone-b" },
+      { lead: "zone", value: "zone-a" },
+    ]);
+    expect(matchesSearchAndFilterQuery(query, machine)).toBe(true);
+  });
+
+  it("matches all of the chips with different leads", () => {
+    expect(
+      matchesSearchAndFilterQuery(
+        createSearchAndFilterQuery([
+          { lead: "Zone", value: "zone-a" },
+          { lead: "Status", value: "ready" },
+        ]),
+        machine
+      )
+    ).toBe(true);
+    expect(
+      matchesSearchAndFilterQuery(
+        createSearchAndFilterQuery([
+          { lead: "Zone", value: "zone-a" },
+          { lead: "Status", value: "deploying" },
+        ]),
+        machine
+      )
+    ).toBe(false);
+  });
+
+  it("matches quoted values exactly", () => {
+    expect(
+      matchesSearchAndFilterQuery(
+        createSearchAndFilterQuery([
+          { lead: "status", value: "Read", quoteValue: true },
+        ]),
+        machine
+      )
+    ).toBe(false);
+    expect(
+      matchesSearchAndFilterQuery(
+        createSearchAndFilterQuery([
+          { lead: "status", value: "Ready", quoteValue: true },
+        ]),
+        machine
+      )
+    ).toBe(true);
+  });
+
+  it("matches chips without a lead in any field", () => {
+    expect(
+      matchesSearchAndFilterQuery(
+        createSearchAndFilterQuery([{ value: "virt" }]),
+        machine
+      )
+    ).toBe(true);
+    expect(
+      matchesSearchAndFilterQuery(
+        createSearchAndFilterQuery([{ value: "virt", quoteValue: true }]),
+        machine
+      )
+    ).toBe(false);
+  });
+
+  it("excludes values that match negated chips", () => {
+    expect(
+      matchesSearchAndFilterQuery(
+        createSearchAndFilterQuery([
+          { lead: "zone", negated: true, value: "zone-b" },
+        ]),
+        machine
+      )
+    ).toBe(true);
+    expect(
+      matchesSearchAndFilterQuery(
+        createSearchAndFilterQuery([
+          { lead: "status", value: "ready" },
+          { lead: "zone", negated: true, value: "zone-a" },
+        ]),
+        machine
+      )
+    ).toBe(false);
+    expect(
+      matchesSearchAndFilterQuery(
+        createSearchAndFilterQuery([{ negated: true, value: "gpu" }]),
+        machine
+      )
+    ).toBe(false);
+  });
+
+  it("matches values using the operators", () => {
+    const server = { memory: "32GB", name: "Web-1", zone: "zone-a" };
+    const matches = (chip) =>
+      matchesSearchAndFilterQuery(createSearchAndFilterQuery([chip]), server);
+    expect(matches({ lead: "memory", operator: ">", value: "16GB" })).toBe(
+      true
+    );
+    expect(matches({ lead: "memory", operator: "<", value: "16GB" })).toBe(
+      false
+    );
+    expect(matches({ lead: "zone", operator: "=", value: "ZONE-A" })).toBe(
+      true
+    );
+    expect(matches({ lead: "zone", operator: "=", value: "zone" })).toBe(false);
+    expect(matches({ lead: "zone", operator: "!=", value: "zone-a" })).toBe(
+      false
+    );
+    expect(matches({ lead: "zone", operator: "!=", value: "zone-b" })).toBe(
+      true
+    );
+    expect(
+      matches({ lead: "name", operator: "starts with", value: "web" })
+    ).toBe(true);
+    expect(
+      matches({
+        lead: "name",
+        operator: "starts with",
+        quoteValue: true,
+        value: "web",
+      })
+    ).toBe(false);
+    expect(matches({ lead: "name", operator: "contains", value: "B-" })).toBe(
+      true
+    );
+  });
+
+  it("compares sizes using their units", () => {
+    const matches = (value, chip) =>
+      matchesSearchAndFilterQuery(createSearchAndFilterQuery([chip]), {
+        [chip.lead]: value,
+      });
+    expect(
+      matches("1 GiB", { lead: "memory", operator: ">", value: "900MB" })
+    ).toBe(true);
+    expect(
+      matches("512MiB", { lead: "memory", operator: ">", value: "1GB" })
+    ).toBe(false);
+    expect(
+      matches("2TB", { lead: "memory", operator: ">", value: "16GB" })
+    ).toBe(true);
+    // Other units are ignored.
+    expect(matches("3d", { lead: "uptime", operator: ">", value: "2h" })).toBe(
+      true
+    );
+  });
+
+  it("converts the not equal operator to a negated term", () => {
+    expect(
+      createSearchAndFilterQuery([{ lead: "zone", operator: "!=", value: "a" }])
+        .fields.zone
+    ).toEqual([{ exact: false, negated: true, operator: "=", value: "a" }]);
+    expect(
+      createSearchAndFilterQuery([
+        { lead: "zone", negated: true, operator: "!=", value: "a" },
+      ]).fields.zone
+    ).toEqual([{ exact: false, operator: "=", value: "a" }]);
+  });
+
+  it("does not match fields that do not exist", () => {
+    expect(
+      matchesSearchAndFilterQuery(
+        createSearchAndFilterQuery([{ lead: "cloud", value: "a" }]),
+        machine
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,191 @@
+import { parseBytes } from "utils";
+
+import type { SearchAndFilterChip, SearchAndFilterOperator } from "./types";
+
+export type SearchAndFilterQueryTerm = {
+  /**
+   * Whether the value must match exactly, rather than being contained in the
+   * field's value.
+   */
+  exact: boolean;
+  /**
+   * Whether rows that match the value should be excluded.
+   */
+  negated?: boolean;
+  /**
+   * How to compare the field's value to the term's value. Chips with the "!="
+   * operator are converted to negated terms with the "=" operator.
+   */
+  operator?: Exclude<SearchAndFilterOperator, "!=">;
+  /**
+   * The value to match.
+   */
+  value: string;
+};
+
+export type SearchAndFilterQuery = {
+  /**
+   * The terms for each field. A row must match at least one term for every
+   * field, and must not match any negated terms.
+   */
+  fields: Record<string, SearchAndFilterQueryTerm[]>;
+  /**
+   * The terms from chips without a lead. A row must match at least one of
+   * these terms in any of its fields, and must not match any negated terms in
+   * any of its fields.
+   */
+  text: SearchAndFilterQueryTerm[];
+};
+
+const toTerm = ({
+  negated,
+  operator,
+  quoteValue,
+  value,
+}: SearchAndFilterChip): SearchAndFilterQueryTerm => {
+  const notEqual = operator === "!=";
+  const term: SearchAndFilterQueryTerm = { exact: !!quoteValue, value };
+  if (operator) {
+    term.operator = notEqual ? "=" : operator;
+  }
+  if (!!negated !== notEqual) {
+    term.negated = true;
+  }
+  return term;
+};
+
+/**
+ * Create a query from the chips returned by SearchAndFilter. Chips with the
+ * same lead are combined with OR and chips with different leads are
+ * combined with AND.
+ * @param chips - The selected chips.
+ * @param fields - The field names for each chip lead. If a lead is not
+ * included then the lead is used as the field name.
+ * @returns The query.
+ */
+export const createSearchAndFilterQuery = (
+  chips: SearchAndFilterChip[] = [],
+  fields: Record<string, string> = {}
+): SearchAndFilterQuery =>
+  chips.reduce<SearchAndFilterQuery>(
+    (query, chip) => {
+      if (chip.lead) {
+        const field = fields[chip.lead] ?? chip.lead;
+        query.fields[field] = [...(query.fields[field] ?? []), toTerm(chip)];
+      } else {
+        query.text.push(toTerm(chip));
+      }
+      return query;
+    },
+    { fields: {}, text: [] }
+  );
+
+/**
+ * Whether a query has no terms, so that all rows match.
+ * @param query - The query to check.
+ */
+export const isEmptySearchAndFilterQuery = (
+  query?: SearchAndFilterQuery | null
+): boolean =>
+  !query || (query.text.length === 0 && Object.keys(query.fields).length === 0);
+
+// Get a field's value, falling back to a field with a name that only differs
+// by case, e.g. when the lead is "Zone" and the field is "zone".
+const getFieldValue = (values: Record<string, unknown>, field: string) => {
+  if (field in values) {
+    return values[field];
+  }
+  const key = Object.keys(values).find(
+    (name) => name.toLowerCase() === field.toLowerCase()
+  );
+  return key === undefined ? undefined : values[key];
+};
+
+// Compare values as sizes if they are both sizes, e.g. "1 GiB" and "900MB",
+// then as numbers if they both start with a number, ignoring any other units,
+// or otherwise as text.
+const compare = (text: string, termValue: string) => {
+  const bytes = parseBytes(text);
+  const termBytes = parseBytes(termValue);
+  if (bytes !== null && termBytes !== null) {
+    return bytes - termBytes;
+  }
+  const number = parseFloat(text);
+  const termNumber = parseFloat(termValue);
+  return Number.isNaN(number) || Number.isNaN(termNumber)
+    ? text.localeCompare(termValue, undefined, { numeric: true })
+    : number - termNumber;
+};
+
+// Whether a value, or any of the values in a list, matches a term.
+const matchesTerm = (
+  value: unknown,
+  term: SearchAndFilterQueryTerm
+): boolean => {
+  if (Array.isArray(value)) {
+    return value.some((item) => matchesTerm(item, term));
+  }
+  if (value === null || value === undefined) {
+    return false;
+  }
+  const { exact, operator, value: termValue } = term;
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (operator === ">" || operator === "<") {
+    const difference = compare(text, termValue);
+    return operator === ">" ? difference > 0 : difference < 0;
+  }
+  if (!operator && exact) {
+    return text === termValue;
+  }
+  // Other operators ignore case unless the value is quoted.
+  let search = termValue;
+  if (!exact) {
+    text = text.toLowerCase();
+    search = search.toLowerCase();
+  }
+  switch (operator) {
+    case "=":
+      return text === search;
+    case "starts with":
+      return text.startsWith(search);
+    default:
+      return text.includes(search);
+  }
+};
+
+// Whether a value matches at least one of the terms, or there are no terms
+// other than negated terms, and the value does not match any negated terms.
+const matchesTerms = (
+  terms: SearchAndFilterQueryTerm[],
+  matches: (term: SearchAndFilterQueryTerm) => boolean
+) => {
+  const included = terms.filter(({ negated }) => !negated);
+  return (
+    (included.length === 0 || included.some(matches)) &&
+    !terms.some((term) => term.negated && matches(term))
+  );
+};
+
+/**
+ * Whether a row's values match a query. Quoted values must match a field's
+ * value exactly, and other values match if they are contained in the field's
+ * value, ignoring case. Terms with an operator are compared using the
+ * operator, where ">" and "<" compare numbers, e.g. "cores > 4". Sizes are
+ * compared in bytes, e.g. "memory > 900MB" matches "1 GiB", and other units
+ * are ignored, so the values need to use the same unit.
+ * @param query - The query to match.
+ * @param values - The row's values, e.g. a MainTable row's `sortData` or a
+ * ModularTable row's `values`.
+ */
+export const matchesSearchAndFilterQuery = (
+  query: SearchAndFilterQuery,
+  values: Record<string, unknown> = {}
+): boolean =>
+  Object.entries(query.fields).every(([field, terms]) =>
+    matchesTerms(terms, (term) =>
+      matchesTerm(getFieldValue(values, field), term)
+    )
+  ) &&
+  matchesTerms(query.text, (term) =>
+    Object.values(values).some((value) => matchesTerm(value, term))
+  );
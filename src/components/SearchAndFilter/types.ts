@@ -1,12 +1,36 @@
 export type SearchAndFilterChip = {
   id?: number;
   lead?: string;
+  negated?: boolean;
+  operator?: SearchAndFilterOperator;
   quoteValue?: boolean;
   value: string;
 };
 
+export type SearchAndFilterOperator =
+  | "="
+  | "!="
+  | ">"
+  | "<"
+  | "contains"
+  | "starts with";
+
+export type SearchAndFilterChipsPage = {
+  chips: SearchAndFilterChip[];
+  hasMore?: boolean;
+};
+
+export type SearchAndFilterChipsLoader = (options: {
+  page: number;
+  searchTerm: string;
+  signal: AbortSignal;
+}) => Promise<SearchAndFilterChipsPage>;
+
 export type SearchAndFilterData = {
   id: number;
   chips?: SearchAndFilterChip[];
+  chipsKey?: string;
   heading?: string;
+  loadChips?: SearchAndFilterChipsLoader;
+  operators?: SearchAndFilterOperator[];
 };
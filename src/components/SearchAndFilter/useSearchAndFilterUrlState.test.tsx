@@ -0,0 +1,175 @@
+import { act, render, renderHook, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import React from "react";
+import type { PropsWithChildren } from "react";
+import { MemoryRouter, useLocation, useNavigate } from "react-router-dom";
+
+import SearchAndFilter from "./SearchAndFilter";
+
+import {
+  createSearchAndFilterParamEncoding,
+  createSearchAndFilterTextEncoding,
+  useRouterSearchAndFilterUrlAdapter,
+  useSearchAndFilterUrlState,
+} from "./useSearchAndFilterUrlState";
+
+beforeEach(() => {
+  window.history.replaceState(null, "", "/");
+});
+
+it("loads the chips from the query string", () => {
+  window.history.replaceState(null, "", '/?q=zone:a+-owner:"jane+doe"&page=2');
+  const { result } = renderHook(() => useSearchAndFilterUrlState());
+  expect(result.current.existingSearchData).toEqual([
+    { lead: "zone", value: "a" },
+    { lead: "owner", negated: true, quoteValue: true, value: "jane doe" },
+  ]);
+});
+
+it("adds the chips to the query string", () => {
+  window.history.replaceState(null, "", "/machines?page=2#top");
+  const { result } = renderHook(() => useSearchAndFilterUrlState());
+  const historyLength = window.history.length;
+  act(() => {
+    result.current.returnSearchData([{ lead: "zone", value: "a" }]);
+  });
+  expect(window.location.pathname).toBe("/machines");
+  expect(window.location.search).toBe("?page=2&q=zone%3Aa");
+  expect(window.location.hash).toBe("#top");
+  expect(window.history.length).toBe(historyLength + 1);
+  expect(result.current.existingSearchData).toEqual([
+    { lead: "zone", value: "a" },
+  ]);
+});
+
+it("can replace the current history entry", () => {
+  const { result } = renderHook(() =>
+    useSearchAndFilterUrlState({ replace: true })
+  );
+  const historyLength = window.history.length;
+  act(() => {
+    result.current.returnSearchData([{ value: "gpu" }]);
+  });
+  expect(window.location.search).toBe("?q=gpu");
+  expect(window.history.length).toBe(historyLength);
+});
+
+it("does not navigate if the chips have not changed", () => {
+  window.history.replaceState(null, "", "/?q=gpu");
+  const { result } = renderHook(() => useSearchAndFilterUrlState());
+  const historyLength = window.history.length;
+  act(() => {
+    result.current.returnSearchData([{ value: "gpu" }]);
+  });
+  expect(window.history.length).toBe(historyLength);
+});
+
+it("updates the chips when navigating back and forward", () => {
+  const { result } = renderHook(() => useSearchAndFilterUrlState());
+  act(() => {
+    window.history.replaceState(null, "", "/?q=gpu");
+    window.dispatchEvent(new PopStateEvent("popstate"));
+  });
+  expect(result.current.existingSearchData).toEqual([{ value: "gpu" }]);
+});
+
+it("can use a different parameter", () => {
+  const encoding = createSearchAndFilterTextEncoding("filter");
+  window.history.replaceState(null, "", "/?filter=gpu&q=ignored");
+  const { result } = renderHook(() => useSearchAndFilterUrlState({ encoding }));
+  expect(result.current.existingSearchData).toEqual([{ value: "gpu" }]);
+  act(() => {
+    result.current.returnSearchData([]);
+  });
+  expect(window.location.search).toBe("?q=ignored");
+});
+
+it("can encode the leads as parameters", () => {
+  const encoding = createSearchAndFilterParamEncoding({
+    Status: "status",
+    Time: "time",
+  });
+  const { result } = renderHook(() => useSearchAndFilterUrlState({ encoding }));
+  const chips = [
+    { lead: "Status", value: "ready" },
+    { lead: "Status", negated: true, value: "idle" },
+    { lead: "Time", value: "10:30" },
+    { lead: "Time", operator: ">" as const, value: "12:00" },
+    { lead: "Zone", value: "a" },
+  ];
+  act(() => {
+    result.current.returnSearchData(chips);
+  });
+  expect(Array.from(new URLSearchParams(window.location.search))).toEqual([
+    ["status", "ready"],
+    ["status", "-idle"],
+    ["time", "10:30"],
+    ["time", ">12:00"],
+    ["q", "Zone:a"],
+  ]);
+  expect(result.current.existingSearchData).toEqual(chips);
+});
+
+it("can use react-router", () => {
+  const { result } = renderHook(
+    () => ({
+      location: useLocation(),
+      urlState: useSearchAndFilterUrlState({
+        adapter: useRouterSearchAndFilterUrlAdapter(),
+      }),
+    }),
+    {
+      wrapper: ({ children }: PropsWithChildren) => (
+        <MemoryRouter initialEntries={["/machines?q=gpu"]}>
+          {children}
+        </MemoryRouter>
+      ),
+    }
+  );
+  expect(result.current.urlState.existingSearchData).toEqual([
+    { value: "gpu" },
+  ]);
+  act(() => {
+    result.current.urlState.returnSearchData([{ lead: "zone", value: "a" }]);
+  });
+  expect(result.current.location.pathname).toBe("/machines");
+  expect(result.current.location.search).toBe("?q=zone%3Aa");
+  expect(result.current.urlState.existingSearchData).toEqual([
+    { lead: "zone", value: "a" },
+  ]);
+});
+
+it("can navigate back and forward with react-router", async () => {
+  const RouterSearch = () => {
+    const { search } = useLocation();
+    const navigate = useNavigate();
+    const urlState = useSearchAndFilterUrlState({
+      adapter: useRouterSearchAndFilterUrlAdapter(),
+    });
+    return (
+      <>
+        <SearchAndFilter filterPanelData={[]} {...urlState} />
+        <button onClick={() => navigate(-1)}>Back</button>
+        <button onClick={() => navigate(1)}>Forward</button>
+        <p data-testid="search">{search}</p>
+      </>
+    );
+  };
+  render(
+    <MemoryRouter initialEntries={["/m?q=a", "/m?q=b"]}>
+      <RouterSearch />
+    </MemoryRouter>
+  );
+  const getChip = () =>
+    // eslint-disable-next-line testing-library/no-node-access
+    document.querySelector(
+      ".p-search-and-filter__search-container .p-chip__value"
+    )?.textContent;
+  expect(getChip()).toBe("b");
+  await userEvent.click(screen.getByRole("button", { name: "Back" }));
+  expect(screen.getByTestId("search")).toHaveTextContent("?q=a");
+  expect(getChip()).toBe("a");
+  await userEvent.click(screen.getByRole("button", { name: "Forward" }));
+  expect(screen.getByTestId("search")).toHaveTextContent("?q=b");
+  expect(getChip()).toBe("b");
+});
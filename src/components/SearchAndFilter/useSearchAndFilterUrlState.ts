@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+
+import {
+  parseSearchAndFilterText,
+  parseSearchAndFilterValue,
+  serializeSearchAndFilterChips,
+  serializeSearchAndFilterValue,
+} from "./parser";
+import type { SearchAndFilterChip } from "./types";
+
+export type SearchAndFilterUrlAdapter = {
+  /**
+   * Get the current query string, e.g. "?q=zone:a".
+   */
+  getSearch: () => string;
+  /**
+   * Navigate to a new query string.
+   */
+  setSearch: (search: string, options: { replace: boolean }) => void;
+  /**
+   * Listen for changes to the query string, e.g. when navigating back and
+   * forward. Returns a function that stops listening.
+   */
+  subscribe: (listener: () => void) => () => void;
+};
+
+export type SearchAndFilterUrlEncoding = {
+  /**
+   * Get the chips from the query string parameters.
+   */
+  decode: (params: URLSearchParams) => SearchAndFilterChip[];
+  /**
+   * Set the chips in the query string parameters, replacing any existing
+   * chips.
+   */
+  encode: (chips: SearchAndFilterChip[], params: URLSearchParams) => void;
+};
+
+export type SearchAndFilterUrlState = {
+  /**
+   * The chips in the URL, to pass to SearchAndFilter's `existingSearchData`.
+   */
+  existingSearchData: SearchAndFilterChip[];
+  /**
+   * Update the chips in the URL, to pass to SearchAndFilter's
+   * `returnSearchData`.
+   */
+  returnSearchData: (searchData: SearchAndFilterChip[]) => void;
+};
+
+const browserListeners = new Set<() => void>();
+
+/**
+ * Reads and updates the query string using the browser's history API.
+ */
+export const browserSearchAndFilterUrlAdapter: SearchAndFilterUrlAdapter = {
+  getSearch: () => window.location.search,
+  setSearch: (search, { replace }) => {
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (replace) {
+      window.history.replaceState(window.history.state, "", url);
+    } else {
+      window.history.pushState(null, "", url);
+    }
+    // The history API does not emit an event when the URL is changed, so
+    // notify the listeners directly.
+    browserListeners.forEach((listener) => listener());
+  },
+  subscribe: (listener) => {
+    browserListeners.add(listener);
+    window.addEventListener("popstate", listener);
+    return () => {
+      browserListeners.delete(listener);
+      window.removeEventListener("popstate", listener);
+    };
+  },
+};
+
+/**
+ * A hook that reads and updates the query string using react-router. This
+ * must be used inside a router.
+ * @returns An adapter to pass to `useSearchAndFilterUrlState`.
+ */
+export const useRouterSearchAndFilterUrlAdapter =
+  (): SearchAndFilterUrlAdapter => {
+    const location = useLocation();
+    const navigate = useNavigate();
+    // The location and navigate function change whenever the router
+    // navigates, so they are kept in a ref so that the adapter does not
+    // change.
+    const latest = useRef({ location, navigate });
+    latest.current = { location, navigate };
+    const listeners = useRef(new Set<() => void>());
+
+    // Notify the listeners when the query string changes, e.g. when
+    // navigating back and forward.
+    useEffect(() => {
+      listeners.current.forEach((listener) => listener());
+    }, [location.search]);
+
+    return useMemo(
+      () => ({
+        getSearch: () => latest.current.location.search,
+        setSearch: (search, { replace }) => {
+          const { location, navigate } = latest.current;
+          navigate(
+            { hash: location.hash, pathname: location.pathname, search },
+            { replace }
+          );
+        },
+        subscribe: (listener) => {
+          listeners.current.add(listener);
+          return () => {
+            listeners.current.delete(listener);
+          };
+        },
+      }),
+      []
+    );
+  };
+
+/**
+ * Encodes the chips as text in a single parameter, e.g.
+ * `?q=status:deployed+-zone:a`.
+ * @param param - The name of the parameter.
+ */
+export const createSearchAndFilterTextEncoding = (
+  param = "q"
+): SearchAndFilterUrlEncoding => ({
+  decode: (params) => parseSearchAndFilterText(params.get(param) ?? ""),
+  encode: (chips, params) => {
+    const text = serializeSearchAndFilterChips(chips);
+    if (text) {
+      params.set(param, text);
+    } else {
+      params.delete(param);
+    }
+  },
+});
+
+/**
+ * Encodes the chips for each lead in their own parameter, e.g.
+ * `?status=deployed&zone=-a&memory=>16GB`. Chips for other leads, and chips without a
+ * lead, are encoded as text in the text parameter.
+ * @param fields - The parameter name for each lead.
+ * @param textParam - The name of the parameter for other chips.
+ */
+export const createSearchAndFilterParamEncoding = (
+  fields: Record<string, string>,
+  textParam = "q"
+): SearchAndFilterUrlEncoding => ({
+  decode: (params) => [
+    ...Object.entries(fields).flatMap(([lead, param]) =>
+      params
+        .getAll(param)
+        .map(parseSearchAndFilterValue)
+        .filter((chip) => !!chip)
+        .map((chip) => ({ lead, ...chip }))
+    ),
+    ...parseSearchAndFilterText(params.get(textParam) ?? ""),
+  ],
+  encode: (chips, params) => {
+    Object.values(fields).forEach((param) => params.delete(param));
+    const otherChips = chips.filter((chip) => {
+      if (chip.lead && chip.lead in fields) {
+        params.append(fields[chip.lead], serializeSearchAndFilterValue(chip));
+        return false;
+      }
+      return true;
+    });
+    createSearchAndFilterTextEncoding(textParam).encode(otherChips, params);
+  },
+});
+
+const defaultEncoding = createSearchAndFilterTextEncoding();
+
+/**
+ * A hook that stores SearchAndFilter's chips in the URL query string, so that
+ * the filters can be shared as a link and are updated when navigating back
+ * and forward. The result can be passed to SearchAndFilter, e.g.
+ * `<SearchAndFilter {...useSearchAndFilterUrlState()} filterPanelData={data} />`.
+ * @param {Object} [options]
+ * @param {SearchAndFilterUrlAdapter} [options.adapter=browserSearchAndFilterUrlAdapter] - How to read and update the query string, e.g. `useRouterSearchAndFilterUrlAdapter()`.
+ * @param {SearchAndFilterUrlEncoding} [options.encoding] - How the chips are stored in the query string. Defaults to text in the "q" parameter.
+ * @param {boolean} [options.replace=false] - Whether to replace the current history entry instead of adding a new one when the chips change.
+ */
+export function useSearchAndFilterUrlState(options?: {
+  adapter?: SearchAndFilterUrlAdapter;
+  encoding?: SearchAndFilterUrlEncoding;
+  replace?: boolean;
+}): SearchAndFilterUrlState {
+  const {
+    adapter = browserSearchAndFilterUrlAdapter,
+    encoding = defaultEncoding,
+    replace = false,
+  } = options ?? {};
+  const [search, setSearch] = useState(adapter.getSearch);
+
+  useEffect(() => {
+    const updateSearch = () => setSearch(adapter.getSearch());
+    // The query string may have changed before the listener was added.
+    updateSearch();
+    return adapter.subscribe(updateSearch);
+  }, [adapter]);
+
+  const existingSearchData = useMemo(
+    () => encoding.decode(new URLSearchParams(search)),
+    [encoding, search]
+  );
+
+  const returnSearchData = useCallback(
+    (searchData: SearchAndFilterChip[]) => {
+      const currentParams = new URLSearchParams(adapter.getSearch());
+      const params = new URLSearchParams(currentParams);
+      encoding.encode(searchData, params);
+      const newSearch = params.toString();
+      if (newSearch !== currentParams.toString()) {
+        adapter.setSearch(newSearch ? `?${newSearch}` : "", { replace });
+      }
+    },
+    [adapter, encoding, replace]
+  );
+
+  return { existingSearchData, returnSearchData };
+}
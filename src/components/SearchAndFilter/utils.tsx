@@ -15,13 +15,21 @@ export const overflowingChipsCount = (chips, overflowRowLimit) => {
   return overflowChips;
 };
 
+/**
+ * Check if two chip objects describe the same filter
+ * @param {Object} chip - A chip object {lead: 'foo', value: 'bar'}
+ * @param {Object} otherChip - A chip object to compare against
+ */
+export const isSameChip = (chip, otherChip) =>
+  otherChip.lead === chip.lead &&
+  otherChip.value === chip.value &&
+  !!otherChip.negated === !!chip.negated &&
+  otherChip.operator === chip.operator;
+
 /**
  * Check if supplied chip object already exists in searchData prop
  * @param {Object} chip - A chip object {lead: 'foo', value: 'bar'}
  * @param {Array} existingArr - An array of chip objects
  */
 export const isChipInArray = (chip, existingArr) =>
-  existingArr?.some(
-    (searchDataItem) =>
-      searchDataItem.lead === chip.lead && searchDataItem.value === chip.value
-  );
+  existingArr?.some((searchDataItem) => isSameChip(chip, searchDataItem));
@@ -1,7 +1,8 @@
-import { render, screen } from "@testing-library/react";
+import { act, render, screen, waitFor, within } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import React from "react";
-import SearchBox, { Label } from "./SearchBox";
+import SearchBox, { Label, SUGGESTION_DELAY } from "./SearchBox";
+import type { SearchBoxSuggestion } from "./types";
 
 describe("SearchBox ", () => {
   it("renders", () => {
@@ -102,4 +103,163 @@ describe("SearchBox ", () => {
     await userEvent.click(screen.getByRole("button", { name: Label.Clear }));
     expect(handleOnClear).toBeCalled();
   });
+
+  describe("suggestions", () => {
+    // The highlighted characters split the accessible name of the options, so
+    // match the options by their text instead.
+    const withText = (text: string) => ({
+      name: (_name: string, element: Element) => element.textContent === text,
+    });
+
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    it("displays suggestions for the search term", async () => {
+      const getSuggestions = jest
+        .fn()
+        .mockReturnValue([{ value: "admin" }, { value: "administrator" }]);
+      render(<SearchBox getSuggestions={getSuggestions} suggestionDelay={0} />);
+      const input = screen.getByRole("combobox");
+      expect(input).toHaveAttribute("aria-expanded", "false");
+      await userEvent.type(input, "adm");
+      expect(
+        await screen.findByRole("option", withText("administrator"))
+      ).toBeInTheDocument();
+      expect(input).toHaveAttribute("aria-expanded", "true");
+      expect(getSuggestions).toHaveBeenLastCalledWith("adm", {
+        signal: expect.any(AbortSignal),
+      });
+    });
+
+    it("waits for the search term to stop changing", async () => {
+      jest.useFakeTimers();
+      const getSuggestions = jest.fn().mockResolvedValue([{ value: "admin" }]);
+      render(<SearchBox getSuggestions={getSuggestions} />);
+      const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
+      await user.type(screen.getByRole("combobox"), "adm");
+      expect(getSuggestions).not.toHaveBeenCalled();
+      await act(async () => {
+        jest.advanceTimersByTime(SUGGESTION_DELAY);
+      });
+      expect(getSuggestions).toHaveBeenCalledTimes(1);
+      expect(getSuggestions).toHaveBeenCalledWith("adm", expect.any(Object));
+      expect(
+        await screen.findByRole("option", withText("admin"))
+      ).toBeInTheDocument();
+      jest.useRealTimers();
+    });
+
+    it("cancels requests for previous search terms", async () => {
+      const signals: AbortSignal[] = [];
+      const getSuggestions = jest.fn(
+        (_term: string, { signal }: { signal: AbortSignal }) => {
+          signals.push(signal);
+          return new Promise<SearchBoxSuggestion[]>(() => {
+            // Never resolve so that the request is still pending.
+          });
+        }
+      );
+      render(<SearchBox getSuggestions={getSuggestions} suggestionDelay={0} />);
+      const input = screen.getByRole("combobox");
+      await userEvent.type(input, "a");
+      await waitFor(() => expect(getSuggestions).toHaveBeenCalledTimes(1));
+      await userEvent.type(input, "b");
+      await waitFor(() => expect(getSuggestions).toHaveBeenCalledTimes(2));
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[1].aborted).toBe(false);
+      expect(screen.getByText(Label.Loading)).toBeInTheDocument();
+    });
+
+    it("can select a suggestion with the keyboard", async () => {
+      const onChange = jest.fn();
+      const onSelectSuggestion = jest.fn();
+      render(
+        <SearchBox
+          getSuggestions={() => [{ value: "admin" }, { value: "adminer" }]}
+          onChange={onChange}
+          onSelectSuggestion={onSelectSuggestion}
+          suggestionDelay={0}
+        />
+      );
+      const input = screen.getByRole("combobox");
+      await userEvent.type(input, "adm");
+      await screen.findByRole("option", withText("admin"));
+      await userEvent.keyboard("{ArrowDown}{ArrowDown}");
+      const option = screen.getByRole("option", withText("adminer"));
+      expect(option).toHaveAttribute("aria-selected", "true");
+      expect(input).toHaveAttribute("aria-activedescendant", option.id);
+      await userEvent.keyboard("{ArrowDown}");
+      expect(screen.getByRole("option", withText("admin"))).toHaveAttribute(
+        "aria-selected",
+        "true"
+      );
+      await userEvent.keyboard("{ArrowUp}{Enter}");
+      expect(onSelectSuggestion).toHaveBeenCalledWith({ value: "adminer" });
+      expect(onChange).toHaveBeenLastCalledWith("adminer");
+      expect(input).toHaveValue("adminer");
+      expect(screen.queryByRole("listbox")).not.toBeInTheDocument();
+    });
+
+    it("closes the suggestions when pressing escape", async () => {
+      render(
+        <SearchBox
+          getSuggestions={() => [{ value: "admin" }]}
+          suggestionDelay={0}
+        />
+      );
+      await userEvent.type(screen.getByRole("combobox"), "adm");
+      await screen.findByRole("listbox");
+      await userEvent.keyboard("{Escape}");
+      expect(screen.queryByRole("listbox")).not.toBeInTheDocument();
+    });
+
+    it("groups the suggestions under headings", async () => {
+      render(
+        <SearchBox
+          getSuggestions={() => [
+            { group: "Users", value: "admin" },
+            { group: "Machines", value: "admin-pc" },
+            { group: "Users", value: "adam" },
+          ]}
+          suggestionDelay={0}
+        />
+      );
+      await userEvent.type(screen.getByRole("combobox"), "ad");
+      const users = await screen.findByRole("group", { name: "Users" });
+      expect(
+        within(users)
+          .getAllByRole("option")
+          .map(({ textContent }) => textContent)
+      ).toEqual(["admin", "adam"]);
+      await userEvent.keyboard("{ArrowDown}{ArrowDown}");
+      expect(
+        within(users).getByRole("option", withText("adam"))
+      ).toHaveAttribute("aria-selected", "true");
+      expect(
+        within(screen.getByRole("group", { name: "Machines" })).getByRole(
+          "option",
+          withText("admin-pc")
+        )
+      ).toBeInTheDocument();
+    });
+
+    it("suggests recent searches", async () => {
+      const onSearch = jest.fn();
+      const { unmount } = render(
+        <SearchBox onSearch={onSearch} recentSearchesKey="recent" />
+      );
+      await userEvent.type(screen.getByRole("combobox"), "first");
+      await userEvent.click(screen.getByRole("button", { name: Label.Search }));
+      expect(onSearch).toHaveBeenCalled();
+      unmount();
+      render(<SearchBox recentSearchesKey="recent" />);
+      await userEvent.click(screen.getByRole("combobox"));
+      expect(
+        within(
+          screen.getByRole("group", { name: Label.RecentSearches })
+        ).getByRole("option", withText("first"))
+      ).toBeInTheDocument();
+    });
+  });
 });
@@ -1,15 +1,33 @@
 import classNames from "classnames";
-import React, { HTMLProps, useRef } from "react";
+import React, { HTMLProps, useEffect, useRef, useState } from "react";
+import type { KeyboardEvent } from "react";
 
 import Icon from "../Icon";
+import ListboxDropdown, {
+  orderByGroup,
+  useListboxNavigation,
+} from "../ListboxDropdown";
+import Spinner from "../Spinner";
+import { useDebouncedLoader, useId } from "hooks";
+import { highlightFuzzyMatch } from "utils";
 
 import type { ClassName, PropsWithSpread } from "types";
+import type { SearchBoxSuggestion, SearchBoxSuggestionsGetter } from "./types";
+import { useRecentSearches } from "./useRecentSearches";
 
 export enum Label {
   Clear = "Clear search field",
+  Loading = "Loading suggestions",
+  RecentSearches = "Recent searches",
   Search = "Search",
+  Suggestions = "Suggestions",
 }
 
+export const SUGGESTION_DELAY = 300;
+
+// A constant so that the suggestions do not change when there are none.
+const NO_SUGGESTIONS: SearchBoxSuggestion[] = [];
+
 export type Props = PropsWithSpread<
   {
     /**
@@ -28,6 +46,11 @@ export type Props = PropsWithSpread<
      * Whether the input value will be controlled via external state.
      */
     externallyControlled?: boolean;
+    /**
+     * A function that returns the suggestions to display for a search term.
+     * The suggestions can be returned directly or as a promise.
+     */
+    getSuggestions?: SearchBoxSuggestionsGetter;
     /**
      * A function that will be called when the input value changes.
      */
@@ -40,6 +63,11 @@ export type Props = PropsWithSpread<
      * A function that is called when the user clicks the reset icon
      */
     onClear?: () => void;
+    /**
+     * A function that is called when the user selects a suggestion or recent
+     * search.
+     */
+    onSelectSuggestion?: (suggestion: SearchBoxSuggestion) => void;
     /**
      * A search input placeholder message.
      */
@@ -48,10 +76,20 @@ export type Props = PropsWithSpread<
      * Whether the search input should receive focus after pressing the reset button
      */
     shouldRefocusAfterReset?: boolean;
+    /**
+     * A key that identifies the recent searches in localStorage. When this is
+     * provided the recent searches are suggested when the input is empty.
+     */
+    recentSearchesKey?: string;
     /**
      * A ref that is passed to the input element.
      */
     ref?: string;
+    /**
+     * How long to wait for the user to stop typing before getting the
+     * suggestions, in milliseconds.
+     */
+    suggestionDelay?: number;
     /**
      * The value of the search input when the state is externally controlled.
      */
@@ -67,18 +105,113 @@ const SearchBox = React.forwardRef<HTMLInputElement, Props>(
       className,
       disabled,
       externallyControlled,
+      getSuggestions,
+      onBlur,
       onChange,
+      onFocus,
+      onKeyDown,
       onSearch,
       onClear,
+      onSelectSuggestion,
       placeholder = "Search",
+      recentSearchesKey,
       shouldRefocusAfterReset,
+      suggestionDelay = SUGGESTION_DELAY,
       value,
       ...props
     }: Props,
     forwardedRef
   ): JSX.Element => {
     const internalRef = useRef<HTMLInputElement>();
+    const wrapper = useRef<HTMLDivElement>(null);
+    const listboxId = useId();
+    const [inputValue, setInputValue] = useState(value ?? "");
+    const [suggestionsOpen, setSuggestionsOpen] = useState(false);
+    const hasSuggestions = !!getSuggestions || !!recentSearchesKey;
+    const term = (externallyControlled ? value : inputValue) ?? "";
+    // The suggestions are fetched once the search term stops changing.
+    const loadedSuggestions = useDebouncedLoader(
+      getSuggestions && suggestionsOpen && term.trim()
+        ? ({ signal }) => getSuggestions(term, { signal })
+        : null,
+      term,
+      suggestionDelay
+    );
+    const { loading } = loadedSuggestions;
+    // No suggestions are displayed if they could not be fetched.
+    const suggestions =
+      (!loadedSuggestions.error && loadedSuggestions.result) || NO_SUGGESTIONS;
+    const { addRecentSearch, recentSearches } =
+      useRecentSearches(recentSearchesKey);
+    // The recent searches are suggested until the user starts typing.
+    const ungroupedOptions: SearchBoxSuggestion[] = term.trim()
+      ? suggestions
+      : recentSearches.map((search) => ({
+          group: Label.RecentSearches,
+          value: search,
+        }));
+    const options = orderByGroup(ungroupedOptions);
+    const showSuggestions =
+      hasSuggestions &&
+      suggestionsOpen &&
+      (options.length > 0 || (loading && !!term.trim()));
+    const {
+      activeDescendant,
+      activeIndex,
+      getOptionId,
+      handleKeyDown: handleListboxKeyDown,
+      setActiveIndex,
+    } = useListboxNavigation({
+      listboxId,
+      open: showSuggestions,
+      options,
+      onChoose: (index) => selectSuggestion(options[index]),
+      onClose: () => closeSuggestions(),
+      onOpen: () => setSuggestionsOpen(true),
+    });
+
+    // The active suggestion may no longer exist when the suggestions change.
+    useEffect(() => {
+      setActiveIndex(-1);
+    }, [suggestions, setActiveIndex]);
+
+    const closeSuggestions = () => {
+      setSuggestionsOpen(false);
+      setActiveIndex(-1);
+    };
+
+    const updateValue = (newValue: string) => {
+      setInputValue(newValue);
+      setActiveIndex(-1);
+      onChange?.(newValue);
+    };
+
+    const selectSuggestion = (suggestion: SearchBoxSuggestion) => {
+      if (!externallyControlled && internalRef.current) {
+        internalRef.current.value = suggestion.value;
+      }
+      updateValue(suggestion.value);
+      addRecentSearch(suggestion.value);
+      closeSuggestions();
+      onSelectSuggestion?.(suggestion);
+    };
+
+    // Handle the keyboard interactions for the suggestions.
+    const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+      onKeyDown?.(event);
+      if (
+        hasSuggestions &&
+        !handleListboxKeyDown(event) &&
+        event.key === "Enter"
+      ) {
+        // Store the search when it is submitted without choosing a
+        // suggestion.
+        addRecentSearch(term);
+        closeSuggestions();
+      }
+    };
     const resetInput = () => {
+      setInputValue("");
       onChange?.("");
       onClear?.();
       if (internalRef.current) {
@@ -88,21 +221,46 @@ const SearchBox = React.forwardRef<HTMLInputElement, Props>(
     };
 
     const triggerSearch = () => {
+      addRecentSearch(term);
+      closeSuggestions();
       onSearch && onSearch();
     };
 
     return (
-      <div className={classNames("p-search-box", className)}>
+      <div className={classNames("p-search-box", className)} ref={wrapper}>
         <label className="u-off-screen" htmlFor="search">
           {placeholder || "Search"}
         </label>
         <input
-          autoComplete={autocomplete}
+          {...(hasSuggestions
+            ? {
+                "aria-activedescendant": activeDescendant,
+                "aria-autocomplete": "list",
+                "aria-controls": listboxId,
+                "aria-expanded": showSuggestions,
+                role: "combobox",
+              }
+            : {})}
+          // The browser's own suggestions would cover the search box
+          // suggestions.
+          autoComplete={hasSuggestions ? "off" : autocomplete}
           className="p-search-box__input"
           disabled={disabled}
           id="search"
           name="search"
-          onChange={(evt) => onChange?.(evt.target.value)}
+          onBlur={(event) => {
+            closeSuggestions();
+            onBlur?.(event);
+          }}
+          onChange={(evt) => {
+            setSuggestionsOpen(hasSuggestions);
+            updateValue(evt.target.value);
+          }}
+          onFocus={(event) => {
+            setSuggestionsOpen(hasSuggestions);
+            onFocus?.(event);
+          }}
+          onKeyDown={handleKeyDown}
           placeholder={placeholder}
           ref={(input) => {
             internalRef.current = input;
@@ -135,6 +293,23 @@ const SearchBox = React.forwardRef<HTMLInputElement, Props>(
         >
           <Icon name="search">{Label.Search}</Icon>
         </button>
+        {showSuggestions ? (
+          <ListboxDropdown
+            activeIndex={activeIndex}
+            getOptionId={getOptionId}
+            id={listboxId}
+            label={Label.Suggestions}
+            onChoose={(index) => selectSuggestion(options[index])}
+            options={options}
+            reference={wrapper.current}
+            renderOption={(suggestion) =>
+              suggestion.label ?? highlightFuzzyMatch(suggestion.value, term)
+            }
+            status={
+              options.length === 0 ? <Spinner text={Label.Loading} /> : null
+            }
+          />
+        ) : null}
       </div>
     );
   }
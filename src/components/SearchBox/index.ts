@@ -1,2 +1,3 @@
 export { default } from "./SearchBox";
 export type { Props as SearchBoxProps } from "./SearchBox";
+export type { SearchBoxSuggestion, SearchBoxSuggestionsGetter } from "./types";
@@ -0,0 +1,27 @@
+import type { ReactNode } from "react";
+
+export type SearchBoxSuggestion = {
+  /**
+   * A heading to group the suggestion under.
+   */
+  group?: string;
+  /**
+   * The content to display for the suggestion, defaults to the value with the
+   * characters that match the search term highlighted.
+   */
+  label?: ReactNode;
+  /**
+   * The value to put in the search input when the suggestion is selected.
+   */
+  value: string;
+};
+
+/**
+ * A function that returns the suggestions for a search term, either directly
+ * or as a promise. The signal is aborted when the suggestions are no longer
+ * needed, e.g. because the search term has changed.
+ */
+export type SearchBoxSuggestionsGetter = (
+  term: string,
+  options: { signal: AbortSignal }
+) => SearchBoxSuggestion[] | Promise<SearchBoxSuggestion[]>;
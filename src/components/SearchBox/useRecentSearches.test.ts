@@ -0,0 +1,61 @@
+import { act, renderHook } from "@testing-library/react";
+
+import { getStoredValue, setStoredValue } from "utils";
+
+import { MAX_RECENT_SEARCHES, useRecentSearches } from "./useRecentSearches";
+
+beforeEach(() => {
+  window.localStorage.clear();
+});
+
+describe("useRecentSearches", () => {
+  it("stores the newest searches first", () => {
+    const { result } = renderHook(() => useRecentSearches("machines"));
+    act(() => {
+      ["gpu", "arm", " gpu "].forEach((search) =>
+        result.current.addRecentSearch(search)
+      );
+    });
+    expect(result.current.recentSearches).toStrictEqual(["gpu", "arm"]);
+    expect(getStoredValue("machines")).toStrictEqual(["gpu", "arm"]);
+  });
+
+  it("limits the number of searches", () => {
+    const { result } = renderHook(() => useRecentSearches("machines"));
+    act(() => {
+      for (let i = 0; i <= MAX_RECENT_SEARCHES; i++) {
+        result.current.addRecentSearch(`search ${i}`);
+      }
+    });
+    expect(result.current.recentSearches).toHaveLength(MAX_RECENT_SEARCHES);
+    expect(result.current.recentSearches[0]).toBe(
+      `search ${MAX_RECENT_SEARCHES}`
+    );
+  });
+
+  it("does not store the searches without a key", () => {
+    const { result } = renderHook(() => useRecentSearches());
+    act(() => {
+      result.current.addRecentSearch("gpu");
+    });
+    expect(result.current.recentSearches).toStrictEqual([]);
+    expect(window.localStorage).toHaveLength(0);
+  });
+
+  it("loads the searches for a new key", () => {
+    setStoredValue("machines", ["gpu"]);
+    setStoredValue("devices", ["disk"]);
+    const { result, rerender } = renderHook(
+      ({ key }) => useRecentSearches(key),
+      { initialProps: { key: "machines" } }
+    );
+    expect(result.current.recentSearches).toStrictEqual(["gpu"]);
+    rerender({ key: "devices" });
+    expect(result.current.recentSearches).toStrictEqual(["disk"]);
+    act(() => {
+      result.current.addRecentSearch("nvme");
+    });
+    expect(getStoredValue("devices")).toStrictEqual(["nvme", "disk"]);
+    expect(getStoredValue("machines")).toStrictEqual(["gpu"]);
+  });
+});
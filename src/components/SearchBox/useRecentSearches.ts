@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { getStoredValue, setStoredValue } from "utils";
+
+export const MAX_RECENT_SEARCHES = 5;
+
+export type RecentSearches = {
+  /**
+   * Add a search to the start of the recent searches.
+   */
+  addRecentSearch: (search: string) => void;
+  /**
+   * The recent searches, from the newest to the oldest.
+   */
+  recentSearches: string[];
+};
+
+const loadRecentSearches = (key?: string): string[] => {
+  const stored = key ? getStoredValue(key) : null;
+  return Array.isArray(stored) ? stored : [];
+};
+
+/**
+ * Keep track of the recent searches in localStorage.
+ * @param key - A key that identifies the searches in localStorage. If this is
+ * not provided then the searches are not stored.
+ */
+export const useRecentSearches = (key?: string): RecentSearches => {
+  const [recentSearches, setRecentSearches] = useState(() =>
+    loadRecentSearches(key)
+  );
+  const latestSearches = useRef(recentSearches);
+
+  // Reload the searches when the key changes so that the searches for the
+  // previous key are not stored under the new key.
+  useEffect(() => {
+    const loadedSearches = loadRecentSearches(key);
+    if (
+      JSON.stringify(loadedSearches) !== JSON.stringify(latestSearches.current)
+    ) {
+      latestSearches.current = loadedSearches;
+      setRecentSearches(loadedSearches);
+    }
+  }, [key]);
+
+  const addRecentSearch = useCallback(
+    (search: string) => {
+      const trimmed = search.trim();
+      if (!key || !trimmed) {
+        return;
+      }
+      const updatedSearches = [
+        trimmed,
+        ...latestSearches.current.filter((current) => current !== trimmed),
+      ].slice(0, MAX_RECENT_SEARCHES);
+      latestSearches.current = updatedSearches;
+      setStoredValue(key, updatedSearches);
+      setRecentSearches(updatedSearches);
+    },
+    [key]
+  );
+
+  return { addRecentSearch, recentSearches };
+};
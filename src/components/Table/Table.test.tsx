@@ -1,4 +1,5 @@
 import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
 import React from "react";
 
 import Table from "./Table";
@@ -32,4 +33,52 @@ describe("Table", () => {
     expect(screen.getByTestId(TEST_ID)).toHaveClass("p-table--mobile-card");
     expect(screen.getByTestId(TEST_ID)).toHaveClass("extra-class");
   });
+
+  it("can have a sticky header and frozen columns", () => {
+    render(
+      <Table frozenColumns={1} stickyHeader style={{ maxWidth: "10rem" }}>
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>alpha</td>
+            <td>deployed</td>
+          </tr>
+        </tbody>
+      </Table>
+    );
+    const table = screen.getByRole("grid");
+    expect(table).toHaveClass("p-table--sticky-header");
+    expect(table).toHaveClass("p-table--frozen-columns-1");
+    expect(table.style.getPropertyValue("--sticky-cells-left-1")).toBe("0px");
+    // The table's own style is kept.
+    expect(table).toHaveStyle({ maxWidth: "10rem" });
+  });
+
+  it("can navigate between cells using the keyboard", async () => {
+    const onKeyDown = jest.fn();
+    render(
+      <Table gridNavigation onKeyDown={onKeyDown}>
+        <tbody>
+          <tr>
+            <td>Name</td>
+            <td>Zone</td>
+          </tr>
+        </tbody>
+      </Table>
+    );
+    await userEvent.tab();
+    expect(screen.getByRole("cell", { name: "Name" })).toHaveFocus();
+    await userEvent.keyboard("{ArrowRight}");
+    expect(screen.getByRole("cell", { name: "Zone" })).toHaveFocus();
+    expect(screen.getByRole("cell", { name: "Zone" })).toHaveAttribute(
+      "aria-colindex",
+      "2"
+    );
+    expect(onKeyDown).toHaveBeenCalled();
+  });
 });
@@ -2,6 +2,10 @@ import classNames from "classnames";
 import React, { HTMLProps, ReactNode } from "react";
 
 import type { ClassName, PropsWithSpread } from "types";
+import { useGridNavigation, useStickyCells } from "hooks";
+import type { GridNavigationOptions } from "hooks";
+
+import "./Table.scss";
 
 export type Props = PropsWithSpread<
   {
@@ -17,10 +21,26 @@ export type Props = PropsWithSpread<
      * Whether the table can expand hidden cells.
      */
     expanding?: boolean;
+    /**
+     * The number of leading columns to keep at the left edge of the scroll
+     * container when scrolling horizontally, up to 10.
+     */
+    frozenColumns?: number;
+    /**
+     * Whether the cells can be navigated using the keyboard, following the
+     * ARIA grid pattern. The arrow, home, end, page up and page down keys
+     * move between cells, enter moves to the controls inside a cell and
+     * escape moves back to the cell.
+     */
+    gridNavigation?: boolean | GridNavigationOptions;
     /**
      * Whether the table should show card styling on smaller screens.
      */
     responsive?: boolean;
+    /**
+     * Whether the header should stay at the top of the scroll container.
+     */
+    stickyHeader?: boolean;
   },
   HTMLProps<HTMLTableElement>
 >;
@@ -29,19 +49,47 @@ const Table = ({
   children,
   className,
   expanding = false,
+  frozenColumns = 0,
+  gridNavigation = false,
   responsive = false,
+  stickyHeader = false,
+  onBlur,
+  onFocus,
+  onKeyDown,
+  style,
   ...props
-}: Props): JSX.Element => (
-  <table
-    role="grid"
-    className={classNames(className, {
-      "p-table--mobile-card": responsive,
-      "p-table--expanding": expanding,
-    })}
-    {...props}
-  >
-    {children}
-  </table>
-);
+}: Props): JSX.Element => {
+  const grid = useGridNavigation(
+    !!gridNavigation,
+    typeof gridNavigation === "object" ? gridNavigation : undefined
+  );
+  const sticky = useStickyCells(grid.ref, { frozenColumns, stickyHeader });
+  return (
+    <table
+      role="grid"
+      className={classNames(className, sticky.className, {
+        "p-table--mobile-card": responsive,
+        "p-table--expanding": expanding,
+      })}
+      onBlur={(event) => {
+        onBlur?.(event);
+        grid.onBlur(event);
+      }}
+      onFocus={(event) => {
+        onFocus?.(event);
+        grid.onFocus(event);
+      }}
+      onKeyDown={(event) => {
+        onKeyDown?.(event);
+        grid.onKeyDown(event);
+      }}
+      ref={grid.ref}
+      style={sticky.style || style ? { ...sticky.style, ...style } : undefined}
+      {...props}
+    >
+      {children}
+    </table>
+  );
+};
 
 export default Table;
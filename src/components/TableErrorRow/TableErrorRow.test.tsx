@@ -0,0 +1,38 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import React from "react";
+
+import TableErrorRow from "./TableErrorRow";
+
+describe("TableErrorRow", () => {
+  it("displays the error in a notification", () => {
+    render(
+      <table>
+        <tbody>
+          <TableErrorRow columnCount={3} error="Could not load machines" />
+        </tbody>
+      </table>
+    );
+    expect(screen.getByRole("gridcell")).toHaveAttribute("colspan", "3");
+    expect(screen.getByText("Could not load machines")).toBeInTheDocument();
+    expect(screen.getByText("Error")).toHaveClass("p-notification__title");
+    expect(screen.queryByRole("button")).not.toBeInTheDocument();
+  });
+
+  it("can display a retry action", async () => {
+    const onRetry = jest.fn();
+    render(
+      <table>
+        <tbody>
+          <TableErrorRow
+            columnCount={3}
+            error="Could not load machines"
+            onRetry={onRetry}
+          />
+        </tbody>
+      </table>
+    );
+    await userEvent.click(screen.getByRole("button", { name: "Retry" }));
+    expect(onRetry).toHaveBeenCalled();
+  });
+});
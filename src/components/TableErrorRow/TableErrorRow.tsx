@@ -0,0 +1,58 @@
+import React from "react";
+import type { ReactNode } from "react";
+
+import Notification from "../Notification";
+import TableCell from "../TableCell";
+import TableRow from "../TableRow";
+
+export type Props = {
+  /**
+   * The number of columns for the row to span.
+   */
+  columnCount: number;
+  /**
+   * The error message.
+   */
+  error: ReactNode;
+  /**
+   * A function that is called to load the rows again.
+   */
+  onRetry?: () => void;
+  /**
+   * The label for the retry action.
+   */
+  retryLabel?: string;
+  /**
+   * The title of the error notification.
+   */
+  title?: ReactNode;
+};
+
+/**
+ * A table row that displays an error, e.g. when the rows could not be
+ * loaded.
+ */
+const TableErrorRow = ({
+  columnCount,
+  error,
+  onRetry,
+  retryLabel = "Retry",
+  title = "Error",
+}: Props): JSX.Element => (
+  <TableRow>
+    <TableCell colSpan={columnCount}>
+      <Notification
+        actions={
+          onRetry ? [{ label: retryLabel, onClick: onRetry }] : undefined
+        }
+        className="u-no-margin--bottom"
+        severity="negative"
+        title={title}
+      >
+        {error}
+      </Notification>
+    </TableCell>
+  </TableRow>
+);
+
+export default TableErrorRow;
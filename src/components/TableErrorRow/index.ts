@@ -0,0 +1,2 @@
+export { default } from "./TableErrorRow";
+export type { Props as TableErrorRowProps } from "./TableErrorRow";
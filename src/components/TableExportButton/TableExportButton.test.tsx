@@ -0,0 +1,88 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import React from "react";
+
+import TableExportButton from "./TableExportButton";
+
+const data = {
+  headers: ["Name", "Cores"],
+  rows: [["machine-1", 2]],
+};
+
+describe("TableExportButton", () => {
+  let click: jest.SpyInstance;
+
+  beforeEach(() => {
+    URL.createObjectURL = jest.fn().mockReturnValue("blob:export");
+    URL.revokeObjectURL = jest.fn();
+    // jsdom does not implement the navigation that downloads the file.
+    click = jest
+      .spyOn(HTMLAnchorElement.prototype, "click")
+      .mockImplementation(jest.fn());
+  });
+
+  afterEach(() => {
+    click.mockRestore();
+  });
+
+  it("displays a link for each format", async () => {
+    render(
+      <TableExportButton getData={() => data} formats={["csv", "json"]} />
+    );
+    await userEvent.click(screen.getByRole("button", { name: "Export" }));
+    expect(
+      screen.getByRole("button", { name: "Export as CSV" })
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "Export as JSON" })
+    ).toBeInTheDocument();
+    expect(
+      screen.queryByRole("button", { name: "Export as TSV" })
+    ).not.toBeInTheDocument();
+  });
+
+  it("can export the visible page or all rows", async () => {
+    const getData = jest.fn().mockReturnValue(data);
+    render(<TableExportButton getData={getData} paginated />);
+    await userEvent.click(screen.getByRole("button", { name: "Export" }));
+    await userEvent.click(
+      screen.getByRole("button", { name: "Visible page as CSV" })
+    );
+    expect(getData).toHaveBeenLastCalledWith("page");
+    await userEvent.click(screen.getByRole("button", { name: "Export" }));
+    await userEvent.click(
+      screen.getByRole("button", { name: "All rows as TSV" })
+    );
+    expect(getData).toHaveBeenLastCalledWith("all");
+    expect(click).toHaveBeenCalledTimes(2);
+  });
+
+  it("downloads the file", async () => {
+    render(<TableExportButton getData={() => data} filename="machines" />);
+    await userEvent.click(screen.getByRole("button", { name: "Export" }));
+    await userEvent.click(
+      screen.getByRole("button", { name: "Export as CSV" })
+    );
+    expect(click).toHaveBeenCalledTimes(1);
+    const [link] = click.mock.instances as HTMLAnchorElement[];
+    expect(link.download).toBe("machines.csv");
+    expect(link.href).toBe("blob:export");
+    const blob: Blob = (URL.createObjectURL as jest.Mock).mock.calls[0][0];
+    expect(blob.type).toBe("text/csv;charset=utf-8");
+    await waitFor(() =>
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:export")
+    );
+  });
+
+  it("does not download the file if the export is handled", async () => {
+    const onExport = jest.fn().mockReturnValue(false);
+    render(<TableExportButton getData={() => data} onExport={onExport} />);
+    await userEvent.click(screen.getByRole("button", { name: "Export" }));
+    await userEvent.click(
+      screen.getByRole("button", { name: "Export as JSON" })
+    );
+    expect(onExport).toHaveBeenCalledWith(data, "json", "all");
+    expect(URL.createObjectURL).not.toHaveBeenCalled();
+    expect(click).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+import React from "react";
+
+import ContextualMenu from "../ContextualMenu";
+import { downloadTableData } from "./utils";
+import type {
+  TableExportData,
+  TableExportFormat,
+  TableExportScope,
+} from "./utils";
+
+export type Props = {
+  /**
+   * A function that returns the headings and rows to export, either for the
+   * rows on the visible page or for all of the rows.
+   */
+  getData: (scope: TableExportScope) => TableExportData;
+  /**
+   * The name of the exported file, without the extension.
+   */
+  filename?: string;
+  /**
+   * The formats that can be exported.
+   */
+  formats?: TableExportFormat[];
+  /**
+   * A function that is called when the data is exported. If this returns
+   * `false` the file will not be downloaded.
+   */
+  onExport?: (
+    data: TableExportData,
+    format: TableExportFormat,
+    scope: TableExportScope
+  ) => boolean | void;
+  /**
+   * Whether the rows are paginated, in which case the visible page or all
+   * of the rows can be exported.
+   */
+  paginated?: boolean;
+  /**
+   * The label for the menu toggle.
+   */
+  toggleLabel?: string;
+};
+
+const FORMAT_LABELS: Record<TableExportFormat, string> = {
+  csv: "CSV",
+  tsv: "TSV",
+  json: "JSON",
+};
+
+const TableExportButton = ({
+  getData,
+  filename = "export",
+  formats = ["csv", "tsv", "json"],
+  onExport,
+  paginated = false,
+  toggleLabel = "Export",
+}: Props): JSX.Element => {
+  const exportData = (format: TableExportFormat, scope: TableExportScope) => {
+    const data = getData(scope);
+    if (onExport?.(data, format, scope) !== false) {
+      downloadTableData(data, format, filename);
+    }
+  };
+  const generateLinks = (scope: TableExportScope) =>
+    formats.map((format) => ({
+      children: paginated
+        ? `${scope === "page" ? "Visible page" : "All rows"} as ${
+            FORMAT_LABELS[format]
+          }`
+        : `Export as ${FORMAT_LABELS[format]}`,
+      onClick: () => exportData(format, scope),
+    }));
+  return (
+    <ContextualMenu
+      hasToggleIcon
+      links={
+        paginated
+          ? [generateLinks("page"), generateLinks("all")]
+          : generateLinks("all")
+      }
+      position="right"
+      toggleLabel={toggleLabel}
+    />
+  );
+};
+
+export default TableExportButton;
@@ -0,0 +1,8 @@
+export { default } from "./TableExportButton";
+export type { Props as TableExportButtonProps } from "./TableExportButton";
+export { downloadTableData, escapeCsvValue, serializeTableData } from "./utils";
+export type {
+  TableExportData,
+  TableExportFormat,
+  TableExportScope,
+} from "./utils";
@@ -0,0 +1,67 @@
+import { escapeCsvValue, serializeTableData } from "./utils";
+
+describe("escapeCsvValue", () => {
+  it("does not quote plain values", () => {
+    expect(escapeCsvValue("machine-1")).toBe("machine-1");
+    expect(escapeCsvValue(12)).toBe("12");
+  });
+
+  it("quotes values containing separators and line breaks", () => {
+    expect(escapeCsvValue("a,b")).toBe('"a,b"');
+    expect(escapeCsvValue("line\nbreak")).toBe('"line\nbreak"');
+    expect(escapeCsvValue(" padded")).toBe('" padded"');
+  });
+
+  it("doubles quotes", () => {
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+  });
+
+  it("prefixes text that could be run as a formula", () => {
+    expect(escapeCsvValue("=SUM(A1:A2)")).toBe("'=SUM(A1:A2)");
+    expect(escapeCsvValue("+1")).toBe("'+1");
+    expect(escapeCsvValue("-1")).toBe("'-1");
+    expect(escapeCsvValue("@cmd")).toBe("'@cmd");
+    expect(escapeCsvValue("\tvalue")).toBe("'\tvalue");
+    expect(escapeCsvValue(-1)).toBe("-1");
+  });
+
+  it("formats empty values, dates and objects", () => {
+    expect(escapeCsvValue(null)).toBe("");
+    expect(escapeCsvValue(undefined)).toBe("");
+    expect(escapeCsvValue(new Date(Date.UTC(2022, 0, 2)))).toBe(
+      "2022-01-02T00:00:00.000Z"
+    );
+    expect(escapeCsvValue({ cores: 2 })).toBe('"{""cores"":2}"');
+  });
+});
+
+describe("serializeTableData", () => {
+  const data = {
+    headers: ["Name", "Notes"],
+    rows: [
+      ["machine-1", "ready, idle"],
+      ["machine-2", "tab\there"],
+      ["machine-3", null],
+    ],
+  };
+
+  it("serializes to CSV", () => {
+    expect(serializeTableData(data, "csv")).toBe(
+      'Name,Notes\r\nmachine-1,"ready, idle"\r\nmachine-2,tab\there\r\nmachine-3,'
+    );
+  });
+
+  it("serializes to TSV", () => {
+    expect(serializeTableData(data, "tsv")).toBe(
+      "Name\tNotes\r\nmachine-1\tready, idle\r\nmachine-2\ttab here\r\nmachine-3\t"
+    );
+  });
+
+  it("serializes to JSON", () => {
+    expect(JSON.parse(serializeTableData(data, "json"))).toEqual([
+      { Name: "machine-1", Notes: "ready, idle" },
+      { Name: "machine-2", Notes: "tab\there" },
+      { Name: "machine-3", Notes: null },
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+export type TableExportFormat = "csv" | "tsv" | "json";
+
+/**
+ * Whether to export the rows on the visible page or all of the rows.
+ */
+export type TableExportScope = "page" | "all";
+
+export type TableExportData = {
+  /**
+   * The heading for each column.
+   */
+  headers: string[];
+  /**
+   * The rows to export, containing a value for each column.
+   */
+  rows: unknown[][];
+};
+
+const MIME_TYPES: Record<TableExportFormat, string> = {
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  json: "application/json",
+};
+
+// Text starting with one of these characters could be run as a formula when
+// the file is opened in a spreadsheet.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === "string") {
+    // Prefixing the text with a quote makes spreadsheets display it as text.
+    return FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Escape a value for a CSV file. Values that contain a comma, quote or line
+ * break, or that start or end with whitespace, are wrapped in quotes and any
+ * quotes are doubled. Text that could be run as a formula is prefixed with a
+ * single quote.
+ * @param value - The value to escape.
+ */
+export const escapeCsvValue = (value: unknown): string => {
+  const text = formatValue(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// TSV files have no way to escape tabs or line breaks, so they are replaced
+// with spaces.
+const escapeTsvValue = (value: unknown) =>
+  formatValue(value).replace(/[\t\r\n]+/g, " ");
+
+/**
+ * Convert table data to the contents of a CSV, TSV or JSON file. JSON is
+ * exported as a list of objects keyed by the column headings.
+ * @param data - The headings and rows to convert.
+ * @param format - The format of the file.
+ */
+export const serializeTableData = (
+  { headers, rows }: TableExportData,
+  format: TableExportFormat
+): string => {
+  if (format === "json") {
+    return JSON.stringify(
+      rows.map((row) =>
+        Object.fromEntries(
+          headers.map((heading, index) => [heading, row[index] ?? null])
+        )
+      ),
+      null,
+      2
+    );
+  }
+  const separator = format === "tsv" ? "\t" : ",";
+  const escapeValue = format === "tsv" ? escapeTsvValue : escapeCsvValue;
+  return [headers, ...rows]
+    .map((row) => row.map(escapeValue).join(separator))
+    .join("\r\n");
+};
+
+/**
+ * Convert table data to a CSV, TSV or JSON file and download it.
+ * @param data - The headings and rows to export.
+ * @param format - The format of the file.
+ * @param filename - The name of the file, without the extension.
+ */
+export const downloadTableData = (
+  data: TableExportData,
+  format: TableExportFormat,
+  filename = "export"
+): void => {
+  const blob = new Blob([serializeTableData(data, format)], {
+    type: `${MIME_TYPES[format]};charset=utf-8`,
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${filename}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // The URL is revoked after the download has started, as some browsers start
+  // the download asynchronously.
+  setTimeout(() => URL.revokeObjectURL(url));
+};
@@ -32,4 +32,21 @@ describe("TableHeader", () => {
       "ascending"
     );
   });
+
+  it("can display a sort priority", () => {
+    render(
+      <table>
+        <thead>
+          <tr>
+            <TableHeader sort="ascending" sortPriority={2}>
+              Column 1
+            </TableHeader>
+          </tr>
+        </thead>
+      </table>
+    );
+    expect(screen.getByRole("columnheader")).toHaveTextContent(
+      "Column 1Sort priority 2"
+    );
+  });
 });
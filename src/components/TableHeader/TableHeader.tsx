@@ -12,14 +12,29 @@ export type Props = PropsWithSpread<
      * The direction of sorting, if applicable.
      */
     sort?: SortDirection;
+    /**
+     * The priority of this column's sort when sorting by multiple columns.
+     */
+    sortPriority?: number | null;
   },
   HTMLProps<HTMLTableHeaderCellElement>
 >;
 
-const TableHeader = ({ children, sort, ...props }: Props): JSX.Element => {
+const TableHeader = ({
+  children,
+  sort,
+  sortPriority,
+  ...props
+}: Props): JSX.Element => {
   return (
     <th role="columnheader" aria-sort={sort} {...props}>
       {children}
+      {sortPriority ? (
+        <sup className="u-text--muted">
+          <span className="u-off-screen">Sort priority </span>
+          {sortPriority}
+        </sup>
+      ) : null}
     </th>
   );
 };
@@ -0,0 +1,27 @@
+import { render, screen } from "@testing-library/react";
+import React from "react";
+
+import TableLoadingOverlay from "./TableLoadingOverlay";
+
+describe("TableLoadingOverlay", () => {
+  it("displays a spinner over the content when loading", () => {
+    render(
+      <TableLoadingOverlay loading text="Refreshing">
+        <table />
+      </TableLoadingOverlay>
+    );
+    expect(screen.getByRole("alert")).toHaveTextContent("Refreshing");
+    expect(screen.getByTestId("loading-overlay")).toHaveClass(
+      "p-table-loading-overlay__overlay"
+    );
+  });
+
+  it("does not display the overlay when not loading", () => {
+    render(
+      <TableLoadingOverlay>
+        <table />
+      </TableLoadingOverlay>
+    );
+    expect(screen.queryByTestId("loading-overlay")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,52 @@
+import classNames from "classnames";
+import React from "react";
+import type { HTMLProps, ReactNode } from "react";
+
+import type { PropsWithSpread } from "types";
+import Spinner from "../Spinner";
+
+import "./TableLoadingOverlay.scss";
+
+export type Props = PropsWithSpread<
+  {
+    /**
+     * The table to display the overlay over.
+     */
+    children: ReactNode;
+    /**
+     * Whether the overlay should be displayed.
+     */
+    loading?: boolean;
+    /**
+     * Text to display next to the spinner.
+     */
+    text?: string;
+  },
+  HTMLProps<HTMLDivElement>
+>;
+
+/**
+ * Displays a spinner over a table while its rows are being refreshed. The
+ * overlay does not block interaction with the table.
+ */
+const TableLoadingOverlay = ({
+  children,
+  className,
+  loading = false,
+  text,
+  ...props
+}: Props): JSX.Element => (
+  <div className={classNames("p-table-loading-overlay", className)} {...props}>
+    {children}
+    {loading && (
+      <div
+        className="p-table-loading-overlay__overlay"
+        data-testid="loading-overlay"
+      >
+        <Spinner text={text} />
+      </div>
+    )}
+  </div>
+);
+
+export default TableLoadingOverlay;
@@ -0,0 +1,2 @@
+export { default } from "./TableLoadingOverlay";
+export type { Props as TableLoadingOverlayProps } from "./TableLoadingOverlay";
@@ -0,0 +1,31 @@
+import { render, screen, within } from "@testing-library/react";
+import React from "react";
+
+import TableSkeletonRows from "./TableSkeletonRows";
+
+describe("TableSkeletonRows", () => {
+  it("displays a placeholder for each column", () => {
+    render(
+      <table>
+        <tbody>
+          <TableSkeletonRows columnCount={4} rowCount={2} />
+        </tbody>
+      </table>
+    );
+    const rows = screen.getAllByTestId("skeleton-row");
+    expect(rows).toHaveLength(2);
+    expect(within(rows[1]).getAllByRole("gridcell")).toHaveLength(4);
+  });
+
+  it("includes a label for screen readers", () => {
+    render(
+      <table>
+        <tbody>
+          <TableSkeletonRows columnCount={2} label="Loading machines" />
+        </tbody>
+      </table>
+    );
+    expect(screen.getByText("Loading machines")).toHaveClass("u-off-screen");
+    expect(screen.getAllByTestId("skeleton-row")).toHaveLength(3);
+  });
+});
@@ -0,0 +1,54 @@
+import React from "react";
+
+import TableCell from "../TableCell";
+import TableRow from "../TableRow";
+
+import "./TableSkeletonRows.scss";
+
+export type Props = {
+  /**
+   * The number of columns to display placeholders for.
+   */
+  columnCount: number;
+  /**
+   * The text for screen readers while the rows are loading.
+   */
+  label?: string;
+  /**
+   * The number of placeholder rows to display.
+   */
+  rowCount?: number;
+};
+
+// The placeholders use different widths so that they look like content.
+const WIDTHS = ["80%", "60%", "70%"];
+
+/**
+ * Placeholder rows to display in a table body while the rows are loading.
+ */
+const TableSkeletonRows = ({
+  columnCount,
+  label = "Loading",
+  rowCount = 3,
+}: Props): JSX.Element => (
+  <>
+    {[...Array(rowCount)].map((_, row) => (
+      <TableRow data-testid="skeleton-row" key={row}>
+        {[...Array(columnCount)].map((_, column) => (
+          <TableCell key={column}>
+            {row === 0 && column === 0 && (
+              <span className="u-off-screen">{label}</span>
+            )}
+            <span
+              aria-hidden="true"
+              className="p-table-skeleton__placeholder"
+              style={{ width: WIDTHS[(row + column) % WIDTHS.length] }}
+            />
+          </TableCell>
+        ))}
+      </TableRow>
+    ))}
+  </>
+);
+
+export default TableSkeletonRows;
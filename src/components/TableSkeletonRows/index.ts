@@ -0,0 +1,2 @@
+export { default } from "./TableSkeletonRows";
+export type { Props as TableSkeletonRowsProps } from "./TableSkeletonRows";
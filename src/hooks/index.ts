@@ -1,9 +1,31 @@
 export { useOnClickOutside, useClickOutside } from "./useOnClickOutside";
+export { useDebouncedLoader } from "./useDebouncedLoader";
+export type {
+  DebouncedLoader,
+  DebouncedLoaderState,
+} from "./useDebouncedLoader";
+export { useGridNavigation } from "./useGridNavigation";
+export type { GridNavigationOptions } from "./useGridNavigation";
 export { useId } from "./useId";
 export { useListener } from "./useListener";
 export { useOnEscapePressed } from "./useOnEscapePressed";
 export { usePrevious } from "./usePrevious";
+export {
+  useTableState,
+  localTableStateStorage,
+  sessionTableStateStorage,
+  queryStringTableStateStorage,
+} from "./useTableState";
+export type {
+  TableStateHandler,
+  TableStateStorage,
+  TableViewState,
+} from "./useTableState";
+export { useStickyCells } from "./useStickyCells";
+export type { StickyCellsOptions, StickyCellsProps } from "./useStickyCells";
 export { useThrottle } from "./useThrottle";
 export { usePagination } from "./usePagination";
+export { useVirtualRows } from "./useVirtualRows";
+export type { VirtualRowsOptions } from "./useVirtualRows";
 export { useWindowFitment } from "./useWindowFitment";
 export type { WindowFitment } from "./useWindowFitment";
@@ -0,0 +1,115 @@
+import { act, renderHook } from "@testing-library/react";
+
+import { useDebouncedLoader } from "./useDebouncedLoader";
+
+describe("useDebouncedLoader", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("loads the result once the key stops changing", async () => {
+    const load = jest.fn().mockResolvedValue("loaded");
+    const { rerender, result } = renderHook(
+      ({ term }) => useDebouncedLoader(() => load(term), term, 300),
+      { initialProps: { term: "a" } }
+    );
+    expect(result.current.loading).toBe(true);
+    act(() => {
+      jest.advanceTimersByTime(200);
+    });
+    rerender({ term: "ab" });
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(load).toHaveBeenCalledWith("ab");
+    expect(result.current.loading).toBe(false);
+    expect(result.current.result).toBe("loaded");
+  });
+
+  it("does not load again when given a new function", async () => {
+    const load = jest.fn().mockResolvedValue("loaded");
+    const { rerender } = renderHook(() =>
+      useDebouncedLoader(() => load(), "a")
+    );
+    await act(async () => {
+      jest.runAllTimers();
+    });
+    rerender();
+    await act(async () => {
+      jest.runAllTimers();
+    });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("aborts the previous load when the key changes", async () => {
+    const signals: AbortSignal[] = [];
+    const { rerender, result } = renderHook(
+      ({ term }) =>
+        useDebouncedLoader(({ signal }) => {
+          signals.push(signal);
+          return new Promise<string>((resolve) =>
+            setTimeout(() => resolve(term), 100)
+          );
+        }, term),
+      { initialProps: { term: "a" } }
+    );
+    await act(async () => {
+      jest.advanceTimersByTime(0);
+    });
+    rerender({ term: "b" });
+    // Run the timer for the delay and then the timer for the load.
+    await act(async () => {
+      jest.runAllTimers();
+    });
+    await act(async () => {
+      jest.runAllTimers();
+    });
+    expect(signals[0].aborted).toBe(true);
+    expect(result.current.result).toBe("b");
+  });
+
+  it("returns errors that are thrown or rejected", async () => {
+    const { rerender, result } = renderHook(
+      ({ load }) => useDebouncedLoader(load, "a"),
+      {
+        initialProps: {
+          load: (): string | Promise<string> => {
+            throw new Error("Thrown");
+          },
+        },
+      }
+    );
+    await act(async () => {
+      jest.runAllTimers();
+    });
+    expect(result.current.error).toEqual(new Error("Thrown"));
+    rerender({ load: () => Promise.reject(new Error("Rejected")) });
+    act(() => {
+      result.current.retry();
+    });
+    await act(async () => {
+      jest.runAllTimers();
+    });
+    expect(result.current.error).toEqual(new Error("Rejected"));
+    expect(result.current.loading).toBe(false);
+  });
+
+  it("resets the state when there is no loader", async () => {
+    const { rerender, result } = renderHook(
+      ({ enabled }) => useDebouncedLoader(enabled ? () => "loaded" : null, "a"),
+      { initialProps: { enabled: true } }
+    );
+    await act(async () => {
+      jest.runAllTimers();
+    });
+    expect(result.current.result).toBe("loaded");
+    rerender({ enabled: false });
+    expect(result.current.result).toBeUndefined();
+    expect(result.current.loading).toBe(false);
+  });
+});
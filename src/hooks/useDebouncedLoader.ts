@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type DebouncedLoader<R> = (options: {
+  signal: AbortSignal;
+}) => R | Promise<R>;
+
+export type DebouncedLoaderState<R> = {
+  /**
+   * The error from the last load, if it failed.
+   */
+  error: unknown;
+  /**
+   * Whether the result is loading, including while waiting for the key to
+   * stop changing.
+   */
+  loading: boolean;
+  /**
+   * The result of the last successful load.
+   */
+  result: R | undefined;
+  /**
+   * Load the result for the current key again, e.g. after an error.
+   */
+  retry: () => void;
+};
+
+type LoadedState<R> = Omit<DebouncedLoaderState<R>, "retry">;
+
+const INITIAL_STATE = {
+  error: null,
+  loading: false,
+  result: undefined,
+};
+
+/**
+ * A hook that loads a result once a key stops changing, e.g. to load the
+ * results for a search term once the user stops typing. The previous load is
+ * aborted when the key changes or the component unmounts, and results from
+ * aborted loads are ignored.
+ * @param load - The function that loads the result, which can return the
+ * result or a promise. Errors that are thrown or rejected are returned as the
+ * error. The latest function is always called so it does not need to be
+ * memoised. If this is not provided then nothing is loaded and the state is
+ * reset.
+ * @param key - The key for the result, e.g. the search term. The result is
+ * loaded again when this changes.
+ * @param delay - How long to wait for the key to stop changing, in
+ * milliseconds.
+ */
+export const useDebouncedLoader = <R>(
+  load: DebouncedLoader<R> | null | undefined,
+  key: string,
+  delay = 0
+): DebouncedLoaderState<R> => {
+  const [state, setState] = useState<LoadedState<R>>(INITIAL_STATE);
+  const [attempt, setAttempt] = useState(0);
+  // The latest function is kept in a ref so that passing a new function on
+  // each render does not restart the load.
+  const latestLoad = useRef(load);
+  latestLoad.current = load;
+  const hasLoader = !!load;
+
+  useEffect(() => {
+    if (!hasLoader) {
+      setState(INITIAL_STATE);
+      return undefined;
+    }
+    const controller = new AbortController();
+    const { signal } = controller;
+    setState((current) => ({ ...current, error: null, loading: true }));
+    const timeout = window.setTimeout(() => {
+      // Wrapping the call in a promise handles both synchronous and
+      // asynchronous results and errors.
+      Promise.resolve()
+        .then(() => latestLoad.current({ signal }))
+        .then((result) => {
+          if (!signal.aborted) {
+            setState({ error: null, loading: false, result });
+          }
+        })
+        .catch((error) => {
+          if (!signal.aborted) {
+            setState((current) => ({ ...current, error, loading: false }));
+          }
+        });
+    }, delay);
+    return () => {
+      window.clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [attempt, delay, hasLoader, key]);
+
+  const retry = useCallback(() => setAttempt((current) => current + 1), []);
+
+  return { ...state, retry };
+};
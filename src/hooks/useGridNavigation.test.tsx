@@ -0,0 +1,168 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import React, { useState } from "react";
+
+import { useGridNavigation } from "./useGridNavigation";
+import type { GridNavigationOptions } from "./useGridNavigation";
+
+describe("useGridNavigation", () => {
+  const TestComponent = ({
+    enabled = true,
+    ...options
+  }: GridNavigationOptions & { enabled?: boolean }) => {
+    const grid = useGridNavigation(enabled, options);
+    return (
+      <table role="grid" {...grid}>
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Zone</th>
+            <th>Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {["alpha", "beta", "gamma", "delta"].map((name) => (
+            <tr key={name}>
+              <td>{name}</td>
+              <td>zone-1</td>
+              <td>
+                <button>Edit {name}</button>
+                <button>Delete {name}</button>
+              </td>
+            </tr>
+          ))}
+          <tr aria-hidden="true" />
+          <tr>
+            <td colSpan={3}>Footer</td>
+          </tr>
+        </tbody>
+      </table>
+    );
+  };
+
+  it("only includes one cell in the tab order", async () => {
+    render(<TestComponent />);
+    await userEvent.tab();
+    expect(screen.getByRole("columnheader", { name: "Name" })).toHaveFocus();
+    await userEvent.tab();
+    expect(document.body).toHaveFocus();
+  });
+
+  it("can move between cells using the arrow keys", async () => {
+    render(<TestComponent />);
+    await userEvent.tab();
+    await userEvent.keyboard("{ArrowDown}{ArrowRight}");
+    expect(screen.getAllByRole("cell", { name: "zone-1" })[0]).toHaveFocus();
+    await userEvent.keyboard("{ArrowUp}");
+    expect(screen.getByRole("columnheader", { name: "Zone" })).toHaveFocus();
+    await userEvent.keyboard("{ArrowLeft}{ArrowLeft}");
+    expect(screen.getByRole("columnheader", { name: "Name" })).toHaveFocus();
+    // The cell that was focused last is kept in the tab order.
+    await userEvent.keyboard("{ArrowDown}");
+    await userEvent.tab();
+    await userEvent.tab({ shift: true });
+    expect(screen.getByRole("cell", { name: "alpha" })).toHaveFocus();
+  });
+
+  it("can move to the start and end of rows and the grid", async () => {
+    render(<TestComponent />);
+    await userEvent.tab();
+    await userEvent.keyboard("{End}");
+    expect(screen.getByRole("columnheader", { name: "Actions" })).toHaveFocus();
+    await userEvent.keyboard("{Home}");
+    expect(screen.getByRole("columnheader", { name: "Name" })).toHaveFocus();
+    await userEvent.keyboard("{Control>}{End}{/Control}");
+    expect(screen.getByRole("cell", { name: "Footer" })).toHaveFocus();
+    await userEvent.keyboard("{Control>}{Home}{/Control}");
+    expect(screen.getByRole("columnheader", { name: "Name" })).toHaveFocus();
+  });
+
+  it("can move by a page of rows", async () => {
+    render(<TestComponent pageSize={2} />);
+    await userEvent.tab();
+    await userEvent.keyboard("{PageDown}");
+    expect(screen.getByRole("cell", { name: "beta" })).toHaveFocus();
+    await userEvent.keyboard("{PageDown}{PageDown}");
+    expect(screen.getByRole("cell", { name: "Footer" })).toHaveFocus();
+    await userEvent.keyboard("{PageUp}");
+    expect(screen.getByRole("cell", { name: "gamma" })).toHaveFocus();
+  });
+
+  it("displays rows that are not rendered before moving to them", async () => {
+    const names = [...Array(10)].map((_, i) => `row-${i}`);
+    const VirtualTable = () => {
+      const [start, setStart] = useState(0);
+      const grid = useGridNavigation(true, {
+        rowCount: names.length,
+        rowIndexOffset: start,
+        scrollToRow: (rowIndex) => setStart(Math.max(rowIndex - 2, 0)),
+      });
+      return (
+        <table role="grid" {...grid}>
+          <thead>
+            <tr>
+              <th>Name</th>
+            </tr>
+          </thead>
+          <tbody>
+            {names.slice(start, start + 3).map((name) => (
+              <tr key={name}>
+                <td>{name}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    };
+    render(<VirtualTable />);
+    await userEvent.tab();
+    await userEvent.keyboard("{ArrowDown}{Control>}{End}{/Control}");
+    expect(screen.getByRole("cell", { name: "row-9" })).toHaveFocus();
+    await userEvent.keyboard("{PageUp}");
+    expect(screen.getByRole("cell", { name: "row-0" })).toHaveFocus();
+  });
+
+  it("can interact with the controls in a cell", async () => {
+    render(<TestComponent />);
+    const editButton = screen.getByRole("button", { name: "Edit alpha" });
+    expect(editButton).toHaveAttribute("tabindex", "-1");
+    await userEvent.tab();
+    await userEvent.keyboard("{ArrowDown}{End}{Enter}");
+    expect(editButton).toHaveFocus();
+    await userEvent.tab();
+    expect(screen.getByRole("button", { name: "Delete alpha" })).toHaveFocus();
+    await userEvent.keyboard("{Escape}");
+    expect(editButton.closest("td")).toHaveFocus();
+    expect(editButton).toHaveAttribute("tabindex", "-1");
+  });
+
+  it("sets the row and column indexes", () => {
+    render(<TestComponent rowCount={20} rowIndexOffset={10} />);
+    expect(screen.getByRole("grid")).toHaveAttribute("aria-rowcount", "21");
+    const rows = screen.getAllByRole("row");
+    expect(rows[0]).toHaveAttribute("aria-rowindex", "1");
+    expect(rows[1]).toHaveAttribute("aria-rowindex", "12");
+    expect(screen.getByRole("cell", { name: "Footer" })).toHaveAttribute(
+      "aria-colindex",
+      "1"
+    );
+    expect(screen.getByRole("columnheader", { name: "Zone" })).toHaveAttribute(
+      "aria-colindex",
+      "2"
+    );
+  });
+
+  it("restores the table when it is disabled", async () => {
+    const { rerender } = render(<TestComponent rowCount={20} />);
+    expect(screen.getByRole("grid")).toHaveAttribute("aria-rowcount");
+    rerender(<TestComponent enabled={false} rowCount={20} />);
+    const grid = screen.getByRole("grid");
+    expect(grid).not.toHaveAttribute("aria-rowcount");
+    expect(grid.querySelector("[aria-rowindex]")).toBeNull();
+    expect(grid.querySelector("[aria-colindex]")).toBeNull();
+    expect(grid.querySelector("[tabindex]")).toBeNull();
+    expect(grid.querySelector("[data-grid-tabindex]")).toBeNull();
+    await userEvent.tab();
+    expect(screen.getByRole("button", { name: "Edit alpha" })).toHaveFocus();
+  });
+});
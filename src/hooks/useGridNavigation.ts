@@ -0,0 +1,388 @@
+import { useCallback, useEffect, useRef } from "react";
+import type { FocusEvent, KeyboardEvent, MutableRefObject } from "react";
+
+export type GridNavigationOptions = {
+  /**
+   * The number of rows to move when pressing page up or page down.
+   */
+  pageSize?: number;
+  /**
+   * The total number of body rows, if not all of the rows are rendered,
+   * e.g. when paginated or virtualized.
+   */
+  rowCount?: number;
+  /**
+   * The number of body rows that come before the first rendered row, e.g.
+   * the rows on the previous pages.
+   */
+  rowIndexOffset?: number;
+  /**
+   * A function that displays a body row that is not rendered, e.g. by
+   * scrolling a virtualized table or changing the page. The index includes
+   * the rows that come before the first rendered row. The focus is moved to
+   * the row once it has been rendered.
+   */
+  scrollToRow?: (rowIndex: number) => void;
+};
+
+const FOCUSABLE =
+  "a[href], button, input:not([type='hidden']), select, textarea, [tabindex], [contenteditable]";
+// Stores the original tabindex of a control while it is removed from the tab
+// order.
+const ORIGINAL_TABINDEX = "data-grid-tabindex";
+
+// Get the rows of the table, ignoring any rows that are only used for spacing.
+const getRows = (table: HTMLTableElement) =>
+  Array.from(table.rows).filter(
+    (row) => row.getAttribute("aria-hidden") !== "true"
+  );
+
+// Get the cells in a row, ignoring any hidden expanding cells.
+const getCells = (row?: HTMLTableRowElement) =>
+  row
+    ? Array.from(row.cells).filter(
+        (cell) => cell.getAttribute("aria-hidden") !== "true"
+      )
+    : [];
+
+const getColumnIndex = (cell: HTMLTableCellElement) => {
+  let column = 0;
+  for (const rowCell of getCells(cell.parentElement as HTMLTableRowElement)) {
+    if (rowCell === cell) {
+      break;
+    }
+    column += rowCell.colSpan;
+  }
+  return column;
+};
+
+// Find the cell in a row that covers a column, taking spanned columns into
+// account. If the row has fewer columns then the last cell is used.
+const getCellAtColumn = (row: HTMLTableRowElement, column: number) => {
+  const cells = getCells(row);
+  let start = 0;
+  for (const cell of cells) {
+    if (column < start + cell.colSpan) {
+      return cell;
+    }
+    start += cell.colSpan;
+  }
+  return cells[cells.length - 1];
+};
+
+const getControls = (cell: HTMLTableCellElement) =>
+  Array.from(cell.querySelectorAll<HTMLElement>(FOCUSABLE));
+
+// Change the tabindex of an element, storing its original tabindex so that it
+// can be restored.
+const setTabIndex = (element: HTMLElement, tabIndex: number) => {
+  if (!element.hasAttribute(ORIGINAL_TABINDEX)) {
+    element.setAttribute(
+      ORIGINAL_TABINDEX,
+      element.getAttribute("tabindex") ?? ""
+    );
+  }
+  element.tabIndex = tabIndex;
+};
+
+const restoreTabIndex = (element: HTMLElement) => {
+  const tabIndex = element.getAttribute(ORIGINAL_TABINDEX);
+  if (tabIndex !== null) {
+    if (tabIndex) {
+      element.setAttribute("tabindex", tabIndex);
+    } else {
+      element.removeAttribute("tabindex");
+    }
+    element.removeAttribute(ORIGINAL_TABINDEX);
+  }
+};
+
+const disableControls = (cell: HTMLTableCellElement) =>
+  getControls(cell).forEach((control) => setTabIndex(control, -1));
+
+const enableControls = (cell: HTMLTableCellElement) =>
+  getControls(cell).forEach(restoreTabIndex);
+
+// Remove the changes made by the grid navigation so that the table and its
+// controls can be used as they were before the navigation was enabled.
+const resetGrid = (table: HTMLTableElement) => {
+  table.removeAttribute("aria-rowcount");
+  table
+    .querySelectorAll("[aria-rowindex]")
+    .forEach((row) => row.removeAttribute("aria-rowindex"));
+  table
+    .querySelectorAll("[aria-colindex]")
+    .forEach((cell) => cell.removeAttribute("aria-colindex"));
+  table
+    .querySelectorAll<HTMLElement>(`[${ORIGINAL_TABINDEX}]`)
+    .forEach(restoreTabIndex);
+};
+
+const getCell = (table: HTMLTableElement, element: HTMLElement) => {
+  const cell = element.closest<HTMLTableCellElement>("td, th");
+  return cell?.closest("table") === table ? cell : null;
+};
+
+/**
+ * A hook that implements keyboard navigation for a table using the ARIA grid
+ * pattern. Only one cell is in the tab order at a time and the arrow, home,
+ * end, page up and page down keys move between cells. Pressing enter or F2
+ * moves the focus to the controls inside a cell, or sorts a sortable column,
+ * and escape moves the focus back to the cell.
+ * @param enabled - Whether the navigation is enabled.
+ * @param {Object} options
+ * @param {number} [options.pageSize=10] - The number of rows to move for page up and page down.
+ * @param {number} [options.rowCount] - The total number of body rows, if not all rows are rendered.
+ * @param {number} [options.rowIndexOffset=0] - The number of body rows before the first rendered row.
+ * @param {Function} [options.scrollToRow] - A function that displays a body row that is not rendered.
+ * @returns A ref and event handlers to pass to the table element.
+ */
+export const useGridNavigation = (
+  enabled: boolean,
+  {
+    pageSize = 10,
+    rowCount,
+    rowIndexOffset = 0,
+    scrollToRow,
+  }: GridNavigationOptions = {}
+): {
+  ref: MutableRefObject<HTMLTableElement | null>;
+  onBlur: (event: FocusEvent<HTMLTableElement>) => void;
+  onFocus: (event: FocusEvent<HTMLTableElement>) => void;
+  onKeyDown: (event: KeyboardEvent<HTMLTableElement>) => void;
+} => {
+  const ref = useRef<HTMLTableElement | null>(null);
+  const activeCell = useRef<HTMLTableCellElement | null>(null);
+  // The cell whose controls are being interacted with.
+  const interactiveCell = useRef<HTMLTableCellElement | null>(null);
+  // The row and column to focus once a row that is not rendered has been
+  // displayed.
+  const pendingFocus = useRef<{ rowIndex: number; column: number } | null>(
+    null
+  );
+
+  const updateGrid = useCallback(() => {
+    const table = ref.current;
+    if (!enabled || !table) {
+      return;
+    }
+    const rows = getRows(table);
+    if (!activeCell.current || !table.contains(activeCell.current)) {
+      activeCell.current = getCells(rows[0])[0] ?? null;
+    }
+    const headerRowCount = rows.filter(
+      (row) => row.parentElement?.tagName === "THEAD"
+    ).length;
+    if (typeof rowCount === "number") {
+      table.setAttribute("aria-rowcount", String(headerRowCount + rowCount));
+    }
+    rows.forEach((row, rowIndex) => {
+      const offset = rowIndex < headerRowCount ? 0 : rowIndexOffset;
+      row.setAttribute("aria-rowindex", String(rowIndex + offset + 1));
+      let column = 1;
+      getCells(row).forEach((cell) => {
+        cell.setAttribute("aria-colindex", String(column));
+        column += cell.colSpan;
+        setTabIndex(cell, cell === activeCell.current ? 0 : -1);
+        if (cell === interactiveCell.current) {
+          enableControls(cell);
+        } else {
+          disableControls(cell);
+        }
+      });
+    });
+    const pending = pendingFocus.current;
+    const pendingRow =
+      pending &&
+      rows.find(
+        (row) => row.getAttribute("aria-rowindex") === String(pending.rowIndex)
+      );
+    if (pendingRow) {
+      pendingFocus.current = null;
+      const cell = getCellAtColumn(pendingRow, pending.column);
+      if (cell) {
+        activeCell.current = cell;
+        updateGrid();
+        cell.focus();
+      }
+    }
+  }, [enabled, rowCount, rowIndexOffset]);
+
+  // Restore the table when the navigation is disabled.
+  useEffect(() => {
+    const table = ref.current;
+    if (!enabled || !table) {
+      return undefined;
+    }
+    return () => {
+      activeCell.current = null;
+      interactiveCell.current = null;
+      pendingFocus.current = null;
+      resetGrid(table);
+    };
+  }, [enabled]);
+
+  // Update the grid when it is enabled and whenever its rows or cells change.
+  useEffect(() => {
+    const table = ref.current;
+    updateGrid();
+    if (!enabled || !table || typeof MutationObserver === "undefined") {
+      return undefined;
+    }
+    const observer = new MutationObserver(() => updateGrid());
+    observer.observe(table, { childList: true, subtree: true });
+    return () => observer.disconnect();
+  }, [enabled, updateGrid]);
+
+  const focusCell = (cell?: HTMLTableCellElement) => {
+    if (cell) {
+      activeCell.current = cell;
+      interactiveCell.current = null;
+      pendingFocus.current = null;
+      updateGrid();
+      cell.focus();
+    }
+  };
+
+  const onFocus = (event: FocusEvent<HTMLTableElement>) => {
+    const target = event.target as HTMLElement;
+    const cell = enabled && getCell(ref.current, target);
+    if (cell) {
+      activeCell.current = cell;
+      // The controls stay in the tab order while they have focus.
+      interactiveCell.current = target === cell ? null : cell;
+      updateGrid();
+    }
+  };
+
+  const onBlur = (event: FocusEvent<HTMLTableElement>) => {
+    if (
+      enabled &&
+      interactiveCell.current &&
+      !ref.current?.contains(event.relatedTarget as Node)
+    ) {
+      interactiveCell.current = null;
+      updateGrid();
+    }
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLTableElement>) => {
+    const table = ref.current;
+    const target = event.target as HTMLElement;
+    const cell = enabled && !event.defaultPrevented && getCell(table, target);
+    if (!cell) {
+      return;
+    }
+    if (target !== cell) {
+      // Return to navigating between cells.
+      if (event.key === "Escape" || event.key === "F2") {
+        event.preventDefault();
+        focusCell(cell);
+      }
+      return;
+    }
+    if (event.key === "Enter" || event.key === "F2") {
+      const control = getControls(cell).find(
+        (element) => !element.hasAttribute("disabled")
+      );
+      if (control) {
+        event.preventDefault();
+        interactiveCell.current = cell;
+        enableControls(cell);
+        control.focus();
+      } else if (cell.hasAttribute("aria-sort")) {
+        // Sort the column if the header can be sorted.
+        event.preventDefault();
+        cell.click();
+      }
+      return;
+    }
+    const rows = getRows(table);
+    const rowIndex = rows.indexOf(cell.parentElement as HTMLTableRowElement);
+    const cells = getCells(rows[rowIndex]);
+    const cellIndex = cells.indexOf(cell);
+    const column = getColumnIndex(cell);
+    const headerRowCount = rows.filter(
+      (row) => row.parentElement?.tagName === "THEAD"
+    ).length;
+    const rowMoves: Record<string, number> = {
+      ArrowDown: 1,
+      ArrowUp: -1,
+      PageDown: pageSize,
+      PageUp: -pageSize,
+    };
+    if (
+      scrollToRow &&
+      typeof rowCount === "number" &&
+      rowIndex >= headerRowCount &&
+      (event.key in rowMoves || (event.key === "End" && event.ctrlKey))
+    ) {
+      // Display the body row if it is before or after the rendered rows.
+      const bodyRowIndex = rowIndex - headerRowCount + rowIndexOffset;
+      const targetIndex = Math.min(
+        Math.max(
+          event.key === "End"
+            ? rowCount - 1
+            : bodyRowIndex + rowMoves[event.key],
+          0
+        ),
+        rowCount - 1
+      );
+      // Any rows after the body rows, e.g. a footer, are not counted.
+      const renderedRowCount = Math.min(
+        rows.length - headerRowCount,
+        rowCount - rowIndexOffset
+      );
+      const renderedIndex = targetIndex - rowIndexOffset;
+      if (renderedIndex < 0 || renderedIndex >= renderedRowCount) {
+        event.preventDefault();
+        pendingFocus.current = {
+          rowIndex: targetIndex + headerRowCount + 1,
+          column,
+        };
+        scrollToRow(targetIndex);
+        return;
+      }
+    }
+    const getCellInRow = (index: number) =>
+      getCellAtColumn(
+        rows[Math.min(Math.max(index, 0), rows.length - 1)],
+        column
+      );
+    let nextCell: HTMLTableCellElement | undefined;
+    switch (event.key) {
+      case "ArrowRight":
+        nextCell = cells[cellIndex + 1];
+        break;
+      case "ArrowLeft":
+        nextCell = cells[cellIndex - 1];
+        break;
+      case "ArrowDown":
+        nextCell = getCellInRow(rowIndex + 1);
+        break;
+      case "ArrowUp":
+        nextCell = getCellInRow(rowIndex - 1);
+        break;
+      case "PageDown":
+        nextCell = getCellInRow(rowIndex + pageSize);
+        break;
+      case "PageUp":
+        nextCell = getCellInRow(rowIndex - pageSize);
+        break;
+      case "Home":
+        nextCell = event.ctrlKey ? getCells(rows[0])[0] : cells[0];
+        break;
+      case "End":
+        nextCell = event.ctrlKey
+          ? getCells(rows[rows.length - 1]).pop()
+          : cells[cells.length - 1];
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    focusCell(nextCell);
+  };
+
+  return { ref, onBlur, onFocus, onKeyDown };
+};
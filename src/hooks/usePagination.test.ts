@@ -59,3 +59,25 @@ it("go to the initial page if autoResetPage is true", () => {
   expect(result.current.currentPage).toBe(1);
   expect(result.current.pageData).toEqual([1]);
 });
+
+it("can keep the current page while it is out of bounds", () => {
+  const { result, rerender } = renderHook(
+    ({ data, keepPage }) =>
+      usePagination(data, {
+        itemsPerPage: 1,
+        initialPage: 3,
+        autoResetPage: true,
+        keepPage,
+      }),
+    {
+      initialProps: {
+        data: [],
+        keepPage: true,
+      },
+    }
+  );
+  expect(result.current.currentPage).toBe(3);
+  rerender({ data: [1, 2, 3], keepPage: false });
+  expect(result.current.currentPage).toBe(3);
+  expect(result.current.pageData).toEqual([3]);
+});
@@ -7,6 +7,7 @@ import { useMemo, useEffect, useState } from "react";
  * @param {number} [options.itemsPerPage] - Number of items per page. Returns all items if no value has been provided.
  * @param {number} [options.initialPage=1] - Initial page number. Defaults to 1.
  * @param {boolean} [options.autoResetPage=false] - Whether to reset the page number to 1 when the data changes.
+ * @param {boolean} [options.keepPage=false] - Whether to keep the current page when it is out of bounds, e.g. while the data is loading.
  */
 
 export function usePagination<D, I = number | null>(
@@ -15,6 +16,7 @@ export function usePagination<D, I = number | null>(
     itemsPerPage: I;
     initialPage?: number;
     autoResetPage?: boolean;
+    keepPage?: boolean;
   }
 ): {
   pageData: Array<D>;
@@ -26,8 +28,9 @@ export function usePagination<D, I = number | null>(
   const defaultOptions = {
     initialPage: 1,
     autoResetPage: false,
+    keepPage: false,
   };
-  const { itemsPerPage, initialPage, autoResetPage } = Object.assign(
+  const { itemsPerPage, initialPage, autoResetPage, keepPage } = Object.assign(
     defaultOptions,
     options
   );
@@ -39,7 +42,11 @@ export function usePagination<D, I = number | null>(
   const paginate = (pageNumber: number) => setPageIndex(pageNumber - 1);
 
   useEffect(() => {
-    if (typeof itemsPerPage === "number" && startIndex >= totalItems) {
+    if (
+      !keepPage &&
+      typeof itemsPerPage === "number" &&
+      startIndex >= totalItems
+    ) {
       !autoResetPage && Math.floor(totalItems / itemsPerPage) > 0
         ? // go to the last available page if the current page is out of bounds
           setPageIndex(Math.floor(totalItems / itemsPerPage) - 1)
@@ -53,6 +60,7 @@ export function usePagination<D, I = number | null>(
     totalItems,
     itemsPerPage,
     autoResetPage,
+    keepPage,
   ]);
 
   const pageData = useMemo(
@@ -0,0 +1,107 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import React, { useRef } from "react";
+
+import { useStickyCells } from "./useStickyCells";
+import type { StickyCellsOptions } from "./useStickyCells";
+
+describe("useStickyCells", () => {
+  const TestComponent = ({
+    names = ["alpha", "beta"],
+    ...options
+  }: StickyCellsOptions & { names?: string[] }) => {
+    const ref = useRef<HTMLTableElement>(null);
+    const sticky = useStickyCells(ref, options);
+    return (
+      <div
+        data-testid="container"
+        style={{ background: "rgb(1, 1, 1)", overflow: "auto" }}
+      >
+        <table data-testid="table" ref={ref} {...sticky}>
+          <thead>
+            <tr style={{ borderBottom: "1px solid rgb(2, 2, 2)" }}>
+              <th>Name</th>
+              <th>Zone</th>
+              <th>Status</th>
+              <th aria-hidden="true"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {names.map((name) => (
+              <tr key={name} style={{ borderTop: "1px solid rgb(3, 3, 3)" }}>
+                <td style={{ position: "relative" }}>{name}</td>
+                <td>zone-1</td>
+                <td>deployed</td>
+                <td aria-hidden="true" className="p-table__expanding-panel">
+                  Details
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  it("can make the header sticky", () => {
+    render(<TestComponent stickyHeader />);
+    const table = screen.getByTestId("table");
+    expect(table).toHaveClass("p-table--sticky-header");
+    expect(table.style.getPropertyValue("--sticky-cells-background")).toBe(
+      "rgb(1, 1, 1)"
+    );
+    expect(table.style.getPropertyValue("--sticky-cells-header-border")).toBe(
+      "rgb(2, 2, 2)"
+    );
+    expect(table.className).not.toMatch(/frozen-columns/);
+  });
+
+  it("can freeze the leading columns", () => {
+    render(<TestComponent frozenColumns={2} />);
+    const table = screen.getByTestId("table");
+    expect(table).toHaveClass("p-table--frozen-columns-2");
+    expect(table).not.toHaveClass("p-table--sticky-header");
+    expect(table.style.getPropertyValue("--sticky-cells-left-1")).toBe("0px");
+    expect(table.style.getPropertyValue("--sticky-cells-row-border")).toBe(
+      "rgb(3, 3, 3)"
+    );
+  });
+
+  it("measures the frozen columns", () => {
+    jest
+      .spyOn(HTMLElement.prototype, "getBoundingClientRect")
+      .mockReturnValue({ width: 50 } as DOMRect);
+    render(<TestComponent frozenColumns={3} />);
+    const table = screen.getByTestId("table");
+    expect(table.style.getPropertyValue("--sticky-cells-left-2")).toBe("50px");
+    expect(table.style.getPropertyValue("--sticky-cells-left-3")).toBe("100px");
+    // Expanding panels are not included in the columns.
+    expect(table.style.getPropertyValue("--sticky-cells-left-4")).toBe("");
+    jest.restoreAllMocks();
+  });
+
+  it("does not change the styles of the cells", () => {
+    const { rerender } = render(<TestComponent frozenColumns={2} />);
+    rerender(<TestComponent frozenColumns={2} names={["alpha", "gamma"]} />);
+    expect(
+      screen.getByRole("cell", { name: "gamma" }).getAttribute("style")
+    ).toBe("position: relative;");
+    expect(
+      screen.getAllByRole("cell", { name: "zone-1" })[1]
+    ).not.toHaveAttribute("style");
+  });
+
+  it("marks the table as scrolled", () => {
+    render(<TestComponent frozenColumns={1} />);
+    const container = screen.getByTestId("container");
+    container.scrollLeft = 20;
+    fireEvent.scroll(container);
+    expect(screen.getByTestId("table")).toHaveClass("is-scrolled");
+  });
+
+  it("does not change the table when not enabled", () => {
+    render(<TestComponent />);
+    const table = screen.getByTestId("table");
+    expect(table).not.toHaveAttribute("class");
+    expect(table).not.toHaveAttribute("style");
+  });
+});
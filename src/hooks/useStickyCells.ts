@@ -0,0 +1,200 @@
+import classNames from "classnames";
+import { useEffect, useState } from "react";
+import type { CSSProperties, MutableRefObject } from "react";
+
+export type StickyCellsOptions = {
+  /**
+   * The number of leading columns to keep at the left edge of the scroll
+   * container.
+   */
+  frozenColumns?: number;
+  /**
+   * Whether the header should stay at the top of the scroll container.
+   */
+  stickyHeader?: boolean;
+};
+
+/**
+ * The props to pass to the table to display the sticky cells.
+ */
+export type StickyCellsProps = {
+  className?: string;
+  style?: CSSProperties;
+};
+
+// Hidden cells and expanding panels are not part of the columns.
+const isColumnCell = (cell: HTMLTableCellElement) =>
+  cell.getAttribute("aria-hidden") !== "true" &&
+  !cell.classList.contains("p-table__expanding-panel");
+
+const getScrollContainer = (table: HTMLTableElement) => {
+  let element = table.parentElement;
+  while (element && element !== document.body) {
+    const { overflow, overflowX } = window.getComputedStyle(element);
+    if (/auto|scroll/.test(overflowX || overflow)) {
+      return element;
+    }
+    element = element.parentElement;
+  }
+  return null;
+};
+
+const isTransparent = (color: string) =>
+  !color || color === "transparent" || /^rgba\(.*,\s*0\)$/.test(color);
+
+// Sticky cells need a background so that the scrolled cells are hidden
+// behind them, so the background that the table is displayed on is used.
+const getBackground = (table: HTMLTableElement) => {
+  let element: HTMLElement | null = table;
+  while (element) {
+    const { backgroundColor } = window.getComputedStyle(element);
+    if (!isTransparent(backgroundColor)) {
+      return backgroundColor;
+    }
+    element = element.parentElement;
+  }
+  return "Canvas";
+};
+
+// The row borders from the table's styles are used so that the sticky cells
+// match the theme.
+const getBorderColors = (table: HTMLTableElement) => {
+  const headerRow = table.tHead?.rows[0];
+  const bodyRow = table.tBodies[0]?.rows[1];
+  const header = headerRow
+    ? window.getComputedStyle(headerRow).borderBottomColor
+    : "";
+  const row = bodyRow ? window.getComputedStyle(bodyRow).borderTopColor : "";
+  return {
+    header: isTransparent(header) ? row : header,
+    row: isTransparent(row) ? header : row,
+  };
+};
+
+// Get the position of each frozen column from the first row that has a cell
+// for each column.
+const getColumnOffsets = (table: HTMLTableElement, frozenColumns: number) => {
+  const offsets: number[] = [];
+  const widthRow = Array.from(table.rows).find((row) =>
+    Array.from(row.cells).every((cell) => cell.colSpan === 1)
+  );
+  const widthCells = widthRow
+    ? Array.from(widthRow.cells).filter(isColumnCell)
+    : [];
+  widthCells.slice(0, frozenColumns).reduce((left, cell) => {
+    offsets.push(left);
+    return left + cell.getBoundingClientRect().width;
+  }, 0);
+  return offsets;
+};
+
+type Measurements = {
+  background: string;
+  borders: { header: string; row: string };
+  offsets: number[];
+};
+
+const isSameMeasurements = (
+  measurements: Measurements | null,
+  otherMeasurements: Measurements
+) =>
+  !!measurements &&
+  measurements.background === otherMeasurements.background &&
+  measurements.borders.header === otherMeasurements.borders.header &&
+  measurements.borders.row === otherMeasurements.borders.row &&
+  measurements.offsets.length === otherMeasurements.offsets.length &&
+  measurements.offsets.every(
+    (offset, index) => offset === otherMeasurements.offsets[index]
+  );
+
+/**
+ * A hook that keeps a table's header at the top of its scroll container and
+ * keeps the leading columns at the left edge while scrolling. The returned
+ * class name and style should be passed to the table. The cells are styled by
+ * the table's stylesheet using the class name and the CSS variables in the
+ * style, so the cells themselves are not changed. Borders are drawn using
+ * shadows in the colours of the table's row borders so that they move with
+ * the sticky cells, and the last frozen column displays a shadow when the
+ * container has been scrolled. The measurements are updated when the rows
+ * change or the table is resized.
+ * @param tableRef - A ref to the table element.
+ * @param {Object} options
+ * @param {number} [options.frozenColumns=0] - The number of leading columns to freeze, up to 10.
+ * @param {boolean} [options.stickyHeader=false] - Whether the header should be sticky.
+ */
+export const useStickyCells = (
+  tableRef: MutableRefObject<HTMLTableElement | null>,
+  { frozenColumns = 0, stickyHeader = false }: StickyCellsOptions = {}
+): StickyCellsProps => {
+  const [scrolled, setScrolled] = useState(false);
+  const [measurements, setMeasurements] = useState<Measurements | null>(null);
+
+  useEffect(() => {
+    const container =
+      frozenColumns && tableRef.current
+        ? getScrollContainer(tableRef.current)
+        : null;
+    if (!container) {
+      return undefined;
+    }
+    const onScroll = () => setScrolled(container.scrollLeft > 0);
+    onScroll();
+    container.addEventListener("scroll", onScroll);
+    return () => container.removeEventListener("scroll", onScroll);
+  }, [frozenColumns, tableRef]);
+
+  useEffect(() => {
+    const table = tableRef.current;
+    if (!table || (!frozenColumns && !stickyHeader)) {
+      return undefined;
+    }
+    const measure = () => {
+      const current = {
+        background: getBackground(table),
+        borders: getBorderColors(table),
+        offsets: getColumnOffsets(table, frozenColumns),
+      };
+      setMeasurements((previous) =>
+        isSameMeasurements(previous, current) ? previous : current
+      );
+    };
+    measure();
+    // The colours need to be measured again when the rows change, and the
+    // offsets need to be measured again when the column widths change.
+    const mutationObserver =
+      typeof MutationObserver === "undefined"
+        ? null
+        : new MutationObserver(measure);
+    mutationObserver?.observe(table, { childList: true, subtree: true });
+    const resizeObserver =
+      typeof ResizeObserver === "undefined"
+        ? null
+        : new ResizeObserver(measure);
+    resizeObserver?.observe(table);
+    return () => {
+      mutationObserver?.disconnect();
+      resizeObserver?.disconnect();
+    };
+  }, [frozenColumns, stickyHeader, tableRef]);
+
+  if (!frozenColumns && !stickyHeader) {
+    return {};
+  }
+  const style: Record<string, string> = {};
+  if (measurements) {
+    style["--sticky-cells-background"] = measurements.background;
+    style["--sticky-cells-header-border"] = measurements.borders.header;
+    style["--sticky-cells-row-border"] = measurements.borders.row;
+    measurements.offsets.forEach((offset, index) => {
+      style[`--sticky-cells-left-${index + 1}`] = `${offset}px`;
+    });
+  }
+  return {
+    className: classNames({
+      "p-table--sticky-header": stickyHeader,
+      [`p-table--frozen-columns-${frozenColumns}`]: frozenColumns > 0,
+      "is-scrolled": frozenColumns > 0 && scrolled,
+    }),
+    style: style as CSSProperties,
+  };
+};
@@ -0,0 +1,120 @@
+import { act, renderHook } from "@testing-library/react";
+
+import {
+  queryStringTableStateStorage,
+  sessionTableStateStorage,
+  useTableState,
+} from "./useTableState";
+
+beforeEach(() => {
+  window.localStorage.clear();
+  window.sessionStorage.clear();
+  window.history.replaceState(null, "", "/");
+});
+
+it("uses the default state if there is no stored state", () => {
+  const { result } = renderHook(() =>
+    useTableState("machines", { defaultState: { page: 2 } })
+  );
+  expect(result.current.state).toEqual({ page: 2 });
+});
+
+it("loads the state from localStorage", () => {
+  window.localStorage.setItem(
+    "machines",
+    JSON.stringify({ sortBy: [{ id: "name", desc: true }] })
+  );
+  const { result } = renderHook(() =>
+    useTableState("machines", { defaultState: { page: 2 } })
+  );
+  expect(result.current.state).toEqual({
+    sortBy: [{ id: "name", desc: true }],
+    page: 2,
+  });
+});
+
+it("ignores invalid stored state", () => {
+  window.localStorage.setItem("machines", "{invalid");
+  const { result } = renderHook(() => useTableState("machines"));
+  expect(result.current.state).toEqual({});
+});
+
+it("merges and saves state updates", () => {
+  const { result } = renderHook(() =>
+    useTableState("machines", { storage: sessionTableStateStorage })
+  );
+  act(() => result.current.setState({ page: 3 }));
+  act(() => result.current.setState({ hiddenColumns: ["zone"] }));
+  expect(result.current.state).toEqual({ page: 3, hiddenColumns: ["zone"] });
+  expect(JSON.parse(window.sessionStorage.getItem("machines"))).toEqual({
+    page: 3,
+    hiddenColumns: ["zone"],
+  });
+});
+
+it("does not save the state if it has not changed", () => {
+  const storage = { load: jest.fn().mockReturnValue(null), save: jest.fn() };
+  const { result } = renderHook(() => useTableState("machines", { storage }));
+  act(() => result.current.setState({ page: 2 }));
+  act(() => result.current.setState({ page: 2 }));
+  expect(storage.save).toHaveBeenCalledTimes(1);
+});
+
+it("loads the state from the query string", () => {
+  window.history.replaceState(
+    null,
+    "",
+    "/?machines.sort=name,-zone&machines.page=2&machines.hidden=cores&other=1"
+  );
+  const { result } = renderHook(() =>
+    useTableState("machines", { storage: queryStringTableStateStorage })
+  );
+  expect(result.current.state).toEqual({
+    sortBy: [{ id: "name" }, { id: "zone", desc: true }],
+    page: 2,
+    hiddenColumns: ["cores"],
+  });
+});
+
+it("saves the state to the query string", () => {
+  window.history.replaceState(null, "", "/?other=1#top");
+  const { result } = renderHook(() =>
+    useTableState("machines", { storage: queryStringTableStateStorage })
+  );
+  act(() =>
+    result.current.setState({
+      sortBy: [{ id: "name", desc: true }],
+      page: 3,
+      pageSize: 20,
+    })
+  );
+  expect(window.location.search).toBe(
+    "?other=1&machines.sort=-name&machines.page=3&machines.pageSize=20"
+  );
+  expect(window.location.hash).toBe("#top");
+  act(() => result.current.setState({ sortBy: [], page: null }));
+  expect(window.location.search).toBe("?other=1&machines.pageSize=20");
+});
+
+it("reloads the state when the key changes", () => {
+  window.localStorage.setItem("machines", JSON.stringify({ page: 2 }));
+  window.localStorage.setItem("controllers", JSON.stringify({ page: 4 }));
+  const { result, rerender } = renderHook(({ key }) => useTableState(key), {
+    initialProps: { key: "machines" },
+  });
+  expect(result.current.state).toEqual({ page: 2 });
+  rerender({ key: "controllers" });
+  expect(result.current.state).toEqual({ page: 4 });
+});
+
+it("reloads the state from the query string when navigating", () => {
+  window.history.replaceState(null, "", "/?machines.page=2");
+  const { result } = renderHook(() =>
+    useTableState("machines", { storage: queryStringTableStateStorage })
+  );
+  act(() => {
+    window.history.pushState(null, "", "/?machines.page=5");
+    window.dispatchEvent(new PopStateEvent("popstate"));
+  });
+  expect(result.current.state).toEqual({ page: 5 });
+});
@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { getStoredValue, setStoredValue } from "utils";
+
+export type TableViewState = {
+  /**
+   * The columns the table is sorted by, in order of priority.
+   */
+  sortBy?: { id: string; desc?: boolean }[];
+  /**
+   * The current page number.
+   */
+  page?: number;
+  /**
+   * The number of rows per page.
+   */
+  pageSize?: number;
+  /**
+   * The ids of the columns that are hidden.
+   */
+  hiddenColumns?: string[];
+};
+
+export type TableStateStorage = {
+  /**
+   * Load the stored state for a table, or null if there is no stored state.
+   */
+  load: (key: string) => TableViewState | null;
+  /**
+   * Store the state for a table.
+   */
+  save: (key: string, state: TableViewState) => void;
+  /**
+   * Subscribe to changes to the stored state that are made outside of the
+   * table, e.g. by navigating through the browser history. Returns a function
+   * to unsubscribe.
+   */
+  subscribe?: (key: string, onChange: () => void) => () => void;
+};
+
+export type TableStateHandler = {
+  /**
+   * The current state of the table.
+   */
+  state: TableViewState;
+  /**
+   * Update some or all of the state of the table.
+   */
+  setState: (state: Partial<TableViewState>) => void;
+};
+
+const createWebStorage = (getStorage: () => Storage): TableStateStorage => ({
+  load: (key) => getStoredValue(key, getStorage) as TableViewState | null,
+  save: (key, state) => setStoredValue(key, state, getStorage),
+});
+
+/**
+ * Stores the table state in localStorage so that it is kept between sessions.
+ */
+export const localTableStateStorage = createWebStorage(
+  () => window.localStorage
+);
+
+/**
+ * Stores the table state in sessionStorage so that it is kept for the
+ * current session.
+ */
+export const sessionTableStateStorage = createWebStorage(
+  () => window.sessionStorage
+);
+
+const parseList = (value: string | null) =>
+  value ? value.split(",").filter(Boolean) : undefined;
+
+const parseNumber = (value: string | null) => {
+  const number = Number(value);
+  return value && Number.isInteger(number) && number > 0 ? number : undefined;
+};
+
+/**
+ * Stores the table state in the URL query string so that it can be shared as
+ * a link, e.g. `?machines.sort=name,-zone&machines.page=2`. Descending sorts
+ * are prefixed with "-".
+ */
+export const queryStringTableStateStorage: TableStateStorage = {
+  load: (key) => {
+    const params = new URLSearchParams(window.location.search);
+    const state: TableViewState = {
+      sortBy: parseList(params.get(`${key}.sort`))?.map((id) =>
+        id.startsWith("-") ? { id: id.slice(1), desc: true } : { id }
+      ),
+      page: parseNumber(params.get(`${key}.page`)),
+      pageSize: parseNumber(params.get(`${key}.pageSize`)),
+      hiddenColumns: parseList(params.get(`${key}.hidden`)),
+    };
+    // Only return the state that was found in the query string.
+    Object.keys(state).forEach(
+      (name: keyof TableViewState) =>
+        state[name] === undefined && delete state[name]
+    );
+    return Object.keys(state).length ? state : null;
+  },
+  save: (key, { sortBy, page, pageSize, hiddenColumns }) => {
+    const params = new URLSearchParams(window.location.search);
+    const values: [string, string | null][] = [
+      [
+        "sort",
+        sortBy?.length
+          ? sortBy.map(({ id, desc }) => `${desc ? "-" : ""}${id}`).join(",")
+          : null,
+      ],
+      ["page", page ? String(page) : null],
+      ["pageSize", pageSize ? String(pageSize) : null],
+      ["hidden", hiddenColumns?.length ? hiddenColumns.join(",") : null],
+    ];
+    values.forEach(([name, value]) => {
+      if (value === null) {
+        params.delete(`${key}.${name}`);
+      } else {
+        params.set(`${key}.${name}`, value);
+      }
+    });
+    const search = params.toString();
+    window.history.replaceState(
+      window.history.state,
+      "",
+      `${window.location.pathname}${search ? `?${search}` : ""}${
+        window.location.hash
+      }`
+    );
+  },
+  // The query string changes when navigating back and forward.
+  subscribe: (_key, onChange) => {
+    window.addEventListener("popstate", onChange);
+    return () => window.removeEventListener("popstate", onChange);
+  },
+};
+
+/**
+ * A hook that handles persisting a table's sort, page, page size and hidden
+ * columns, e.g. so that they are kept when navigating away from the table.
+ * The result can be passed to the `tableState` prop of MainTable or ModularTable.
+ * @param key - A key that identifies the table in the storage.
+ * @param {Object} options
+ * @param {TableStateStorage} [options.storage=localTableStateStorage] - Where to store the state.
+ * @param {TableViewState} [options.defaultState] - The state to use if there is no stored state.
+ */
+export function useTableState(
+  key: string,
+  options?: {
+    storage?: TableStateStorage;
+    defaultState?: TableViewState;
+  }
+): TableStateHandler {
+  const { storage = localTableStateStorage, defaultState } = options ?? {};
+  const latestDefaultState = useRef(defaultState);
+  latestDefaultState.current = defaultState;
+  const loadState = useCallback(
+    (): TableViewState => ({
+      ...latestDefaultState.current,
+      ...storage.load(key),
+    }),
+    [key, storage]
+  );
+  const [state, setTableState] = useState<TableViewState>(loadState);
+  const latestState = useRef(state);
+
+  // Reload the state when the key or storage changes, or when the stored
+  // state is changed outside of the table.
+  useEffect(() => {
+    const reload = () => {
+      const loadedState = loadState();
+      if (JSON.stringify(loadedState) !== JSON.stringify(latestState.current)) {
+        latestState.current = loadedState;
+        setTableState(loadedState);
+      }
+    };
+    reload();
+    return storage.subscribe?.(key, reload);
+  }, [key, loadState, storage]);
+
+  const setState = useCallback(
+    (newState: Partial<TableViewState>) => {
+      const updatedState = { ...latestState.current, ...newState };
+      if (
+        JSON.stringify(updatedState) === JSON.stringify(latestState.current)
+      ) {
+        return;
+      }
+      latestState.current = updatedState;
+      storage.save(key, updatedState);
+      setTableState(updatedState);
+    },
+    [key, storage]
+  );
+
+  return { state, setState };
+}
@@ -0,0 +1,128 @@
+import { act, renderHook } from "@testing-library/react";
+import type { UIEvent } from "react";
+
+import { useVirtualRows } from "./useVirtualRows";
+
+const scrollTo = (scrollTop: number) =>
+  ({ currentTarget: { scrollTop } } as UIEvent<HTMLElement>);
+
+it("returns the visible rows and overscan", () => {
+  const { result } = renderHook(() =>
+    useVirtualRows(100, { height: 100, rowHeight: 10, overscan: 2 })
+  );
+  expect(result.current.startIndex).toBe(0);
+  expect(result.current.endIndex).toBe(12);
+  expect(result.current.paddingTop).toBe(0);
+  expect(result.current.paddingBottom).toBe(880);
+});
+
+it("updates the visible rows when scrolled", () => {
+  const { result } = renderHook(() =>
+    useVirtualRows(100, { height: 100, rowHeight: 10, overscan: 2 })
+  );
+  act(() => result.current.onScroll(scrollTo(505)));
+  expect(result.current.startIndex).toBe(48);
+  expect(result.current.endIndex).toBe(63);
+  expect(result.current.paddingTop).toBe(480);
+  expect(result.current.paddingBottom).toBe(370);
+});
+
+it("does not go past the last row", () => {
+  const { result } = renderHook(() =>
+    useVirtualRows(20, { height: 100, rowHeight: 10, overscan: 5 })
+  );
+  act(() => result.current.onScroll(scrollTo(100)));
+  expect(result.current.startIndex).toBe(5);
+  expect(result.current.endIndex).toBe(20);
+  expect(result.current.paddingBottom).toBe(0);
+});
+
+it("can use a different height for each row", () => {
+  const { result } = renderHook(() =>
+    useVirtualRows(10, {
+      height: 50,
+      rowHeight: (index) => (index === 0 ? 100 : 10),
+      overscan: 0,
+    })
+  );
+  expect(result.current.startIndex).toBe(0);
+  expect(result.current.endIndex).toBe(1);
+  act(() => result.current.onScroll(scrollTo(100)));
+  expect(result.current.startIndex).toBe(1);
+  expect(result.current.endIndex).toBe(6);
+  expect(result.current.paddingTop).toBe(100);
+  expect(result.current.paddingBottom).toBe(40);
+});
+
+it("uses the measured height of rendered rows", () => {
+  const container = document.createElement("div");
+  [0, 1].forEach((index) => {
+    const row = document.createElement("div");
+    row.dataset.virtualIndex = index.toString();
+    row.getBoundingClientRect = () => ({ height: 50 } as DOMRect);
+    container.appendChild(row);
+  });
+  const { result } = renderHook(() =>
+    useVirtualRows(100, { height: 100, rowHeight: 10, overscan: 0 })
+  );
+  act(() => result.current.measureRef(container));
+  expect(result.current.startIndex).toBe(0);
+  expect(result.current.endIndex).toBe(2);
+  expect(result.current.paddingBottom).toBe(980);
+});
+
+it("measures the rows again when they are resized", () => {
+  const originalResizeObserver = window.ResizeObserver;
+  let resize: () => void;
+  const observe = jest.fn();
+  window.ResizeObserver = jest.fn((callback) => {
+    resize = () => callback([], null);
+    return { disconnect: jest.fn(), observe, unobserve: jest.fn() };
+  });
+  const rowHeights = [10, 10];
+  const container = document.createElement("div");
+  const rows = rowHeights.map((_, index) => {
+    const row = document.createElement("div");
+    row.dataset.virtualIndex = index.toString();
+    row.getBoundingClientRect = () =>
+      ({ height: rowHeights[index] } as DOMRect);
+    container.appendChild(row);
+    return row;
+  });
+  const { result } = renderHook(() =>
+    useVirtualRows(100, { height: 100, rowHeight: 10, overscan: 0 })
+  );
+  act(() => result.current.measureRef(container));
+  expect(observe).toHaveBeenCalledWith(rows[0]);
+  expect(observe).toHaveBeenCalledWith(rows[1]);
+  expect(result.current.endIndex).toBe(10);
+  expect(result.current.paddingBottom).toBe(900);
+  // Expand the second row.
+  rowHeights[1] = 60;
+  act(() => resize());
+  expect(result.current.endIndex).toBe(5);
+  expect(result.current.paddingBottom).toBe(950);
+  window.ResizeObserver = originalResizeObserver;
+});
+
+it("discards the measured heights when the rows change", () => {
+  const keys = Array.from({ length: 20 }, (_, index) => `row-${index}`);
+  const container = document.createElement("div");
+  const row = document.createElement("div");
+  row.dataset.virtualIndex = "0";
+  row.getBoundingClientRect = () => ({ height: 50 } as DOMRect);
+  container.appendChild(row);
+  const { result, rerender } = renderHook(
+    ({ rowKeys }) =>
+      useVirtualRows(20, { height: 100, rowHeight: 10, overscan: 0, rowKeys }),
+    { initialProps: { rowKeys: keys } }
+  );
+  act(() => result.current.measureRef(container));
+  expect(result.current.endIndex).toBe(6);
+  expect(result.current.paddingBottom).toBe(140);
+  // The measured row is no longer rendered once the rows have been sorted.
+  container.removeChild(row);
+  rerender({ rowKeys: [...keys].reverse() });
+  expect(result.current.endIndex).toBe(10);
+  expect(result.current.paddingBottom).toBe(100);
+});
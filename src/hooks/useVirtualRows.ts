@@ -0,0 +1,216 @@
+import { useCallback, useLayoutEffect, useMemo, useRef, useState } from "react";
+import type { Key, UIEvent } from "react";
+
+export type VirtualRowsOptions = {
+  /**
+   * The height in pixels of the scrolling area that displays the rows.
+   */
+  height: number;
+  /**
+   * The estimated height in pixels of each row, or a function that returns the
+   * estimated height of the row at a given index. Rendered rows are measured
+   * and their measured heights are used in place of the estimate.
+   */
+  rowHeight: number | ((index: number) => number);
+  /**
+   * The number of rows to render above and below the visible rows.
+   */
+  overscan?: number;
+  /**
+   * The keys of the rows in the order they are displayed. The measured
+   * heights are discarded when the keys change, e.g. when the rows are
+   * sorted or filtered. Defaults to the row indexes.
+   */
+  rowKeys?: Key[];
+};
+
+type MeasuredHeights = {
+  keys: Key[];
+  heights: Record<number, number>;
+};
+
+const isSameKeys = (keys: Key[], otherKeys: Key[]) =>
+  keys.length === otherKeys.length &&
+  keys.every((key, index) => key === otherKeys[index]);
+
+/**
+ * A hook that calculates which rows in a scrolling area need to be rendered.
+ *
+ * Rows inside the element passed to `measureRef` that have a
+ * `data-virtual-index` attribute are measured after they are rendered and
+ * whenever they are resized, so rows that are taller than their estimated
+ * height (e.g. expanded rows or rows displayed as cards) are positioned
+ * correctly.
+ * @param count - The total number of rows.
+ * @param {Object} options
+ * @param {number} options.height - The height of the scrolling area.
+ * @param {number|Function} options.rowHeight - The estimated height of each row, or a function that returns the estimated height for a row index.
+ * @param {number} [options.overscan=5] - The number of rows to render outside of the visible area.
+ * @param {Array} [options.rowKeys] - The keys of the rows, used to discard the measured heights when the rows change.
+ */
+export function useVirtualRows(
+  count: number,
+  { height, rowHeight, overscan = 5, rowKeys }: VirtualRowsOptions
+): {
+  startIndex: number;
+  endIndex: number;
+  paddingTop: number;
+  paddingBottom: number;
+  onScroll: (event: UIEvent<HTMLElement>) => void;
+  measureRef: (element: HTMLElement | null) => void;
+  scrollToIndex: (index: number) => void;
+} {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const indexKeys = useMemo(
+    () => Array.from({ length: count }, (_, index) => index),
+    [count]
+  );
+  const keys = rowKeys ?? indexKeys;
+  const [measured, setMeasured] = useState<MeasuredHeights>({
+    keys,
+    heights: {},
+  });
+  // Measurements are discarded when the rows change, as the heights are
+  // stored by index and the rows at each index may be different.
+  const measuredHeights = isSameKeys(measured.keys, keys)
+    ? measured.heights
+    : null;
+  // The latest keys are stored with the measurements when the rows are
+  // measured.
+  const currentKeys = useRef(keys);
+  currentKeys.current = keys;
+  const observedRows = useRef(new Set<HTMLElement>());
+  const observer = useRef<ResizeObserver | null>(null);
+  // The position of the top of each row, with an extra entry for the total
+  // height of all rows.
+  const offsets = useMemo(() => {
+    const positions = [0];
+    for (let i = 0; i < count; i++) {
+      positions.push(
+        positions[i] +
+          (measuredHeights?.[i] ??
+            (typeof rowHeight === "function" ? rowHeight(i) : rowHeight))
+      );
+    }
+    return positions;
+  }, [count, measuredHeights, rowHeight]);
+
+  const onScroll = useCallback(
+    (event: UIEvent<HTMLElement>) =>
+      setScrollTop(event.currentTarget.scrollTop),
+    []
+  );
+
+  const measureRows = useCallback(() => {
+    if (!container) {
+      return;
+    }
+    const heights: Record<number, number> = {};
+    container
+      .querySelectorAll<HTMLElement>("[data-virtual-index]")
+      .forEach((row) => {
+        const rowSize = row.getBoundingClientRect().height;
+        // Rows that have not been laid out keep their estimated height.
+        if (rowSize > 0) {
+          heights[Number(row.dataset.virtualIndex)] = rowSize;
+        }
+      });
+    setMeasured((current) => {
+      const sameKeys = isSameKeys(current.keys, currentKeys.current);
+      const previous = sameKeys ? current.heights : {};
+      const changed =
+        !sameKeys ||
+        Object.entries(heights).some(
+          ([index, rowSize]) => previous[Number(index)] !== rowSize
+        );
+      return changed
+        ? { keys: currentKeys.current, heights: { ...previous, ...heights } }
+        : current;
+    });
+  }, [container]);
+
+  // Scroll the least amount needed to display a row.
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const top =
+        offsets[index] < scrollTop
+          ? offsets[index]
+          : Math.max(offsets[index + 1] - height, scrollTop);
+      if (container) {
+        container.scrollTop = top;
+      }
+      setScrollTop(top);
+    },
+    [container, height, offsets, scrollTop]
+  );
+
+  // Find the first row that is at least partially visible.
+  let low = 0;
+  let high = count;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (offsets[middle + 1] <= scrollTop) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  let lastVisible = low;
+  while (lastVisible < count && offsets[lastVisible] < scrollTop + height) {
+    lastVisible++;
+  }
+  const startIndex = Math.max(0, low - overscan);
+  const endIndex = Math.min(count, lastVisible + overscan);
+
+  // Row heights can change without the rows being rendered again, e.g. when
+  // the scrolling area is resized and a responsive table switches to
+  // displaying rows as cards, so the container and the rows are observed.
+  useLayoutEffect(() => {
+    if (!container || typeof ResizeObserver === "undefined") {
+      return undefined;
+    }
+    const rows = observedRows.current;
+    observer.current = new ResizeObserver(() => measureRows());
+    observer.current.observe(container);
+    return () => {
+      observer.current?.disconnect();
+      observer.current = null;
+      rows.clear();
+    };
+  }, [container, measureRows]);
+
+  // Measure the rows each time they are rendered, as the rendered rows or
+  // their content may have changed, and observe any rows that are new.
+  useLayoutEffect(() => {
+    measureRows();
+    if (!container || !observer.current) {
+      return;
+    }
+    const rows = new Set(
+      container.querySelectorAll<HTMLElement>("[data-virtual-index]")
+    );
+    observedRows.current.forEach((row) => {
+      if (!rows.has(row)) {
+        observer.current.unobserve(row);
+        observedRows.current.delete(row);
+      }
+    });
+    rows.forEach((row) => {
+      if (!observedRows.current.has(row)) {
+        observer.current.observe(row);
+        observedRows.current.add(row);
+      }
+    });
+  });
+
+  return {
+    startIndex,
+    endIndex,
+    paddingTop: offsets[startIndex],
+    paddingBottom: offsets[count] - offsets[endIndex],
+    onScroll,
+    measureRef: setContainer,
+    scrollToIndex,
+  };
+}
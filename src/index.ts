@@ -12,6 +12,7 @@ export {
   CodeSnippetBlockAppearance,
 } from "./components/CodeSnippet";
 export { default as Col } from "./components/Col";
+export { default as Combobox } from "./components/Combobox";
 export { default as ConfirmationButton } from "./components/ConfirmationButton";
 export { default as ConfirmationModal } from "./components/ConfirmationModal";
 export { default as ContextualMenu } from "./components/ContextualMenu";
@@ -23,6 +24,12 @@ export { default as Input } from "./components/Input";
 export { default as Label } from "./components/Label";
 export { default as Link } from "./components/Link";
 export { default as List } from "./components/List";
+export {
+  default as ListboxDropdown,
+  ListboxOption,
+  orderByGroup,
+  useListboxNavigation,
+} from "./components/ListboxDropdown";
 export { default as Loader } from "./components/Loader";
 export { default as MainTable } from "./components/MainTable";
 export { default as ModularTable } from "./components/ModularTable";
@@ -45,7 +52,25 @@ export { default as Pagination } from "./components/Pagination";
 export { default as PasswordToggle } from "./components/PasswordToggle";
 export { default as RadioInput } from "./components/RadioInput";
 export { default as Row } from "./components/Row";
-export { default as SearchAndFilter } from "./components/SearchAndFilter";
+export {
+  default as SearchAndFilter,
+  browserSearchAndFilterUrlAdapter,
+  clearSearchAndFilterChipsCache,
+  createSearchAndFilterParamEncoding,
+  createSearchAndFilterQuery,
+  createSearchAndFilterTextEncoding,
+  getSearchAndFilterLeadCompletions,
+  isEmptySearchAndFilterQuery,
+  localSearchAndFilterPresetStorage,
+  matchesSearchAndFilterQuery,
+  parseSearchAndFilterText,
+  parseSearchAndFilterValue,
+  serializeSearchAndFilterChips,
+  serializeSearchAndFilterValue,
+  useRouterSearchAndFilterUrlAdapter,
+  useSearchAndFilterPresets,
+  useSearchAndFilterUrlState,
+} from "./components/SearchAndFilter";
 export { default as SearchBox } from "./components/SearchBox";
 export { default as Select } from "./components/Select";
 export { default as Slider } from "./components/Slider";
@@ -59,8 +84,17 @@ export { default as Strip } from "./components/Strip";
 export { default as SummaryButton } from "./components/SummaryButton";
 export { default as Table } from "./components/Table";
 export { default as TableCell } from "./components/TableCell";
+export {
+  default as TableExportButton,
+  downloadTableData,
+  escapeCsvValue,
+  serializeTableData,
+} from "./components/TableExportButton";
+export { default as TableErrorRow } from "./components/TableErrorRow";
 export { default as TableHeader } from "./components/TableHeader";
+export { default as TableLoadingOverlay } from "./components/TableLoadingOverlay";
 export { default as TableRow } from "./components/TableRow";
+export { default as TableSkeletonRows } from "./components/TableSkeletonRows";
 export { default as Tabs } from "./components/Tabs";
 export { default as Textarea } from "./components/Textarea";
 export { default as Tooltip } from "./components/Tooltip";
@@ -80,6 +114,12 @@ export type {
   CodeSnippetDropdownProps,
 } from "./components/CodeSnippet";
 export type { ColProps, ColSize } from "./components/Col";
+export type {
+  ComboboxChangeEvent,
+  ComboboxOption,
+  ComboboxOptionsLoader,
+  ComboboxProps,
+} from "./components/Combobox";
 export type { ConfirmationButtonProps } from "./components/ConfirmationButton";
 export type { ConfirmationModalProps } from "./components/ConfirmationModal";
 export type {
@@ -96,8 +136,25 @@ export type { InputProps } from "./components/Input";
 export type { LabelProps } from "./components/Label";
 export type { LinkProps } from "./components/Link";
 export type { ListProps } from "./components/List";
-export type { MainTableProps } from "./components/MainTable";
-export type { ModularTableProps } from "./components/ModularTable";
+export type {
+  ListboxDropdownOption,
+  ListboxDropdownProps,
+  ListboxNavigationOptions,
+  ListboxOptionProps,
+} from "./components/ListboxDropdown";
+export type {
+  MainTableProps,
+  MainTableSort,
+  MainTableSortType,
+} from "./components/MainTable";
+export type {
+  ModularTableProps,
+  ModularTableCellEditHandler,
+  ModularTableCellEditor,
+  ModularTableColumnFilterType,
+  ModularTableColumnState,
+  ModularTableTreeActions,
+} from "./components/ModularTable";
 export type { ModalProps } from "./components/Modal";
 export type {
   GenerateLink,
@@ -119,8 +176,28 @@ export type {
 export type { PaginationProps } from "./components/Pagination";
 export type { RadioInputProps } from "./components/RadioInput";
 export type { RowProps } from "./components/Row";
-export type { SearchAndFilterProps } from "./components/SearchAndFilter";
-export type { SearchBoxProps } from "./components/SearchBox";
+export type {
+  SearchAndFilterChip,
+  SearchAndFilterChipsLoader,
+  SearchAndFilterChipsPage,
+  SearchAndFilterData,
+  SearchAndFilterLeadCompletion,
+  SearchAndFilterOperator,
+  SearchAndFilterPreset,
+  SearchAndFilterPresets,
+  SearchAndFilterPresetStorage,
+  SearchAndFilterProps,
+  SearchAndFilterQuery,
+  SearchAndFilterQueryTerm,
+  SearchAndFilterUrlAdapter,
+  SearchAndFilterUrlEncoding,
+  SearchAndFilterUrlState,
+} from "./components/SearchAndFilter";
+export type {
+  SearchBoxProps,
+  SearchBoxSuggestion,
+  SearchBoxSuggestionsGetter,
+} from "./components/SearchBox";
 export type { SelectProps } from "./components/Select";
 export type { SliderProps } from "./components/Slider";
 export type { SpinnerProps } from "./components/Spinner";
@@ -129,8 +206,17 @@ export type { StripProps } from "./components/Strip";
 export type { SummaryButtonProps } from "./components/SummaryButton";
 export type { TableProps } from "./components/Table";
 export type { TableCellProps } from "./components/TableCell";
+export type {
+  TableExportButtonProps,
+  TableExportData,
+  TableExportFormat,
+  TableExportScope,
+} from "./components/TableExportButton";
+export type { TableErrorRowProps } from "./components/TableErrorRow";
 export type { TableHeaderProps } from "./components/TableHeader";
+export type { TableLoadingOverlayProps } from "./components/TableLoadingOverlay";
 export type { TableRowProps } from "./components/TableRow";
+export type { TableSkeletonRowsProps } from "./components/TableSkeletonRows";
 export type { TabsProps } from "./components/Tabs";
 export type { TextareaProps } from "./components/Textarea";
 export type { TooltipProps } from "./components/Tooltip";
@@ -138,17 +224,43 @@ export type { TooltipProps } from "./components/Tooltip";
 export {
   useOnClickOutside,
   useClickOutside,
+  useDebouncedLoader,
+  useGridNavigation,
   useId,
   useListener,
   useOnEscapePressed,
   usePagination,
   usePrevious,
+  useStickyCells,
+  useTableState,
   useThrottle,
+  useVirtualRows,
   useWindowFitment,
+  localTableStateStorage,
+  sessionTableStateStorage,
+  queryStringTableStateStorage,
+} from "hooks";
+export type {
+  DebouncedLoader,
+  DebouncedLoaderState,
+  GridNavigationOptions,
+  StickyCellsOptions,
+  StickyCellsProps,
+  TableStateHandler,
+  TableStateStorage,
+  TableViewState,
+  VirtualRowsOptions,
+  WindowFitment,
 } from "hooks";
-export type { WindowFitment } from "hooks";
 
-export { isNavigationAnchor, isNavigationButton } from "utils";
+export {
+  fuzzyMatch,
+  highlightFuzzyMatch,
+  isNavigationAnchor,
+  isNavigationButton,
+  rankFuzzyMatches,
+} from "utils";
+export type { FuzzyMatch, RankedFuzzyMatch } from "utils";
 
 export type {
   ClassName,
@@ -0,0 +1,133 @@
+import { render } from "@testing-library/react";
+import React from "react";
+
+import {
+  fuzzyMatch,
+  getStoredValue,
+  highlightFuzzyMatch,
+  parseBytes,
+  rankFuzzyMatches,
+  setStoredValue,
+} from "./utils";
+
+describe("fuzzyMatch function ", () => {
+  it("returns the matching characters", () => {
+    expect(fuzzyMatch("react", "act")?.indices).toEqual([2, 3, 4]);
+    expect(fuzzyMatch("react", "rat")?.indices).toEqual([0, 2, 4]);
+  });
+
+  it("does not match characters that are out of order", () => {
+    expect(fuzzyMatch("react", "tar")).toBeNull();
+  });
+
+  it("handles characters that are special in regular expressions", () => {
+    expect(fuzzyMatch("a (b) *", "(b) *")?.indices).toEqual([2, 3, 4, 5, 6]);
+    expect(fuzzyMatch("ab", "a*")).toBeNull();
+  });
+
+  it("ignores case and diacritics", () => {
+    expect(fuzzyMatch("Ćevapi Žito", "cevapi zi")?.indices).toEqual([
+      0, 1, 2, 3, 4, 5, 6, 7, 8,
+    ]);
+    expect(fuzzyMatch("cafe", "CAFÉ")?.indices).toEqual([0, 1, 2, 3]);
+  });
+
+  it("prefers matches at the start of a word", () => {
+    expect(fuzzyMatch("contain tai", "tai")?.indices).toEqual([8, 9, 10]);
+  });
+
+  it("matches an empty query", () => {
+    expect(fuzzyMatch("react", "")).toEqual({ indices: [], score: 0 });
+  });
+
+  it("gracefully fails when invalid strings are provided", () => {
+    expect(fuzzyMatch(undefined, "somesub")).toBeNull();
+    expect(fuzzyMatch("somestring", undefined)).toBeNull();
+  });
+});
+
+describe("rankFuzzyMatches function ", () => {
+  it("sorts the matching items from best to worst", () => {
+    expect(
+      rankFuzzyMatches(
+        ["a gpu machine", "big purple unicorn", "gpu", "cpu"],
+        "gpu"
+      ).map(({ item }) => item)
+    ).toEqual(["gpu", "a gpu machine", "big purple unicorn"]);
+  });
+
+  it("can search the text for an item", () => {
+    expect(
+      rankFuzzyMatches(
+        [{ name: "cpu" }, { name: "gpu" }],
+        "gp",
+        ({ name }) => name
+      )
+    ).toEqual([
+      {
+        item: { name: "gpu" },
+        match: expect.objectContaining({ indices: [0, 1] }),
+      },
+    ]);
+  });
+});
+
+describe("highlightFuzzyMatch function ", () => {
+  it("wraps the matching characters in strong elements", () => {
+    render(<p>{highlightFuzzyMatch("Positive", "pve")}</p>);
+    // eslint-disable-next-line testing-library/no-node-access
+    const strong = document.querySelectorAll("strong");
+    expect(Array.from(strong, ({ textContent }) => textContent)).toEqual([
+      "P",
+      "ve",
+    ]);
+  });
+
+  it("returns the string if nothing matches", () => {
+    expect(highlightFuzzyMatch("react", "xyz")).toBe("react");
+    expect(highlightFuzzyMatch(undefined, "xyz")).toBe("");
+  });
+});
+
+describe("parseBytes function ", () => {
+  it("parses decimal and binary units", () => {
+    expect(parseBytes("200MB")).toBe(200000000);
+    expect(parseBytes("1.5 GiB")).toBe(1610612736);
+    expect(parseBytes("12 bytes")).toBe(12);
+    expect(parseBytes(1024)).toBe(1024);
+  });
+
+  it("returns null for values that are not sizes", () => {
+    expect(parseBytes("3 cores")).toBeNull();
+    expect(parseBytes(null)).toBeNull();
+  });
+});
+
+describe("stored value functions ", () => {
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("stores values as JSON", () => {
+    setStoredValue("key", { page: 2 });
+    expect(window.localStorage.getItem("key")).toBe('{"page":2}');
+    expect(getStoredValue("key")).toEqual({ page: 2 });
+  });
+
+  it("can use a different storage", () => {
+    setStoredValue("key", [1], () => window.sessionStorage);
+    expect(getStoredValue("key")).toBeNull();
+    expect(getStoredValue("key", () => window.sessionStorage)).toEqual([1]);
+    window.sessionStorage.clear();
+  });
+
+  it("handles invalid values and unavailable storage", () => {
+    window.localStorage.setItem("key", "{");
+    expect(getStoredValue("key")).toBeNull();
+    const unavailable = () => {
+      throw new Error("Unavailable");
+    };
+    expect(getStoredValue("key", unavailable)).toBeNull();
+    expect(() => setStoredValue("key", [], unavailable)).not.toThrow();
+  });
+});
@@ -0,0 +1,256 @@
+import React from "react";
+import type { ReactNode } from "react";
+
+import { NavLink, NavLinkAnchor, NavLinkButton } from "components/Navigation";
+
+export const IS_DEV = process.env.NODE_ENV === "development";
+
+export type FuzzyMatch = {
+  /**
+   * The indexes of the characters that matched the query.
+   */
+  indices: number[];
+  /**
+   * How well the string matched, higher scores are better matches.
+   */
+  score: number;
+};
+
+export type RankedFuzzyMatch<I> = {
+  item: I;
+  match: FuzzyMatch;
+};
+
+// Matched characters score one point, with bonuses for characters that follow
+// the previous match or start a word.
+const CONSECUTIVE_BONUS = 5;
+const WORD_START_BONUS = 3;
+// A small penalty for each unmatched character so that shorter strings rank
+// above longer strings with the same matches.
+const UNMATCHED_PENALTY = 0.01;
+
+/**
+ * Remove diacritics and case so that e.g. "Ž" matches "z".
+ * @param char - A single character.
+ */
+const normaliseChar = (char: string) =>
+  char
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+/**
+ * Normalise a string, keeping track of which character in the original string
+ * each normalised character came from.
+ * @param str - The string to normalise.
+ */
+const normalise = (str: string) => {
+  let text = "";
+  const positions: number[] = [];
+  Array.from(str).reduce((position, char) => {
+    const normalised = normaliseChar(char);
+    text += normalised;
+    positions.push(...Array(normalised.length).fill(position));
+    // Characters outside the BMP take up two indexes in the original string.
+    return position + char.length;
+  }, 0);
+  return { positions, text };
+};
+
+const isWordStart = (text: string, index: number) =>
+  index === 0 || !/[\p{L}\p{N}]/u.test(text[index - 1]);
+
+const scoreIndices = (text: string, indices: number[]) =>
+  indices.reduce(
+    (score, index, i) =>
+      score +
+      1 +
+      (i > 0 && indices[i - 1] === index - 1 ? CONSECUTIVE_BONUS : 0) +
+      (isWordStart(text, index) ? WORD_START_BONUS : 0),
+    -(text.length - indices.length) * UNMATCHED_PENALTY
+  );
+
+/**
+ * Match a query against a string, ignoring case and diacritics. The
+ * characters in the query must appear in the string in order, but do not need
+ * to be next to each other.
+ * @param str - The string to search.
+ * @param query - The query to find.
+ * @return The matched characters and score, or null if the string does not
+ * match.
+ */
+export const fuzzyMatch = (str?: string, query?: string): FuzzyMatch | null => {
+  if (typeof str !== "string" || typeof query !== "string") {
+    return null;
+  }
+  const { positions, text } = normalise(str);
+  const search = normalise(query).text;
+  if (!search) {
+    return { indices: [], score: 0 };
+  }
+  const candidates: number[][] = [];
+  // Check each place the query appears in full so that a match at the start
+  // of a word can be preferred.
+  for (
+    let start = text.indexOf(search);
+    start !== -1;
+    start = text.indexOf(search, start + 1)
+  ) {
+    candidates.push(Array.from(search, (_, i) => start + i));
+  }
+  if (!candidates.length) {
+    const indices: number[] = [];
+    for (const char of search) {
+      const previous = indices[indices.length - 1];
+      const index = text.indexOf(
+        char,
+        previous === undefined ? 0 : previous + 1
+      );
+      if (index === -1) {
+        return null;
+      }
+      indices.push(index);
+    }
+    candidates.push(indices);
+  }
+  const best = candidates
+    .map((indices) => ({ indices, score: scoreIndices(text, indices) }))
+    .reduce((best, match) => (match.score > best.score ? match : best));
+  return {
+    // Map the normalised characters back to the original string.
+    indices: [...new Set(best.indices.map((index) => positions[index]))],
+    score: best.score,
+  };
+};
+
+/**
+ * Match a query against a list of items and sort the matching items from the
+ * best to the worst match.
+ * @param items - The items to search.
+ * @param query - The query to find.
+ * @param getText - A function that returns the text to search for an item.
+ * @return The matching items and their matches.
+ */
+export const rankFuzzyMatches = <I,>(
+  items: I[],
+  query: string,
+  getText: (item: I) => string = String
+): RankedFuzzyMatch<I>[] =>
+  items
+    .map((item) => ({ item, match: fuzzyMatch(getText(item), query) }))
+    .filter(({ match }) => !!match)
+    // Array.prototype.sort is stable, so items with the same score keep their
+    // original order.
+    .sort((a, b) => b.match.score - a.match.score);
+
+/**
+ * Wrap the characters that match a query in <strong /> elements.
+ * @param str - The string to display.
+ * @param query - The query to highlight, or an existing match.
+ * @return The string with the matching characters highlighted.
+ */
+export const highlightFuzzyMatch = (
+  str?: string,
+  query?: string | FuzzyMatch | null
+): ReactNode => {
+  if (typeof str !== "string") {
+    return "";
+  }
+  const match = typeof query === "string" ? fuzzyMatch(str, query) : query;
+  if (!match?.indices.length) {
+    return str;
+  }
+  const matched = new Set(match.indices);
+  const parts: ReactNode[] = [];
+  let start = 0;
+  // Split the string into runs of matched and unmatched characters.
+  for (let i = 1; i <= str.length; i++) {
+    if (i === str.length || matched.has(i) !== matched.has(start)) {
+      const part = str.slice(start, i);
+      parts.push(
+        matched.has(start) ? <strong key={start}>{part}</strong> : part
+      );
+      start = i;
+    }
+  }
+  return <>{parts}</>;
+};
+
+/**
+ * Whether a navigation item is an anchor.
+ * @param link - The navigation item.
+ */
+export const isNavigationAnchor = (link: NavLink): link is NavLinkAnchor =>
+  !!link.url;
+
+/**
+ * Whether a navigation item is a button.
+ * @param link - The navigation item.
+ */
+export const isNavigationButton = (link: NavLink): link is NavLinkButton =>
+  !link.url;
+
+const BYTE_UNITS = ["", "k", "m", "g", "t", "p", "e"];
+
+/**
+ * Parse a size into bytes, e.g. "1.5 GiB" or "200MB". Binary units (e.g. KiB)
+ * use multiples of 1024 and decimal units (e.g. KB) use multiples of 1000.
+ * @param value - The size string or number of bytes.
+ */
+export const parseBytes = (value: unknown): number | null => {
+  if (typeof value === "number") {
+    return value;
+  }
+  const match =
+    typeof value === "string" &&
+    value.trim().match(/^(-?\d+(?:\.\d+)?)\s*([kmgtpe]?)(i?)b?(?:ytes?)?$/i);
+  if (!match) {
+    return null;
+  }
+  const [, size, unit, binary] = match;
+  return (
+    Number(size) *
+    (binary ? 1024 : 1000) ** BYTE_UNITS.indexOf(unit.toLowerCase())
+  );
+};
+
+/**
+ * Get a value that was stored as JSON in web storage.
+ * @param key - The key that the value was stored with.
+ * @param getStorage - A function that returns the storage. Accessing the
+ * storage can throw an error, e.g. when cookies are blocked.
+ * @returns The value, or null if there is no value, the storage is
+ * unavailable or the value is not valid JSON.
+ */
+export const getStoredValue = (
+  key: string,
+  getStorage: () => Storage = () => window.localStorage
+): unknown => {
+  try {
+    const stored = getStorage().getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    // The storage may be unavailable or contain invalid data.
+    return null;
+  }
+};
+
+/**
+ * Store a value as JSON in web storage. The value is not stored if the
+ * storage is unavailable or full.
+ * @param key - The key to store the value with.
+ * @param value - The value to store.
+ * @param getStorage - A function that returns the storage.
+ */
+export const setStoredValue = (
+  key: string,
+  value: unknown,
+  getStorage: () => Storage = () => window.localStorage
+): void => {
+  try {
+    getStorage().setItem(key, JSON.stringify(value));
+  } catch (error) {
+    // The storage may be unavailable or full, in which case the value is not
+    // persisted.
+  }
+};